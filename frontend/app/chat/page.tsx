@@ -1,11 +1,42 @@
 "use client";
 
-import { useState, useEffect, useRef, FormEvent } from "react";
+import { useState, useEffect, useRef, ChangeEvent, FormEvent } from "react";
 import { useRouter } from "next/navigation";
-import { initSocket, disconnectSocket } from "@/lib/socket";
-import { Message, JoinPayload } from "@/types/chat";
+import { initSocket, disconnectSocket, setSocketToken } from "@/lib/socket";
+import { attachmentUrl, logout, uploadAttachment } from "@/lib/api";
+import {
+  CommandReply,
+  CommandSummary,
+  HistoryPage,
+  Message,
+  MessageAttachment,
+  Notification,
+  NotificationCounts,
+  Presence,
+  ReactionUpdate,
+  ReadReceipt,
+  SendMessagePayload,
+  ThreadUpdate,
+  getAuthorId,
+} from "@/types/chat";
 import { Socket } from "socket.io-client";
 
+// Quick acknowledgements offered under every message
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "👀"];
+
+// Matches the server's per-message limit
+const MAX_ATTACHMENTS = 10;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Typing keeps the user from going idle; don't ping more often than this
+const ACTIVITY_PING_INTERVAL = 60 * 1000;
+
 export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
@@ -13,9 +44,27 @@ export default function ChatPage() {
   const [userId, setUserId] = useState("");
   const [isConnected, setIsConnected] = useState(false);
   const [isJoined, setIsJoined] = useState(false);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [token, setToken] = useState("");
+  // Uploaded but not yet sent
+  const [pendingAttachments, setPendingAttachments] = useState<
+    MessageAttachment[]
+  >([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [showInbox, setShowInbox] = useState(false);
+  const [commands, setCommands] = useState<CommandSummary[]>([]);
+  const [commandReply, setCommandReply] = useState<CommandReply | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Older pages are prepended; don't jump to the bottom for those
+  const skipScrollRef = useRef(false);
   const socketRef = useRef<Socket | null>(null);
+  const lastActivityRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
   const scrollToBottom = () => {
@@ -23,25 +72,28 @@ export default function ChatPage() {
   };
 
   useEffect(() => {
+    if (skipScrollRef.current) {
+      skipScrollRef.current = false;
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
   useEffect(() => {
     const storedUsername = localStorage.getItem("chatUsername");
+    const storedUserId = localStorage.getItem("chatUserId");
+    const storedToken = localStorage.getItem("chatToken");
 
-    if (!storedUsername) {
+    if (!storedUsername || !storedUserId || !storedToken) {
       router.push("/");
       return;
     }
 
     setUsername(storedUsername);
+    setUserId(storedUserId);
+    setToken(storedToken);
 
-    const generatedUserId = `user_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-    setUserId(generatedUserId);
-
-    const socket = initSocket();
+    const socket = initSocket(storedToken);
     socketRef.current = socket;
 
     // Connect to server
@@ -52,12 +104,8 @@ export default function ChatPage() {
       console.log("Connected to server");
       setIsConnected(true);
 
-      // Auto-join when connected
-      const joinPayload: JoinPayload = {
-        userId: generatedUserId,
-        username: storedUsername,
-      };
-      socket.emit("join", joinPayload);
+      // Auto-join when connected (identity comes from the access token)
+      socket.emit("join");
     });
 
     socket.on("disconnect", () => {
@@ -74,20 +122,149 @@ export default function ChatPage() {
       console.log("Join successful:", data);
       setIsJoined(true);
 
-      // Request recent messages after joining
-      socket.emit("getRecentMessages", { limit: 50 });
+      // Unread inbox entries from while we were away
+      setNotifications(data.notifications ?? []);
+      setUnreadNotifications(data.notificationCounts?.total ?? 0);
+
+      // Request the latest page of history after joining
+      socket.emit("loadHistory", { limit: 50 });
+      socket.emit("listCommands");
     });
 
-    socket.on("recentMessages", (data) => {
-      console.log("Received recent messages:", data);
-      if (data.success && data.data) {
-        setMessages(data.data.reverse());
+    socket.on("commands", (response: { data: CommandSummary[] }) => {
+      setCommands(response.data);
+    });
+
+    // Only this socket receives command output
+    socket.on("commandReply", (reply: CommandReply) => {
+      setCommandReply(reply);
+
+      // /nick signs in again under the new name
+      const { accessToken, username: newUsername } = reply.data ?? {};
+      if (typeof accessToken === "string" && typeof newUsername === "string") {
+        localStorage.setItem("chatToken", accessToken);
+        localStorage.setItem("chatUsername", newUsername);
+        setToken(accessToken);
+        setUsername(newUsername);
+        setSocketToken(accessToken);
+      }
+    });
+
+    socket.on(
+      "userRenamed",
+      (rename: { userId: string; oldUsername: string; username: string }) => {
+        console.log(`${rename.oldUsername} is now ${rename.username}`);
+      }
+    );
+
+    socket.on(
+      "roomTopicChanged",
+      (change: { roomId: string; topic: string | null; changedBy: string }) => {
+        console.log(`Topic of room ${change.roomId} changed:`, change.topic);
+      }
+    );
+
+    socket.on("history", (page: HistoryPage) => {
+      console.log("Received history page:", page);
+      setIsLoadingHistory(false);
+      if (!page.success) {
+        return;
+      }
+
+      const chronological = [...page.data].reverse();
+      setHistoryCursor(page.cursors.before);
+      setHasMoreHistory(page.hasMore);
+
+      if (page.before) {
+        // An older page: prepend it
+        skipScrollRef.current = true;
+        setMessages((prev) => [...chronological, ...prev]);
+        return;
+      }
+
+      setMessages(chronological);
+      const newest = chronological[chronological.length - 1];
+      if (newest) {
+        socket.emit("markRead", { messageId: newest._id });
       }
     });
 
     socket.on("newMessage", (message: Message) => {
       console.log("Received new message:", message);
+      // Thread replies are summarised on their parent instead
+      if (message.parentId) {
+        return;
+      }
       setMessages((prev) => [...prev, message]);
+      socket.emit("markRead", { messageId: message._id });
+    });
+
+    socket.on("messageRead", (receipt: ReadReceipt) => {
+      // A read cursor covers everything up to the read message
+      setMessages((prev) => {
+        const read = prev.find((message) => message._id === receipt.messageId);
+        if (!read) {
+          return prev;
+        }
+        return prev.map((message) =>
+          new Date(message.timestamp) <= new Date(read.timestamp)
+            ? { ...message, status: "read" }
+            : message
+        );
+      });
+    });
+
+    socket.on("threadUpdated", (update: ThreadUpdate) => {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message._id === update.messageId
+            ? {
+                ...message,
+                replyCount: update.replyCount,
+                lastReplyAt: update.lastReplyAt,
+              }
+            : message
+        )
+      );
+    });
+
+    socket.on("messageEdited", (edited: Message) => {
+      console.log("Message edited:", edited);
+      setMessages((prev) =>
+        prev.map((message) => (message._id === edited._id ? edited : message))
+      );
+    });
+
+    // Server-side changes such as link previews being added
+    socket.on("messageUpdated", (updated: Message) => {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message._id === updated._id
+            ? { ...updated, status: message.status }
+            : message
+        )
+      );
+    });
+
+    socket.on("messageDeleted", (deleted: Message) => {
+      console.log("Message deleted:", deleted);
+      setMessages((prev) =>
+        prev.filter((message) => message._id !== deleted._id)
+      );
+    });
+
+    socket.on("reactionUpdated", (update: ReactionUpdate) => {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message._id === update.messageId
+            ? {
+                ...message,
+                reactions: update.reactions,
+                reactionCounts: update.reactionCounts,
+              }
+            : message
+        )
+      );
     });
 
     socket.on("userJoined", (data) => {
@@ -98,6 +275,10 @@ export default function ChatPage() {
       console.log("User left:", data);
     });
 
+    socket.on("presenceChanged", (presence: Presence) => {
+      console.log("Presence changed:", presence);
+    });
+
     socket.on("onlineCount", (count) => {
       console.log("Online users:", count);
     });
@@ -106,31 +287,184 @@ export default function ChatPage() {
       console.error("Connection error:", error);
       setIsConnected(false);
       setIsJoined(false);
+
+      // The access token was rejected; sign in again
+      if (error.message === "Unauthorized") {
+        localStorage.removeItem("chatToken");
+        router.push("/");
+      }
     });
 
     socket.on("error", (error) => {
       console.error("Socket error:", error);
     });
 
+    socket.on(
+      "sanctioned",
+      (sanction: {
+        type: "kick" | "mute" | "ban";
+        reason: string | null;
+        expiresAt: string | null;
+      }) => {
+        console.warn("Sanctioned by a moderator:", sanction);
+      }
+    );
+
+    socket.on("notification", (notification: Notification) => {
+      setNotifications((prev) => [notification, ...prev]);
+      setUnreadNotifications((count) => count + 1);
+    });
+
+    // Read on this or another device
+    socket.on(
+      "notificationsRead",
+      (update: {
+        notificationIds: string[] | null;
+        unreadCounts: NotificationCounts;
+      }) => {
+        setUnreadNotifications(update.unreadCounts.total);
+        setNotifications((prev) =>
+          prev.map((notification) =>
+            !update.notificationIds ||
+            update.notificationIds.includes(notification._id)
+              ? { ...notification, readAt: notification.readAt ?? new Date() }
+              : notification
+          )
+        );
+      }
+    );
+
+    // Sent only to the mentioned users, wherever the message was posted
+    socket.on("mentioned", (message: Message) => {
+      console.log(`Mentioned by ${message.username}:`, message.text);
+    });
+
+    socket.on(
+      "rateLimited",
+      (error: { event: string; retryAfter: number; muted: boolean }) => {
+        console.warn("Rate limited:", error);
+      }
+    );
+
     // Cleanup on unmount
     return () => {
       if (socketRef.current && isJoined) {
-        socketRef.current.emit("leave", { userId: generatedUserId });
+        socketRef.current.emit("leave");
       }
       disconnectSocket();
     };
   }, [router]);
 
+  const handleLoadOlder = () => {
+    if (!socketRef.current || !historyCursor || isLoadingHistory) {
+      return;
+    }
+
+    setIsLoadingHistory(true);
+    socketRef.current.emit("loadHistory", {
+      before: historyCursor,
+      limit: 50,
+    });
+  };
+
+  const handleInputChange = (value: string) => {
+    setInputText(value);
+
+    const now = Date.now();
+    if (
+      socketRef.current &&
+      isJoined &&
+      now - lastActivityRef.current > ACTIVITY_PING_INTERVAL
+    ) {
+      lastActivityRef.current = now;
+      socketRef.current.emit("activity");
+    }
+  };
+
+  const handleMarkAllNotificationsRead = () => {
+    if (!socketRef.current || !isJoined) {
+      return;
+    }
+
+    socketRef.current.emit("markNotificationsRead", {});
+  };
+
+  const handleToggleReaction = (message: Message, emoji: string) => {
+    if (!socketRef.current || !isJoined) {
+      return;
+    }
+
+    const hasReacted = message.reactions?.[emoji]?.includes(userId);
+    socketRef.current.emit(hasReacted ? "removeReaction" : "addReaction", {
+      messageId: message._id,
+      emoji,
+    });
+  };
+
+  const handleFilesSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(
+      0,
+      MAX_ATTACHMENTS - pendingAttachments.length
+    );
+    e.target.value = "";
+
+    if (files.length === 0 || !token) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const attachment = await uploadAttachment(file, token);
+        setPendingAttachments((prev) => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error("Upload failed:", error);
+      alert(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemovePending = (attachmentId: string) => {
+    setPendingAttachments((prev) =>
+      prev.filter((attachment) => attachment.attachmentId !== attachmentId)
+    );
+  };
+
+  // Offer commands while the name after the slash is being typed
+  const commandSuggestions = /^\/\S*$/.test(inputText)
+    ? commands.filter((command) =>
+        [command.name, ...command.aliases].some((name) =>
+          name.startsWith(inputText.slice(1).toLowerCase())
+        )
+      )
+    : [];
+
+  const handleCompleteCommand = (command: CommandSummary) => {
+    setInputText(`/${command.name} `);
+  };
+
+  const canSend =
+    (!!inputText.trim() || pendingAttachments.length > 0) &&
+    !isUploading &&
+    isConnected &&
+    isJoined;
+
   const handleSendMessage = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    if (!inputText.trim() || !socketRef.current || !isConnected || !isJoined) {
+    if (!canSend || !socketRef.current) {
       return;
     }
 
-    const messagePayload = {
-      userId,
+    const messagePayload: SendMessagePayload = {
       text: inputText.trim(),
+      ...(pendingAttachments.length > 0 && {
+        attachmentIds: pendingAttachments.map(
+          (attachment) => attachment.attachmentId
+        ),
+      }),
     };
 
     // Emit message to server
@@ -138,6 +472,8 @@ export default function ChatPage() {
 
     // Clear input
     setInputText("");
+    setPendingAttachments([]);
+    setCommandReply(null);
   };
 
   const formatTime = (timestamp: Date | string) => {
@@ -216,23 +552,99 @@ export default function ChatPage() {
                 </div>
               </div>
             </div>
-            <button
-              onClick={() => {
-                if (socketRef.current && isJoined) {
-                  socketRef.current.emit("leave", { userId });
-                }
-                localStorage.removeItem("chatUsername");
-                router.push("/");
-              }}
-              className="text-sm text-gray-600 hover:text-gray-900 font-medium"
-            >
-              Leave
-            </button>
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setShowInbox((open) => !open)}
+                  className="relative text-xl"
+                  aria-label="Notifications"
+                >
+                  🔔
+                  {unreadNotifications > 0 && (
+                    <span className="absolute -top-1 -right-2 bg-red-500 text-white text-xs font-semibold rounded-full px-1.5">
+                      {unreadNotifications}
+                    </span>
+                  )}
+                </button>
+                {showInbox && (
+                  <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+                      <span className="text-sm font-semibold text-gray-900">
+                        Notifications
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleMarkAllNotificationsRead}
+                        disabled={unreadNotifications === 0}
+                        className="text-xs text-blue-500 hover:underline disabled:text-gray-400"
+                      >
+                        Mark all read
+                      </button>
+                    </div>
+                    {notifications.length === 0 ? (
+                      <p className="px-4 py-6 text-sm text-gray-500 text-center">
+                        Nothing new
+                      </p>
+                    ) : (
+                      notifications.map((notification) => (
+                        <div
+                          key={notification._id}
+                          className={`px-4 py-2 border-b border-gray-50 text-sm ${
+                            notification.readAt
+                              ? "text-gray-500"
+                              : "text-gray-900 bg-blue-50"
+                          }`}
+                        >
+                          <p>{notification.text}</p>
+                          {typeof notification.data?.excerpt === "string" && (
+                            <p className="text-xs text-gray-500 truncate">
+                              {notification.data.excerpt}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-400">
+                            {formatTime(notification.createdAt)}
+                          </p>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => {
+                  if (socketRef.current && isJoined) {
+                    socketRef.current.emit("leave");
+                  }
+                  const token = localStorage.getItem("chatToken");
+                  if (token) {
+                    logout(token).catch((error) =>
+                      console.error("Logout failed:", error)
+                    );
+                  }
+                  localStorage.removeItem("chatUsername");
+                  localStorage.removeItem("chatUserId");
+                  localStorage.removeItem("chatToken");
+                  router.push("/");
+                }}
+                className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+              >
+                Leave
+              </button>
+            </div>
           </div>
         </header>
 
         {/* Messages Container */}
-        <main className="flex-1 overflow-y-auto px-8 py-6">
+        <main
+          className="flex-1 overflow-y-auto px-8 py-6"
+          onScroll={(e) => {
+            // Scrolling to the top pulls in the previous page
+            if (e.currentTarget.scrollTop === 0 && hasMoreHistory) {
+              handleLoadOlder();
+            }
+          }}
+        >
           {messages.length === 0 ? (
             <div className="text-center text-gray-400 mt-20">
               <div className="inline-flex items-center justify-center w-20 h-20 bg-blue-100 rounded-full mb-4">
@@ -259,8 +671,21 @@ export default function ChatPage() {
             </div>
           ) : (
             <div className="space-y-4">
+              {hasMoreHistory && (
+                <div className="text-center">
+                  <button
+                    type="button"
+                    onClick={handleLoadOlder}
+                    disabled={isLoadingHistory}
+                    className="text-sm text-blue-500 hover:underline disabled:text-gray-400"
+                  >
+                    {isLoadingHistory ? "Loading..." : "Load older messages"}
+                  </button>
+                </div>
+              )}
               {messages.map((message, index) => {
-                const isOwnMessage = message.userId === userId;
+                const isOwnMessage = getAuthorId(message) === userId;
+                const mentionsMe = !!message.mentions?.includes(userId);
 
                 return (
                   <div
@@ -273,16 +698,139 @@ export default function ChatPage() {
                       {!isOwnMessage && (
                         <p className="text-xs font-semibold text-gray-700 mb-1 px-1">
                           {message.username}
+                          {message.customUserId?.startsWith("webhook_") && (
+                            <span className="ml-1 rounded bg-gray-200 px-1 text-[10px] font-bold text-gray-600">
+                              BOT
+                            </span>
+                          )}
                         </p>
                       )}
                       <div
                         className={`rounded-2xl px-4 py-3 ${
                           isOwnMessage
                             ? "bg-blue-500 text-white rounded-tr-sm"
+                            : mentionsMe
+                            ? "bg-amber-50 text-gray-900 rounded-tl-sm ring-2 ring-amber-300"
                             : "bg-gray-100 text-gray-900 rounded-tl-sm"
                         }`}
                       >
-                        <p className="break-words">{message.text}</p>
+                        {message.text && (
+                          <p className="break-words">{message.text}</p>
+                        )}
+                        {!!message.attachments?.length && (
+                          <div
+                            className={`flex flex-wrap gap-2 ${
+                              message.text ? "mt-2" : ""
+                            }`}
+                          >
+                            {message.attachments.map((attachment) =>
+                              attachment.thumbnailUrl ? (
+                                <a
+                                  key={attachment.attachmentId}
+                                  href={attachmentUrl(attachment.url, token)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                                  <img
+                                    src={attachmentUrl(
+                                      attachment.thumbnailUrl,
+                                      token
+                                    )}
+                                    alt={attachment.filename}
+                                    className="max-h-40 rounded-lg"
+                                  />
+                                </a>
+                              ) : (
+                                <a
+                                  key={attachment.attachmentId}
+                                  href={attachmentUrl(attachment.url, token)}
+                                  className={`text-xs rounded-full px-3 py-1 border truncate max-w-full ${
+                                    isOwnMessage
+                                      ? "border-blue-300 hover:bg-blue-400"
+                                      : "border-gray-300 bg-white hover:bg-gray-50"
+                                  }`}
+                                >
+                                  📄 {attachment.filename} ·{" "}
+                                  {formatSize(attachment.size)}
+                                </a>
+                              )
+                            )}
+                          </div>
+                        )}
+                        {message.linkPreviews?.map((preview) => (
+                          <a
+                            key={preview.url}
+                            href={preview.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={`block mt-2 rounded-lg overflow-hidden border ${
+                              isOwnMessage
+                                ? "border-blue-300 bg-blue-400"
+                                : "border-gray-200 bg-white"
+                            }`}
+                          >
+                            {preview.imageUrl && (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                src={preview.imageUrl}
+                                alt=""
+                                className="w-full max-h-32 object-cover"
+                              />
+                            )}
+                            <div className="px-3 py-2">
+                              {preview.siteName && (
+                                <p className="text-xs opacity-75">
+                                  {preview.siteName}
+                                </p>
+                              )}
+                              <p className="text-sm font-semibold break-words">
+                                {preview.title}
+                              </p>
+                              {preview.description && (
+                                <p className="text-xs opacity-90 break-words">
+                                  {preview.description}
+                                </p>
+                              )}
+                            </div>
+                          </a>
+                        ))}
+                      </div>
+                      <div
+                        className={`flex flex-wrap gap-1 mt-1 px-1 ${
+                          isOwnMessage ? "justify-end" : "justify-start"
+                        }`}
+                      >
+                        {Array.from(
+                          new Set([
+                            ...QUICK_REACTIONS,
+                            ...Object.keys(message.reactionCounts ?? {}),
+                          ])
+                        ).map((emoji) => {
+                          const count = message.reactionCounts?.[emoji] ?? 0;
+                          const hasReacted =
+                            message.reactions?.[emoji]?.includes(userId);
+
+                          return (
+                            <button
+                              key={emoji}
+                              type="button"
+                              onClick={() =>
+                                handleToggleReaction(message, emoji)
+                              }
+                              className={`text-xs rounded-full px-2 py-0.5 border transition ${
+                                hasReacted
+                                  ? "bg-blue-50 border-blue-300"
+                                  : count > 0
+                                  ? "bg-white border-gray-200"
+                                  : "bg-white border-transparent opacity-40 hover:opacity-100"
+                              }`}
+                            >
+                              {emoji}
+                              {count > 0 && ` ${count}`}
+                            </button>
+                          );
+                        })}
                       </div>
                       <p
                         className={`text-xs text-gray-500 mt-1 px-1 ${
@@ -290,6 +838,12 @@ export default function ChatPage() {
                         }`}
                       >
                         {formatTime(message.timestamp)}
+                        {message.editedAt && " · edited"}
+                        {isOwnMessage && message.status === "read" && " · read"}
+                        {!!message.replyCount &&
+                          ` · ${message.replyCount} ${
+                            message.replyCount === 1 ? "reply" : "replies"
+                          }`}
                       </p>
                     </div>
                   </div>
@@ -302,21 +856,114 @@ export default function ChatPage() {
 
         {/* Input Form */}
         <div className="px-8 py-6 border-t border-gray-200">
+          {pendingAttachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {pendingAttachments.map((attachment) => (
+                <span
+                  key={attachment.attachmentId}
+                  className="text-xs rounded-full px-3 py-1 bg-gray-100 text-gray-700 flex items-center gap-2"
+                >
+                  {attachment.thumbnailUrl ? "🖼️" : "📄"} {attachment.filename}{" "}
+                  · {formatSize(attachment.size)}
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePending(attachment.attachmentId)}
+                    className="text-gray-400 hover:text-gray-700"
+                    aria-label={`Remove ${attachment.filename}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          {commandReply && (
+            <div
+              className={`flex items-start justify-between gap-2 mb-3 rounded-lg px-4 py-2 text-sm ${
+                commandReply.error
+                  ? "bg-red-50 text-red-700"
+                  : "bg-gray-50 text-gray-700"
+              }`}
+            >
+              <p className="whitespace-pre-wrap break-words">
+                {commandReply.text}
+              </p>
+              <button
+                type="button"
+                onClick={() => setCommandReply(null)}
+                className="text-gray-400 hover:text-gray-700"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          {commandSuggestions.length > 0 && (
+            <ul className="mb-3 border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {commandSuggestions.map((command) => (
+                <li key={command.name}>
+                  <button
+                    type="button"
+                    onClick={() => handleCompleteCommand(command)}
+                    className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+                  >
+                    <span className="font-semibold text-gray-900">
+                      /{command.name}
+                    </span>
+                    {command.usage && (
+                      <span className="text-gray-500"> {command.usage}</span>
+                    )}
+                    <span className="text-gray-500">
+                      {" "}
+                      · {command.description}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
           <form
             onSubmit={handleSendMessage}
             className="flex items-center space-x-3"
           >
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                !isJoined ||
+                isUploading ||
+                pendingAttachments.length >= MAX_ATTACHMENTS
+              }
+              className="text-xl px-2 disabled:opacity-40"
+              aria-label="Attach files"
+            >
+              {isUploading ? "⏳" : "📎"}
+            </button>
             <input
               type="text"
               value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
+              onKeyDown={(e) => {
+                // Tab completes the first suggested command
+                if (e.key === "Tab" && commandSuggestions.length > 0) {
+                  e.preventDefault();
+                  handleCompleteCommand(commandSuggestions[0]);
+                }
+              }}
               placeholder={isJoined ? "Type a message..." : "Connecting..."}
               className="flex-1 px-4 py-3 border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-gray-900"
               disabled={!isConnected || !isJoined}
             />
             <button
               type="submit"
-              disabled={!inputText.trim() || !isConnected || !isJoined}
+              disabled={!canSend}
               className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-semibold px-8 py-3 rounded-full transition duration-200 disabled:cursor-not-allowed"
             >
               Send
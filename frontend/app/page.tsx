@@ -2,17 +2,34 @@
 
 import { useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
+import { login, register } from "@/lib/api";
 
 export default function Home() {
   const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [error, setError] = useState("");
   const router = useRouter();
 
-  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    if (username.trim()) {
-      localStorage.setItem("chatUsername", username.trim());
+    if (!username.trim() || !password) {
+      return;
+    }
+
+    try {
+      const authenticate = mode === "login" ? login : register;
+      const { accessToken, user } = await authenticate(
+        username.trim(),
+        password
+      );
+      localStorage.setItem("chatToken", accessToken);
+      localStorage.setItem("chatUserId", user._id);
+      localStorage.setItem("chatUsername", user.username);
       router.push("/chat");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
     }
   };
 
@@ -66,7 +83,9 @@ export default function Home() {
               Get Started
             </h2>
             <p className="text-gray-600">
-              Enter your username to join the conversation
+              {mode === "login"
+                ? "Sign in to join the conversation"
+                : "Create an account to join the conversation"}
             </p>
           </div>
 
@@ -86,19 +105,54 @@ export default function Home() {
                 placeholder="Enter your username..."
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-gray-900"
                 required
-                minLength={2}
-                maxLength={20}
+                minLength={3}
+                maxLength={30}
               />
             </div>
 
+            <div>
+              <label
+                htmlFor="password"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter your password..."
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-gray-900"
+                required
+                minLength={mode === "register" ? 8 : undefined}
+                maxLength={128}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
             <button
               type="submit"
               className="w-full bg-blue-500 hover:bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200"
             >
-              Start chatting
+              {mode === "login" ? "Sign in" : "Create account"}
             </button>
           </form>
 
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === "login" ? "register" : "login");
+              setError("");
+            }}
+            className="mt-4 w-full text-sm text-blue-600 hover:text-blue-700"
+          >
+            {mode === "login"
+              ? "New here? Create an account"
+              : "Already have an account? Sign in"}
+          </button>
+
           <div className="mt-8 text-center text-sm text-gray-500">
             <p>Built with Next.js & Socket.IO</p>
           </div>
@@ -0,0 +1,87 @@
+import { AuthResponse, MessageAttachment } from "@/types/chat";
+
+// NestJS backend (default port 3000)
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+
+const postJson = async (path: string, payload: unknown, token?: string) => {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(
+      Array.isArray(body.message) ? body.message[0] : body.message
+    );
+  }
+
+  return body;
+};
+
+/**
+ * Create an account and receive an access token
+ */
+export const register = async (
+  username: string,
+  password: string
+): Promise<AuthResponse> => {
+  const body = await postJson("/auth/register", { username, password });
+  return body.data as AuthResponse;
+};
+
+/**
+ * Sign in and receive an access token
+ */
+export const login = async (
+  username: string,
+  password: string
+): Promise<AuthResponse> => {
+  const body = await postJson("/auth/login", { username, password });
+  return body.data as AuthResponse;
+};
+
+/**
+ * Revoke the access token
+ */
+export const logout = async (token: string): Promise<void> => {
+  await postJson("/auth/logout", {}, token);
+};
+
+/**
+ * Upload a file to send with the next message
+ */
+export const uploadAttachment = async (
+  file: File,
+  token: string
+): Promise<MessageAttachment> => {
+  const form = new FormData();
+  form.append("file", file);
+
+  const response = await fetch(`${API_URL}/attachments`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: form,
+  });
+
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(
+      Array.isArray(body.message) ? body.message[0] : body.message
+    );
+  }
+
+  return body.data as MessageAttachment;
+};
+
+/**
+ * Turn an attachment path into a URL usable as a link or image source
+ */
+export const attachmentUrl = (path: string, token: string): string =>
+  `${API_URL}${path}?token=${encodeURIComponent(token)}`;
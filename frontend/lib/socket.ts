@@ -1,13 +1,13 @@
 import { io, Socket } from "socket.io-client";
+import { API_URL } from "@/lib/api";
 
 let socket: Socket | null = null;
 
-export const initSocket = (): Socket => {
+export const initSocket = (token: string): Socket => {
   if (!socket) {
-    // Connect to your NestJS backend (default port 3000)
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
-
-    socket = io(apiUrl, {
+    // Connect to your NestJS backend, authenticating with the access token
+    socket = io(API_URL, {
+      auth: { token },
       autoConnect: false,
       reconnection: true,
       reconnectionAttempts: 5,
@@ -32,6 +32,13 @@ export const initSocket = (): Socket => {
   return socket;
 };
 
+// Use a new access token the next time the socket reconnects
+export const setSocketToken = (token: string): void => {
+  if (socket) {
+    socket.auth = { token };
+  }
+};
+
 export const getSocket = (): Socket | null => {
   return socket;
 };
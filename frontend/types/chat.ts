@@ -1,20 +1,109 @@
+export interface MessageAuthor {
+  _id: string;
+  username: string;
+  status?: string;
+}
+
+export interface MessageAttachment {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  width?: number | null;
+  height?: number | null;
+  // Server paths; downloads need the access token (?token=)
+  url: string;
+  thumbnailUrl?: string | null;
+}
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description?: string | null;
+  siteName?: string | null;
+  imageUrl?: string | null;
+}
+
 export interface Message {
   _id: string;
-  userId: string;
+  // Populated with the author when loaded from the server
+  userId: string | MessageAuthor | null;
   username: string;
+  // "webhook_<id>" on messages posted through an incoming webhook
+  customUserId?: string | null;
   text: string;
+  attachments?: MessageAttachment[];
+  // IDs of the users mentioned with @username, @here or @everyone
+  mentions?: string[];
+  // Unfurled links, delivered later through "messageUpdated"
+  linkPreviews?: LinkPreview[];
+  roomId?: string | null;
+  editedAt?: Date | null;
+  // Set on thread replies; the parent carries the reply summary
+  parentId?: string | null;
+  replyCount?: number;
+  lastReplyAt?: Date | null;
+  // Emoji -> IDs of the users who reacted with it
+  reactions?: Record<string, string[]>;
+  // Emoji -> number of users who reacted with it
+  reactionCounts?: Record<string, number>;
+  // Delivery state of the user's own messages, tracked client-side
+  status?: DeliveryStatus;
   timestamp: Date;
   createdAt: Date;
 }
 
+export type DeliveryStatus = "sent" | "delivered" | "read";
+
 export interface SendMessagePayload {
-  userId: string;
   text: string;
+  roomId?: string;
+  // Uploaded with uploadAttachment()
+  attachmentIds?: string[];
+}
+
+export interface ReactionUpdate {
+  messageId: string;
+  reactions: Record<string, string[]>;
+  reactionCounts: Record<string, number>;
+}
+
+export interface ThreadUpdate {
+  messageId: string;
+  replyCount: number;
+  lastReplyAt: Date | null;
 }
 
-export interface JoinPayload {
+export interface ReadReceipt {
+  messageId: string;
+  scope: string;
+  readerId: string;
+  readAt: Date;
+}
+
+export interface HistoryPage {
+  success: boolean;
+  roomId: string | null;
+  before: string | null;
+  after: string | null;
+  // Newest first
+  data: Message[];
+  count: number;
+  // Opaque cursors of the oldest ("before") and newest ("after") message
+  cursors: { before: string | null; after: string | null };
+  hasMore: boolean;
+}
+
+export type UserStatus = "online" | "away" | "busy" | "invisible" | "offline";
+
+export interface Presence {
   userId: string;
   username: string;
+  // Others see invisible users as "offline"
+  status: UserStatus;
+  statusText: string | null;
+  statusExpiresAt: string | null;
+  lastSeenAt: string | null;
 }
 
 export interface UserInfo {
@@ -23,9 +112,64 @@ export interface UserInfo {
   _id?: string;
 }
 
+export interface AuthResponse {
+  accessToken: string;
+  user: {
+    _id: string;
+    username: string;
+  };
+}
+
 export interface SocketResponse {
   success: boolean;
   message?: string;
   data?: any;
   error?: string;
+  // Set on replies to sendMessage, sendDirectMessage and markRead
+  status?: DeliveryStatus;
+}
+
+/**
+ * Get the author's user ID whether or not the message was populated
+ */
+export const getAuthorId = (message: Message): string | undefined =>
+  typeof message.userId === "string"
+    ? message.userId
+    : message.userId?._id;
+
+// A slash command offered for autocomplete
+export interface CommandSummary {
+  name: string;
+  aliases: string[];
+  usage: string;
+  description: string;
+}
+
+// Shown only to the user who ran the command
+export interface CommandReply {
+  command: string;
+  text: string;
+  data?: Record<string, unknown>;
+  error?: boolean;
+}
+
+export type NotificationType = "mention" | "reply" | "moderation" | "system";
+
+// An entry of the persistent notification inbox
+export interface Notification {
+  _id: string;
+  type: NotificationType;
+  text: string;
+  actorId?: string | null;
+  actorName?: string | null;
+  messageId?: string | null;
+  roomId?: string | null;
+  data?: Record<string, unknown> | null;
+  readAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface NotificationCounts {
+  total: number;
+  byType: Partial<Record<NotificationType, number>>;
 }
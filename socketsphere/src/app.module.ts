@@ -5,8 +5,14 @@ import { AppService } from './app.service';
 import { DatabaseModule } from './database/database.module';
 import { UserModule } from './user/user.module';
 import { MessageModule } from './message/message.module';
+import { RoomModule } from './room/room.module';
+import { ConversationModule } from './conversation/conversation.module';
 import { ChatModule } from './chat/chat.module';
+import { IncomingWebhookModule } from './incoming-webhook/incoming-webhook.module';
 import { RedisModule } from './redis/redis.module';
+import { AuthModule } from './auth/auth.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
 
 @Module({
   imports: [
@@ -16,14 +22,20 @@ import { RedisModule } from './redis/redis.module';
       envFilePath: '.env',
     }),
 
-    // Redis module (global)
+    // Redis, realtime and rate limit modules (global)
     RedisModule,
+    RealtimeModule,
+    RateLimitModule,
 
     // Database and other modules
     DatabaseModule,
+    AuthModule,
     UserModule,
     MessageModule,
+    RoomModule,
+    ConversationModule,
     ChatModule,
+    IncomingWebhookModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,103 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { AttachmentService } from './attachment.service';
+import { DownloadAuthGuard } from './guards/download-auth.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+// Types the browser may display inline; everything else is downloaded
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+@Controller('attachments')
+export class AttachmentController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  /**
+   * POST /attachments
+   * Upload a file (multipart field "file") to send with a message
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('message:send')
+  @UseInterceptors(FileInterceptor('file'))
+  @HttpCode(HttpStatus.CREATED)
+  async upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentUser() user: AuthUser,
+  ) {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const attachment = await this.attachmentService.upload(file, user.userId);
+    return {
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        _id: attachment._id,
+        ...this.attachmentService.toMessageAttachment(attachment),
+      },
+    };
+  }
+
+  /**
+   * GET /attachments/:id
+   * Download an attachment (bearer header or ?token=)
+   */
+  @Get(':id')
+  @UseGuards(DownloadAuthGuard)
+  async download(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const attachment = await this.attachmentService.findById(id);
+    await this.attachmentService.assertCanAccess(attachment, user.userId);
+
+    const inline = INLINE_TYPES.includes(attachment.mimeType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return new StreamableFile(await this.attachmentService.open(attachment), {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    });
+  }
+
+  /**
+   * GET /attachments/:id/thumbnail
+   * Download an image attachment's thumbnail (bearer header or ?token=)
+   */
+  @Get(':id/thumbnail')
+  @UseGuards(DownloadAuthGuard)
+  async thumbnail(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const attachment = await this.attachmentService.findById(id);
+    await this.attachmentService.assertCanAccess(attachment, user.userId);
+
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return new StreamableFile(
+      await this.attachmentService.open(attachment, true),
+      { type: 'image/webp', disposition: 'inline' },
+    );
+  }
+}
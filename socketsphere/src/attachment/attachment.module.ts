@@ -0,0 +1,54 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
+import { Attachment, AttachmentSchema } from './schemas/attachment.schema';
+import {
+  AttachmentService,
+  DEFAULT_ATTACHMENT_MAX_SIZE,
+} from './attachment.service';
+import { AttachmentController } from './attachment.controller';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import { createStorageDriver } from '../config/storage.config';
+import { UserModule } from '../user/user.module';
+import { RoomModule } from '../room/room.module';
+import { SanctionModule } from '../sanction/sanction.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Attachment.name, schema: AttachmentSchema },
+    ]),
+    // Uploads are buffered in memory (no `dest`) so thumbnails can be made
+    // before storing them; larger files are rejected with 413
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: Number(
+            configService.get(
+              'ATTACHMENT_MAX_SIZE',
+              DEFAULT_ATTACHMENT_MAX_SIZE,
+            ),
+          ),
+        },
+      }),
+    }),
+    UserModule,
+    RoomModule,
+    SanctionModule,
+  ],
+  controllers: [AttachmentController],
+  providers: [
+    AttachmentService,
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+  ],
+  // MulterModule carries the upload size limit to other upload routes
+  exports: [AttachmentService, MulterModule],
+})
+export class AttachmentModule {}
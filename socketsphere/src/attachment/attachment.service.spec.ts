@@ -0,0 +1,239 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import sharp from 'sharp';
+import { AttachmentService } from './attachment.service';
+import { Attachment, AttachmentDocument } from './schemas/attachment.schema';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import { RoomService } from '../room/room.service';
+import { SanctionService } from '../sanction/sanction.service';
+
+describe('AttachmentService', () => {
+  let attachmentService: AttachmentService;
+  let stored: Map<string, Buffer>;
+  const attachmentModel = {
+    create: jest.fn((doc: Record<string, unknown>) => Promise.resolve(doc)),
+    find: jest.fn(),
+    findOneAndDelete: jest.fn(),
+  };
+  const storage = {
+    put: jest.fn((key: string, data: Buffer) => {
+      stored.set(key, data);
+      return Promise.resolve();
+    }),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+  const roomService = {
+    findById: jest.fn(),
+    canAccess: jest.fn(),
+  };
+  const sanctionService = {
+    assertNotMuted: jest.fn(),
+  };
+
+  const attachment = (fields: Partial<Attachment>) =>
+    ({
+      uploadedBy: 'alice',
+      messageId: null,
+      roomId: null,
+      participants: [],
+      ...fields,
+    }) as unknown as AttachmentDocument;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = new Map();
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentService,
+        { provide: getModelToken(Attachment.name), useValue: attachmentModel },
+        { provide: STORAGE_DRIVER, useValue: storage },
+        { provide: RoomService, useValue: roomService },
+        { provide: SanctionService, useValue: sanctionService },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+
+    attachmentService = app.get<AttachmentService>(AttachmentService);
+  });
+
+  describe('upload', () => {
+    it('should store an image with a thumbnail and its dimensions', async () => {
+      const buffer = await sharp({
+        create: {
+          width: 800,
+          height: 400,
+          channels: 3,
+          background: '#3366ff',
+        },
+      })
+        .png()
+        .toBuffer();
+
+      const result = await attachmentService.upload(
+        {
+          originalname: 'Photo.PNG',
+          mimetype: 'image/png',
+          size: buffer.length,
+          buffer,
+        },
+        'alice',
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ width: 800, height: 400 }),
+      );
+      expect(result.storageKey).toMatch(/^alice\/.+\.png$/);
+      const thumbnail = await sharp(
+        stored.get(result.thumbnailKey!),
+      ).metadata();
+      expect(thumbnail).toEqual(
+        expect.objectContaining({ format: 'webp', width: 320, height: 160 }),
+      );
+    });
+
+    it('should not store uploads of a muted user', async () => {
+      sanctionService.assertNotMuted.mockRejectedValueOnce(
+        new ForbiddenException('You are muted'),
+      );
+
+      await expect(
+        attachmentService.upload(
+          {
+            originalname: 'notes.txt',
+            mimetype: 'text/plain',
+            size: 2,
+            buffer: Buffer.from('hi'),
+          },
+          'alice',
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject types that are not allowed', async () => {
+      await expect(
+        attachmentService.upload(
+          {
+            originalname: 'run.sh',
+            mimetype: 'application/x-sh',
+            size: 2,
+            buffer: Buffer.from('ls'),
+          },
+          'alice',
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      await expect(
+        attachmentService.upload(
+          {
+            originalname: 'fake.png',
+            mimetype: 'image/png',
+            size: 4,
+            buffer: Buffer.from('nope'),
+          },
+          'alice',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findClaimable', () => {
+    it('should reject attachments that were sent or belong to others', async () => {
+      const ids = [String(new Types.ObjectId()), String(new Types.ObjectId())];
+      attachmentModel.find.mockReturnValue({
+        exec: () => Promise.resolve([{ _id: ids[0] }]),
+      });
+
+      await expect(
+        attachmentService.findClaimable(ids, 'alice'),
+      ).rejects.toThrow(BadRequestException);
+      expect(attachmentModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({ uploadedBy: 'alice', messageId: null }),
+      );
+    });
+  });
+
+  describe('assertCanAccess', () => {
+    it('should only let the uploader see an unsent attachment', async () => {
+      await expect(
+        attachmentService.assertCanAccess(attachment({}), 'alice'),
+      ).resolves.toBeUndefined();
+      await expect(
+        attachmentService.assertCanAccess(attachment({}), 'bob'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should limit direct message attachments to the participants', async () => {
+      const sent = attachment({
+        messageId: new Types.ObjectId(),
+        participants: ['alice', 'bob'],
+      });
+
+      await expect(
+        attachmentService.assertCanAccess(sent, 'bob'),
+      ).resolves.toBeUndefined();
+      await expect(
+        attachmentService.assertCanAccess(sent, 'carol'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should follow room access for room attachments', async () => {
+      roomService.findById.mockResolvedValue({});
+      roomService.canAccess.mockReturnValue(false);
+
+      await expect(
+        attachmentService.assertCanAccess(
+          attachment({
+            messageId: new Types.ObjectId(),
+            roomId: new Types.ObjectId(),
+          }),
+          'bob',
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('pruneUnsent', () => {
+    it('should delete old unsent uploads along with their files', async () => {
+      const photo = attachment({
+        storageKey: 'alice/1/photo.png',
+        thumbnailKey: 'alice/1/photo.png.thumb.webp',
+      });
+      const claimed = attachment({ storageKey: 'alice/2/notes.txt' });
+      attachmentModel.find.mockReturnValue({
+        limit: () => ({ exec: () => Promise.resolve([photo, claimed]) }),
+      });
+      // The second one was sent with a message after the find
+      attachmentModel.findOneAndDelete
+        .mockReturnValueOnce({ exec: () => Promise.resolve(photo) })
+        .mockReturnValueOnce({ exec: () => Promise.resolve(null) });
+      storage.delete.mockResolvedValue(undefined);
+
+      await expect(attachmentService.pruneUnsent()).resolves.toBe(1);
+
+      const [[filter]] = attachmentModel.find.mock.calls as unknown as [
+        [{ messageId: null; createdAt: { $lt: Date } }],
+      ];
+      expect(filter.messageId).toBeNull();
+      expect(
+        Date.now() - filter.createdAt.$lt.getTime(),
+      ).toBeGreaterThanOrEqual(24 * 3600 * 1000);
+      expect(storage.delete.mock.calls).toEqual([
+        ['alice/1/photo.png'],
+        ['alice/1/photo.png.thumb.webp'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import {
+  Attachment,
+  AttachmentDocument,
+  MessageAttachment,
+} from './schemas/attachment.schema';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import type { StorageDriver } from './storage/storage-driver.interface';
+import { RoomService } from '../room/room.service';
+import { SanctionService } from '../sanction/sanction.service';
+
+// Default upload limits (override with ATTACHMENT_MAX_SIZE and
+// ATTACHMENT_ALLOWED_TYPES)
+export const DEFAULT_ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'text/plain',
+  'text/csv',
+  'application/pdf',
+  'application/json',
+  'application/zip',
+];
+
+// Attachments allowed on a single message
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Unsent attachments deleted per sweep (the next sweep picks up the rest)
+const PRUNE_BATCH_SIZE = 500;
+
+// Thumbnails fit inside this square
+const THUMBNAIL_SIZE = 320;
+
+// Types that get a thumbnail (SVG is excluded as it can carry scripts)
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Attachment Service - Uploaded files and their thumbnails
+ *
+ * Files are uploaded first and claimed by the message they are sent with.
+ * Uploads never sent within ATTACHMENT_UNSENT_TTL hours are deleted, files
+ * included, by a sweep every ATTACHMENT_PRUNE_INTERVAL seconds.
+ */
+@Injectable()
+export class AttachmentService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AttachmentService.name);
+  private readonly allowedTypes: string[];
+  private readonly unsentTtlHours: number;
+  private readonly pruneInterval: number;
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(Attachment.name)
+    private attachmentModel: Model<AttachmentDocument>,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly roomService: RoomService,
+    private readonly sanctionService: SanctionService,
+    configService: ConfigService,
+  ) {
+    const types = configService.get<string>('ATTACHMENT_ALLOWED_TYPES');
+    this.allowedTypes = types
+      ? types.split(',').map((type) => type.trim().toLowerCase())
+      : DEFAULT_ATTACHMENT_TYPES;
+    this.unsentTtlHours = Number(
+      configService.get('ATTACHMENT_UNSENT_TTL', 24),
+    );
+    this.pruneInterval = Number(
+      configService.get('ATTACHMENT_PRUNE_INTERVAL', 3600),
+    );
+  }
+
+  onModuleInit() {
+    this.pruneTimer = setInterval(() => {
+      void this.pruneUnsent();
+    }, this.pruneInterval * 1000);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.pruneTimer);
+  }
+
+  /**
+   * Store an uploaded file (and a thumbnail for images)
+   * @param file - File received by the upload endpoint
+   * @param userId - Uploader's user ID
+   * @returns Attachment document, not yet linked to a message
+   * @throws UnsupportedMediaTypeException if the file type is not allowed
+   * @throws BadRequestException if an image cannot be decoded
+   * @throws ForbiddenException if the uploader is muted
+   */
+  async upload(
+    file: UploadedFile,
+    userId: string,
+  ): Promise<AttachmentDocument> {
+    await this.sanctionService.assertNotMuted(userId);
+
+    const mimeType = file.mimetype.toLowerCase();
+    if (!this.allowedTypes.includes(mimeType)) {
+      throw new UnsupportedMediaTypeException(
+        `Files of type ${mimeType} are not allowed`,
+      );
+    }
+
+    const id = new Types.ObjectId();
+    const storageKey = `${userId}/${String(id)}/${randomUUID()}${extname(file.originalname).toLowerCase()}`;
+
+    let image: { thumbnail: Buffer; width: number; height: number } | null =
+      null;
+    if (THUMBNAIL_TYPES.includes(mimeType)) {
+      image = await this.createThumbnail(file.buffer);
+    }
+
+    await this.storage.put(storageKey, file.buffer, mimeType);
+
+    let thumbnailKey: string | null = null;
+    if (image) {
+      thumbnailKey = `${storageKey}.thumb.webp`;
+      await this.storage.put(thumbnailKey, image.thumbnail, 'image/webp');
+    }
+
+    const attachment = await this.attachmentModel.create({
+      _id: id,
+      uploadedBy: userId,
+      filename: file.originalname,
+      mimeType,
+      size: file.size,
+      storageKey,
+      thumbnailKey,
+      width: image?.width ?? null,
+      height: image?.height ?? null,
+    });
+
+    this.logger.log(`📎 ${userId} uploaded ${file.originalname}`);
+    return attachment;
+  }
+
+  /**
+   * Find attachment by ID
+   * @param id - Attachment's MongoDB ObjectId
+   * @returns Attachment document
+   * @throws NotFoundException if attachment not found
+   */
+  async findById(id: string): Promise<AttachmentDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid attachment ID format');
+    }
+
+    const attachment = await this.attachmentModel.findById(id).exec();
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Check that a user may download an attachment: the uploader always can,
+   * anyone else only once it is sent and they can see the message
+   * @param attachment - Attachment document
+   * @param userId - User ID to check
+   * @throws ForbiddenException if the user may not download it
+   */
+  async assertCanAccess(
+    attachment: AttachmentDocument,
+    userId: string,
+  ): Promise<void> {
+    if (attachment.uploadedBy === userId) {
+      return;
+    }
+
+    if (attachment.messageId) {
+      if (attachment.participants.length > 0) {
+        if (attachment.participants.includes(userId)) {
+          return;
+        }
+      } else if (!attachment.roomId) {
+        // Lobby messages are visible to everyone
+        return;
+      } else {
+        const room = await this.roomService.findById(String(attachment.roomId));
+        if (this.roomService.canAccess(room, userId)) {
+          return;
+        }
+      }
+    }
+
+    throw new ForbiddenException('You cannot access this attachment');
+  }
+
+  /**
+   * Open an attachment (or its thumbnail) for reading
+   * @param attachment - Attachment document
+   * @param thumbnail - Whether to open the thumbnail
+   * @returns Readable stream of the file
+   * @throws NotFoundException if the attachment has no thumbnail
+   */
+  async open(
+    attachment: AttachmentDocument,
+    thumbnail: boolean = false,
+  ): Promise<Readable> {
+    if (thumbnail && !attachment.thumbnailKey) {
+      throw new NotFoundException('This attachment has no thumbnail');
+    }
+
+    return await this.storage.get(
+      thumbnail && attachment.thumbnailKey
+        ? attachment.thumbnailKey
+        : attachment.storageKey,
+    );
+  }
+
+  /**
+   * Find attachments a user is about to send with a message
+   * @param ids - Attachment IDs
+   * @param userId - Sender's user ID
+   * @returns Attachment documents in the given order
+   * @throws BadRequestException if any attachment is unknown, belongs to
+   * someone else or was already sent
+   */
+  async findClaimable(
+    ids: string[],
+    userId: string,
+  ): Promise<AttachmentDocument[]> {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new BadRequestException(
+        `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+      );
+    }
+    if (!uniqueIds.every((id) => Types.ObjectId.isValid(id))) {
+      throw new BadRequestException('Invalid attachment ID format');
+    }
+
+    const attachments = await this.attachmentModel
+      .find({ _id: { $in: uniqueIds }, uploadedBy: userId, messageId: null })
+      .exec();
+
+    if (attachments.length !== uniqueIds.length) {
+      throw new BadRequestException(
+        'Attachments must be your own uploads that have not been sent yet',
+      );
+    }
+
+    return uniqueIds.map(
+      (id) => attachments.find((attachment) => String(attachment._id) === id)!,
+    );
+  }
+
+  /**
+   * Link attachments to the message they were sent with
+   * @param ids - Attachment IDs
+   * @param messageId - Message's MongoDB ObjectId
+   * @param scope - Room (null for the lobby) or direct message participants
+   */
+  async markAttached(
+    ids: string[],
+    messageId: string,
+    scope: { roomId?: Types.ObjectId | null; participants?: string[] },
+  ): Promise<void> {
+    await this.attachmentModel
+      .updateMany(
+        { _id: { $in: ids }, messageId: null },
+        {
+          $set: {
+            messageId: new Types.ObjectId(messageId),
+            roomId: scope.roomId ?? null,
+            participants: scope.participants ?? [],
+          },
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Delete the attachments of a message along with their files
+   * @param messageId - Message's MongoDB ObjectId
+   */
+  async removeForMessage(messageId: string): Promise<void> {
+    await this.removeWhere({ messageId: new Types.ObjectId(messageId) });
+  }
+
+  /**
+   * Delete everything a user has uploaded along with the files
+   * @param userId - Uploader's user ID
+   */
+  async removeForUploader(userId: string): Promise<void> {
+    await this.removeWhere({ uploadedBy: userId });
+  }
+
+  /**
+   * Delete uploads that were never sent within the TTL, files included
+   * @returns Number of deleted attachments
+   */
+  async pruneUnsent(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - this.unsentTtlHours * 3600 * 1000);
+      const expired = await this.attachmentModel
+        .find({ messageId: null, createdAt: { $lt: cutoff } })
+        .limit(PRUNE_BATCH_SIZE)
+        .exec();
+
+      let deleted = 0;
+      for (const attachment of expired) {
+        // Skipped if a message claimed it since the find
+        const removed = await this.attachmentModel
+          .findOneAndDelete({ _id: attachment._id, messageId: null })
+          .exec();
+        if (removed) {
+          await this.deleteFiles(removed);
+          deleted++;
+        }
+      }
+
+      if (deleted > 0) {
+        this.logger.log(`🧹 Pruned ${deleted} unsent attachments`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(
+        `❌ Attachment pruning failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Summarise an attachment for storing on a message
+   * @param attachment - Attachment document
+   * @returns Attachment summary with download paths
+   */
+  toMessageAttachment(attachment: AttachmentDocument): MessageAttachment {
+    const id = String(attachment._id);
+    return {
+      attachmentId: attachment._id as Types.ObjectId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      width: attachment.width ?? null,
+      height: attachment.height ?? null,
+      url: `/attachments/${id}`,
+      thumbnailUrl: attachment.thumbnailKey
+        ? `/attachments/${id}/thumbnail`
+        : null,
+    };
+  }
+
+  /**
+   * Read an image's dimensions and render a WebP thumbnail
+   */
+  private async createThumbnail(
+    buffer: Buffer,
+  ): Promise<{ thumbnail: Buffer; width: number; height: number }> {
+    try {
+      const image = sharp(buffer, { animated: false }).rotate();
+      const { width = 0, height = 0, orientation } = await image.metadata();
+      const thumbnail = await image
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp()
+        .toBuffer();
+
+      // EXIF orientations 5-8 are rotated by a quarter turn
+      return orientation && orientation >= 5
+        ? { thumbnail, width: height, height: width }
+        : { thumbnail, width, height };
+    } catch {
+      throw new BadRequestException('The image could not be read');
+    }
+  }
+
+  /**
+   * Delete matching attachments, removing their files first
+   */
+  private async removeWhere(
+    filter: FilterQuery<AttachmentDocument>,
+  ): Promise<void> {
+    const attachments = await this.attachmentModel.find(filter).exec();
+
+    for (const attachment of attachments) {
+      await this.deleteFiles(attachment);
+    }
+
+    await this.attachmentModel.deleteMany(filter).exec();
+  }
+
+  /**
+   * Delete the stored file and thumbnail of an attachment
+   */
+  private async deleteFiles(attachment: AttachmentDocument): Promise<void> {
+    for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+      if (!key) continue;
+      // A file left behind in storage should not fail the delete
+      await this.storage.delete(key).catch((error: Error) => {
+        this.logger.warn(`⚠️ Could not delete ${key}: ${error.message}`);
+      });
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthService } from '../../auth/auth.service';
+import { AuthUser } from '../../auth/interfaces/jwt-payload.interface';
+
+/**
+ * Like JwtAuthGuard, but also accepts the access token as a `token` query
+ * parameter so downloads work as plain links and <img> sources
+ */
+@Injectable()
+export class DownloadAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+
+    const queryToken =
+      typeof request.query.token === 'string' ? request.query.token : undefined;
+    const token =
+      this.authService.extractBearerToken(request.headers.authorization) ??
+      queryToken;
+    request.user = await this.authService.verifyToken(token);
+    await this.authService.assertNotBanned(request.user.userId, request.ip);
+
+    return true;
+  }
+}
@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class Attachment {
+  // Uploader's user ID
+  @Prop({ required: true })
+  uploadedBy: string;
+
+  // Original file name
+  @Prop({ required: true, maxlength: 255 })
+  filename: string;
+
+  @Prop({ required: true })
+  mimeType: string;
+
+  // Size in bytes
+  @Prop({ required: true })
+  size: number;
+
+  // Location in the storage driver
+  @Prop({ required: true })
+  storageKey: string;
+
+  // Image attachments only
+  @Prop({ type: String, default: null })
+  thumbnailKey?: string | null;
+
+  @Prop({ type: Number, default: null })
+  width?: number | null;
+
+  @Prop({ type: Number, default: null })
+  height?: number | null;
+
+  // Message the file was sent with (null until it is sent)
+  @Prop({ type: Types.ObjectId, ref: 'Message', default: null })
+  messageId?: Types.ObjectId | null;
+
+  // Who may download the file once it is sent: members of the message's
+  // room (null for the lobby) or the participants of a direct message
+  @Prop({ type: Types.ObjectId, ref: 'Room', default: null })
+  roomId?: Types.ObjectId | null;
+
+  @Prop({ type: [String], default: [] })
+  participants: string[];
+}
+
+export type AttachmentDocument = Attachment & Document;
+export const AttachmentSchema = SchemaFactory.createForClass(Attachment);
+
+AttachmentSchema.index({ uploadedBy: 1, messageId: 1 });
+// Also finds unsent uploads by age for pruning
+AttachmentSchema.index({ messageId: 1, createdAt: 1 });
+
+// The attachment summary stored on a message
+@Schema({ _id: false })
+export class MessageAttachment {
+  @Prop({ type: Types.ObjectId, ref: 'Attachment', required: true })
+  attachmentId: Types.ObjectId;
+
+  @Prop({ required: true })
+  filename: string;
+
+  @Prop({ required: true })
+  mimeType: string;
+
+  @Prop({ required: true })
+  size: number;
+
+  @Prop({ type: Number, default: null })
+  width?: number | null;
+
+  @Prop({ type: Number, default: null })
+  height?: number | null;
+
+  // Download paths (append ?token=<access token> or send a bearer header)
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ type: String, default: null })
+  thumbnailUrl?: string | null;
+}
+
+export const MessageAttachmentSchema =
+  SchemaFactory.createForClass(MessageAttachment);
@@ -0,0 +1,50 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Stores files in a directory on the local filesystem
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolveKey(key);
+
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException('File not found');
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that escape the storage directory
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + '/')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,74 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Needed by most S3-compatible services
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Stores files in an S3 (or S3-compatible) bucket
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: mimeType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const { Body } = await this.client.send(
+        new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      return Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+  }
+}
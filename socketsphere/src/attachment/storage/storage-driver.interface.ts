@@ -0,0 +1,13 @@
+import { Readable } from 'stream';
+
+// Injection token of the configured StorageDriver
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Where attachment files are kept (local disk, S3-compatible bucket, ...)
+ */
+export interface StorageDriver {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import { CreateUserDto } from '../user/dto/create-user.dto';
+import { LoginDto } from './dto/login.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthUser } from './interfaces/jwt-payload.interface';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * POST /auth/register
+   * Create an account and sign in
+   */
+  @Post('register')
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.CREATED)
+  async register(@Body() createUserDto: CreateUserDto) {
+    const { accessToken, user } =
+      await this.authService.register(createUserDto);
+    return {
+      success: true,
+      message: 'Account created successfully',
+      data: { accessToken, user },
+    };
+  }
+
+  /**
+   * POST /auth/login
+   * Sign in with username and password
+   */
+  @Post('login')
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() loginDto: LoginDto) {
+    const { accessToken, user } = await this.authService.login(loginDto);
+    return {
+      success: true,
+      message: 'Logged in successfully',
+      data: { accessToken, user },
+    };
+  }
+
+  /**
+   * POST /auth/logout
+   * Revoke the current access token
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  async logout(@CurrentUser() user: AuthUser) {
+    await this.authService.logout(user);
+    return {
+      success: true,
+      message: 'Logged out successfully',
+    };
+  }
+
+  /**
+   * POST /auth/password/change
+   * Change the authenticated user's password
+   */
+  @Post('password/change')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  async changePassword(
+    @CurrentUser() user: AuthUser,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    const accessToken = await this.authService.changePassword(
+      user,
+      changePasswordDto,
+    );
+    return {
+      success: true,
+      message: 'Password changed successfully',
+      data: { accessToken },
+    };
+  }
+
+  /**
+   * POST /auth/password/forgot
+   * Request a password reset token
+   */
+  @Post('password/forgot')
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    const resetToken = await this.authService.requestPasswordReset(
+      forgotPasswordDto.username,
+    );
+
+    // There is no mail delivery yet, so the token is only returned outside
+    // production. The response is the same whether or not the user exists.
+    const exposeToken =
+      this.configService.get<string>('NODE_ENV') !== 'production';
+
+    return {
+      success: true,
+      message: 'If the account exists, a reset token has been issued',
+      ...(exposeToken && resetToken ? { data: { resetToken } } : {}),
+    };
+  }
+
+  /**
+   * POST /auth/password/reset
+   * Set a new password using a reset token
+   */
+  @Post('password/reset')
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(resetPasswordDto);
+    return {
+      success: true,
+      message: 'Password reset successfully',
+    };
+  }
+
+  /**
+   * GET /auth/me
+   * Get the user identified by the access token
+   */
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  me(@CurrentUser() user: AuthUser) {
+    return {
+      success: true,
+      data: { userId: user.userId, username: user.username },
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { UserModule } from '../user/user.module';
+import { SanctionModule } from '../sanction/sanction.module';
+import { getJwtConfig } from '../config/jwt.config';
+
+/**
+ * Auth Module - Global module for token issuing and verification
+ *
+ * Global so that controllers in any module can use JwtAuthGuard and
+ * PermissionsGuard without importing this module
+ */
+@Global()
+@Module({
+  imports: [
+    UserModule,
+    SanctionModule,
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: getJwtConfig,
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, JwtAuthGuard, PermissionsGuard],
+  exports: [AuthService, JwtAuthGuard, PermissionsGuard],
+})
+export class AuthModule {}
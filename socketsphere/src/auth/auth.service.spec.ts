@@ -0,0 +1,188 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthService } from './auth.service';
+import { hashPassword } from './password.util';
+import { UserService } from '../user/user.service';
+import { RedisService } from '../redis/redis.service';
+import { SanctionService } from '../sanction/sanction.service';
+import { RealtimeService } from '../realtime/realtime.service';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let store: Map<string, string>;
+  const user = {
+    _id: '64b7f0c2a1b2c3d4e5f60718',
+    username: 'alice',
+    passwordHash: '',
+  };
+  const userService = {
+    createUser: jest.fn(),
+    findByUsernameWithPassword: jest.fn(),
+    findByIdWithPassword: jest.fn(),
+    updatePassword: jest.fn(),
+  };
+  const redisService = {
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    exists: jest.fn((key: string) => Promise.resolve(store.has(key))),
+  };
+  const sanctionService = {
+    getActiveBan: jest.fn(),
+  };
+  const realtimeService = {
+    disconnectToken: jest.fn(),
+    disconnectUser: jest.fn(),
+  };
+
+  beforeAll(async () => {
+    user.passwordHash = await hashPassword('correct horse battery');
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+
+    const app: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        AuthService,
+        { provide: UserService, useValue: userService },
+        { provide: RedisService, useValue: redisService },
+        { provide: SanctionService, useValue: sanctionService },
+        { provide: RealtimeService, useValue: realtimeService },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+
+    authService = app.get<AuthService>(AuthService);
+  });
+
+  describe('login', () => {
+    it('should issue a token that verifies to the same identity', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(user);
+
+      const { accessToken } = await authService.login({
+        username: 'alice',
+        password: 'correct horse battery',
+      });
+
+      await expect(authService.verifyToken(accessToken)).resolves.toEqual(
+        expect.objectContaining({ userId: user._id, username: 'alice' }),
+      );
+    });
+
+    it('should reject a wrong password', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(user);
+
+      await expect(
+        authService.login({ username: 'alice', password: 'nope' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an unknown user', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(null);
+
+      await expect(
+        authService.login({ username: 'mallory', password: 'whatever' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should reject a missing token', async () => {
+      await expect(authService.verifyToken(undefined)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a tampered token', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(user);
+      const { accessToken } = await authService.login({
+        username: 'alice',
+        password: 'correct horse battery',
+      });
+
+      await expect(
+        authService.verifyToken(`${accessToken.slice(0, -2)}xx`),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a token after logout', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(user);
+      const { accessToken } = await authService.login({
+        username: 'alice',
+        password: 'correct horse battery',
+      });
+
+      const authUser = await authService.verifyToken(accessToken);
+      await authService.logout(authUser);
+
+      await expect(authService.verifyToken(accessToken)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(realtimeService.disconnectToken).toHaveBeenCalledWith(
+        authUser.tokenId,
+      );
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should reject older tokens but accept the one it issues', async () => {
+      userService.findByUsernameWithPassword.mockResolvedValue(user);
+      userService.findByIdWithPassword.mockResolvedValue(user);
+      userService.updatePassword.mockResolvedValue(user);
+      const { accessToken } = await authService.login({
+        username: 'alice',
+        password: 'correct horse battery',
+      });
+
+      // Within the same second as the login
+      const freshToken = await authService.changePassword(
+        await authService.verifyToken(accessToken),
+        {
+          currentPassword: 'correct horse battery',
+          newPassword: 'new horse battery',
+        },
+      );
+
+      await expect(authService.verifyToken(accessToken)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(authService.verifyToken(freshToken)).resolves.toEqual(
+        expect.objectContaining({ userId: user._id }),
+      );
+      expect(realtimeService.disconnectUser).toHaveBeenCalledWith(user._id);
+    });
+  });
+
+  describe('assertNotBanned', () => {
+    it('should reject users with an active ban', async () => {
+      sanctionService.getActiveBan.mockResolvedValue(null);
+      await expect(
+        authService.assertNotBanned(user._id, '10.0.0.1'),
+      ).resolves.toBeUndefined();
+
+      sanctionService.getActiveBan.mockResolvedValue({ type: 'ban' });
+      await expect(
+        authService.assertNotBanned(user._id, '10.0.0.1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(sanctionService.getActiveBan).toHaveBeenCalledWith(
+        user._id,
+        '10.0.0.1',
+      );
+    });
+  });
+
+  describe('extractBearerToken', () => {
+    it('should only accept Bearer authorization headers', () => {
+      expect(authService.extractBearerToken('Bearer abc')).toBe('abc');
+      expect(authService.extractBearerToken('Basic abc')).toBeUndefined();
+      expect(authService.extractBearerToken(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { UserService } from '../user/user.service';
+import { UserDocument } from '../user/schemas/user.schema';
+import { CreateUserDto } from '../user/dto/create-user.dto';
+import { RedisService } from '../redis/redis.service';
+import { SanctionService } from '../sanction/sanction.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { LoginDto } from './dto/login.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { AuthUser, JwtPayload } from './interfaces/jwt-payload.interface';
+import { verifyPassword } from './password.util';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly userService: UserService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly sanctionService: SanctionService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Register a new account
+   * @param createUserDto - DTO containing username and password
+   * @returns Signed access token and the created user
+   * @throws ConflictException if username already exists
+   */
+  async register(
+    createUserDto: CreateUserDto,
+  ): Promise<{ accessToken: string; user: UserDocument }> {
+    const user = await this.userService.createUser(createUserDto);
+    this.logger.log(`✅ Registered user ${user.username}`);
+
+    return {
+      accessToken: await this.signToken(user),
+      user,
+    };
+  }
+
+  /**
+   * Log in with username and password
+   * @param loginDto - DTO containing username and password
+   * @returns Signed access token and the user
+   * @throws UnauthorizedException if the credentials are wrong
+   */
+  async login(
+    loginDto: LoginDto,
+  ): Promise<{ accessToken: string; user: UserDocument }> {
+    const user = await this.userService.findByUsernameWithPassword(
+      loginDto.username,
+    );
+
+    if (
+      !user ||
+      !(await verifyPassword(loginDto.password, user.passwordHash))
+    ) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+
+    return {
+      accessToken: await this.signToken(user),
+      user,
+    };
+  }
+
+  /**
+   * Revoke the access token used for the current request and disconnect
+   * the sockets that use it
+   * @param user - Authenticated user identity
+   */
+  async logout(user: AuthUser): Promise<void> {
+    const ttl = user.expiresAt
+      ? Math.max(user.expiresAt - Math.floor(Date.now() / 1000), 1)
+      : 7 * 24 * 3600;
+
+    await this.redisService.set(`auth:revoked:${user.tokenId}`, '1', ttl);
+    this.realtimeService.disconnectToken(user.tokenId);
+    this.logger.log(`👋 Revoked token for ${user.username}`);
+  }
+
+  /**
+   * Change the password of the authenticated user
+   * @param user - Authenticated user identity
+   * @param changePasswordDto - DTO containing current and new password
+   * @returns A fresh access token (older tokens stop working and their
+   * sockets are disconnected)
+   * @throws UnauthorizedException if the current password is wrong
+   */
+  async changePassword(
+    user: AuthUser,
+    changePasswordDto: ChangePasswordDto,
+  ): Promise<string> {
+    const dbUser = await this.userService.findByIdWithPassword(user.userId);
+
+    if (
+      !(await verifyPassword(
+        changePasswordDto.currentPassword,
+        dbUser.passwordHash,
+      ))
+    ) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    const updated = await this.userService.updatePassword(
+      user.userId,
+      changePasswordDto.newPassword,
+    );
+    await this.invalidateExistingTokens(user.userId);
+    this.realtimeService.disconnectUser(user.userId);
+
+    return await this.signToken(updated);
+  }
+
+  /**
+   * Change the username of a user
+   * @param userId - User's MongoDB ObjectId
+   * @param username - New username
+   * @returns The renamed user and a fresh access token (older tokens carry
+   * the old name and stop working)
+   * @throws ConflictException if username already exists
+   */
+  async changeUsername(
+    userId: string,
+    username: string,
+  ): Promise<{ accessToken: string; user: UserDocument }> {
+    const renamed = await this.userService.rename(userId, username);
+    await this.invalidateExistingTokens(userId);
+
+    this.logger.log(`🏷️ User ${userId} is now ${renamed.username}`);
+    return {
+      accessToken: await this.signToken(renamed),
+      user: renamed,
+    };
+  }
+
+  /**
+   * Create a single-use password reset token
+   * @param username - Account to reset
+   * @returns The reset token, or null when the account does not exist
+   */
+  async requestPasswordReset(username: string): Promise<string | null> {
+    const user = await this.userService.findByUsername(username);
+
+    if (!user) {
+      return null;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const ttl = this.configService.get<number>('PASSWORD_RESET_TTL', 3600);
+
+    await this.userService.setPasswordResetToken(
+      String(user._id),
+      this.hashResetToken(token),
+      new Date(Date.now() + ttl * 1000),
+    );
+
+    this.logger.log(`🔑 Password reset requested for ${username}`);
+    return token;
+  }
+
+  /**
+   * Set a new password using a reset token (and disconnect the sockets
+   * that use an older token)
+   * @param resetPasswordDto - DTO containing reset token and new password
+   * @throws BadRequestException if the token is invalid or expired
+   */
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+    const user = await this.userService.findByPasswordResetToken(
+      this.hashResetToken(resetPasswordDto.token),
+    );
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.userService.updatePassword(
+      String(user._id),
+      resetPasswordDto.newPassword,
+    );
+    await this.invalidateExistingTokens(String(user._id));
+    this.realtimeService.disconnectUser(String(user._id));
+
+    this.logger.log(`🔑 Password reset completed for ${user.username}`);
+  }
+
+  /**
+   * Sign an access token for a user
+   * @param user - User document
+   * @returns Signed JWT
+   */
+  async signToken(user: UserDocument): Promise<string> {
+    // Tokens issued in the second of a password change are dated after it,
+    // or verifyToken would reject them with the older ones
+    const passwordChangedAt = await this.redisService.get(
+      `auth:password-changed:${String(user._id)}`,
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    const payload: JwtPayload = {
+      sub: String(user._id),
+      username: user.username,
+      jti: randomUUID(),
+      iat: passwordChangedAt
+        ? Math.max(now, Number(passwordChangedAt) + 1)
+        : now,
+    };
+
+    return await this.jwtService.signAsync(payload);
+  }
+
+  /**
+   * Reject a banned user, or a user connecting from a banned address
+   * @param userId - User's MongoDB ObjectId
+   * @param ip - Connection address
+   * @throws ForbiddenException if a ban is active
+   */
+  async assertNotBanned(userId: string, ip?: string): Promise<void> {
+    if (await this.sanctionService.getActiveBan(userId, ip)) {
+      throw new ForbiddenException('You are banned');
+    }
+  }
+
+  /**
+   * Verify an access token
+   * @param token - Signed JWT
+   * @returns Authenticated user identity
+   * @throws UnauthorizedException if the token is missing, invalid, expired
+   * or revoked
+   */
+  async verifyToken(token: string | undefined): Promise<AuthUser> {
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    if (await this.redisService.exists(`auth:revoked:${payload.jti}`)) {
+      throw new UnauthorizedException('Access token has been revoked');
+    }
+
+    // Tokens issued before the last password change are no longer valid;
+    // iat has whole seconds, so the second of the change counts as before
+    const passwordChangedAt = await this.redisService.get(
+      `auth:password-changed:${payload.sub}`,
+    );
+    if (
+      passwordChangedAt &&
+      payload.iat !== undefined &&
+      payload.iat <= Number(passwordChangedAt)
+    ) {
+      throw new UnauthorizedException('Access token has been revoked');
+    }
+
+    return {
+      userId: payload.sub,
+      username: payload.username,
+      tokenId: payload.jti,
+      expiresAt: payload.exp,
+    };
+  }
+
+  /**
+   * Extract a bearer token from an Authorization header value
+   * @param header - Authorization header (e.g. "Bearer eyJ...")
+   * @returns Token or undefined
+   */
+  extractBearerToken(header: string | undefined): string | undefined {
+    const [type, token] = header?.split(' ') ?? [];
+    return type === 'Bearer' ? token : undefined;
+  }
+
+  /**
+   * Record a password change so tokens issued before it are rejected
+   */
+  private async invalidateExistingTokens(userId: string): Promise<void> {
+    await this.redisService.set(
+      `auth:password-changed:${userId}`,
+      String(Math.floor(Date.now() / 1000)),
+    );
+  }
+
+  /**
+   * Reset tokens are stored hashed so a database leak does not expose them
+   */
+  private hashResetToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
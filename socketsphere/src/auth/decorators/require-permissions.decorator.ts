@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Require the authenticated user's role to grant all of these permissions
+ * (checked by PermissionsGuard)
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
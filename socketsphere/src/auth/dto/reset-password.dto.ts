@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsNotEmpty({ message: 'Reset token is required' })
+  @IsString()
+  token: string;
+
+  @IsNotEmpty({ message: 'New password is required' })
+  @IsString()
+  @Length(8, 128, { message: 'Password must be between 8 and 128 characters' })
+  newPassword: string;
+}
@@ -0,0 +1,27 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthService } from '../auth.service';
+import { AuthUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * Requires a valid bearer token of a user who is not banned, and attaches
+ * the user to the request
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+
+    const token = this.authService.extractBearerToken(
+      request.headers.authorization,
+    );
+    request.user = await this.authService.verifyToken(token);
+    await this.authService.assertNotBanned(request.user.userId, request.ip);
+
+    return true;
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { UserService } from '../../user/user.service';
+import { Permission, hasPermission } from '../permissions';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { AuthUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * Checks the permissions required with @RequirePermissions against the
+ * current role of the user attached by JwtAuthGuard (use after it)
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly userService: UserService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!permissions?.length) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+    if (!user) {
+      throw new ForbiddenException('Authentication required');
+    }
+
+    // Read the role on every request so granted or revoked roles apply
+    // immediately
+    const role = await this.userService.getRole(user.userId);
+    const missing = permissions.find(
+      (permission) => !hasPermission(role, permission),
+    );
+    if (missing) {
+      throw new ForbiddenException(`Missing permission: ${missing}`);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Claims carried by access tokens
+ */
+export interface JwtPayload {
+  // User's MongoDB ObjectId
+  sub: string;
+  username: string;
+  // Unique token ID, used to revoke the token on logout
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Authenticated identity attached to HTTP requests and sockets
+ */
+export interface AuthUser {
+  userId: string;
+  username: string;
+  tokenId: string;
+  // Token expiry in seconds since the epoch
+  expiresAt?: number;
+}
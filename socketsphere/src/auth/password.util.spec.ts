@@ -0,0 +1,30 @@
+import { hashPassword, verifyPassword } from './password.util';
+
+describe('password.util', () => {
+  it('should verify the original password', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    await expect(verifyPassword('correct horse battery', hash)).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should reject a wrong password', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    await expect(verifyPassword('wrong password', hash)).resolves.toBe(false);
+  });
+
+  it('should salt every hash', async () => {
+    const [first, second] = await Promise.all([
+      hashPassword('same password'),
+      hashPassword('same password'),
+    ]);
+
+    expect(first).not.toBe(second);
+  });
+
+  it('should reject malformed hashes', async () => {
+    await expect(verifyPassword('anything', 'not-a-hash')).resolves.toBe(false);
+  });
+});
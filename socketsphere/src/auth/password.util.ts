@@ -0,0 +1,47 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Hash a password with a random salt
+ * @param password - Plain text password
+ * @returns Encoded hash in the form "scrypt$<salt hex>$<hash hex>"
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * @param password - Plain text password
+ * @param encoded - Stored hash
+ * @returns boolean indicating whether the password matches
+ */
+export const verifyPassword = async (
+  password: string,
+  encoded: string,
+): Promise<boolean> => {
+  const [algorithm, saltHex, hashHex] = encoded.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, 'hex'),
+    expected.length,
+  );
+
+  return timingSafeEqual(actual, expected);
+};
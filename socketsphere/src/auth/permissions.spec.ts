@@ -0,0 +1,20 @@
+import { hasPermission } from './permissions';
+
+describe('permissions', () => {
+  it('should let guests read along but not post', () => {
+    expect(hasPermission('guest', 'message:send')).toBe(false);
+    expect(hasPermission('guest', 'message:react')).toBe(false);
+    expect(hasPermission('member', 'message:send')).toBe(true);
+  });
+
+  it('should give each role the permissions of the roles below it', () => {
+    expect(hasPermission('moderator', 'message:send')).toBe(true);
+    expect(hasPermission('moderator', 'message:delete:any')).toBe(true);
+    expect(hasPermission('admin', 'user:sanction')).toBe(true);
+  });
+
+  it('should keep role management to admins', () => {
+    expect(hasPermission('moderator', 'user:roles')).toBe(false);
+    expect(hasPermission('admin', 'user:roles')).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import type { Role } from '../user/schemas/user.schema';
+
+export type Permission =
+  | 'message:send'
+  | 'message:react'
+  | 'message:edit'
+  | 'message:delete:own'
+  | 'message:delete:any'
+  | 'message:review'
+  | 'message:mention:all'
+  | 'room:create'
+  | 'room:topic'
+  | 'user:update:self'
+  | 'user:delete:self'
+  | 'user:delete:any'
+  | 'user:sanction'
+  | 'user:roles'
+  | 'moderation:rules:read'
+  | 'moderation:rules:write'
+  | 'notification:system'
+  | 'webhook:manage';
+
+// Guests can read and follow along but not take part
+const GUEST_PERMISSIONS: Permission[] = ['user:update:self'];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  ...GUEST_PERMISSIONS,
+  'message:send',
+  'message:react',
+  'message:edit',
+  'message:delete:own',
+  'room:create',
+  'user:delete:self',
+];
+
+const MODERATOR_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  'message:delete:any',
+  'message:review',
+  // @here and @everyone
+  'message:mention:all',
+  // Change the topic of any room (creators can change their own)
+  'room:topic',
+  'user:sanction',
+  'moderation:rules:read',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MODERATOR_PERMISSIONS,
+  'user:delete:any',
+  'user:roles',
+  'moderation:rules:write',
+  'notification:system',
+  'webhook:manage',
+];
+
+/**
+ * What each role may do
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ADMIN_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  guest: GUEST_PERMISSIONS,
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
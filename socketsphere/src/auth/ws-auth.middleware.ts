@@ -0,0 +1,52 @@
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { AuthService } from './auth.service';
+import { AuthUser } from './interfaces/jwt-payload.interface';
+import { tokenChannel, userChannel } from '../realtime/realtime.service';
+
+type SocketMiddleware = (socket: Socket, next: (err?: Error) => void) => void;
+
+const logger = new Logger('WsAuthMiddleware');
+
+/**
+ * Socket.IO middleware that verifies the access token during the handshake
+ *
+ * The token is read from `auth.token` (preferred) or an
+ * `Authorization: Bearer` header, and the verified identity is stored in
+ * `socket.data.user` for the gateway handlers. The socket joins the channels
+ * of its user and token so bans and logouts can disconnect it. Banned users
+ * are turned away with a "Banned" error.
+ */
+export const createWsAuthMiddleware =
+  (authService: AuthService): SocketMiddleware =>
+  (socket, next) => {
+    const authToken = socket.handshake.auth?.token as string | undefined;
+    const token =
+      authToken ||
+      authService.extractBearerToken(socket.handshake.headers.authorization);
+
+    authService
+      .verifyToken(token)
+      .then(async (user) => {
+        await authService.assertNotBanned(
+          user.userId,
+          socket.handshake.address,
+        );
+        (socket.data as { user: AuthUser }).user = user;
+        await socket.join([
+          userChannel(user.userId),
+          tokenChannel(user.tokenId),
+        ]);
+        next();
+      })
+      .catch((error: Error) => {
+        logger.warn(
+          `🔒 Rejected socket ${socket.id} from ${socket.handshake.address}: ${error.message}`,
+        );
+        next(
+          new Error(
+            error instanceof ForbiddenException ? 'Banned' : 'Unauthorized',
+          ),
+        );
+      });
+  };
@@ -11,11 +11,48 @@ import {
 import { Server, Socket } from 'socket.io';
 import { MessageService } from '../message/message.service';
 import { UserService } from '../user/user.service';
+import { RoomService } from '../room/room.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { ReceiptService, getReadScope } from '../receipt/receipt.service';
+import { PresenceService } from '../presence/presence.service';
+import { PRESENCE_STATUSES, toPresence } from '../user/schemas/user.schema';
+import { UpdatePresenceDto } from '../user/dto/update-presence.dto';
+import { getMessageAuthorId } from '../message/schemas/message.schema';
+import { SearchMessagesDto } from '../message/dto/search-messages.dto';
 import { RedisService } from '../redis/redis.service';
-import { Logger } from '@nestjs/common';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { SanctionService } from '../sanction/sanction.service';
+import {
+  MAX_SANCTION_DURATION,
+  SanctionDto,
+} from '../sanction/dto/sanction.dto';
+import { NotificationService } from '../notification/notification.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { CommandRegistry } from '../command/command.registry';
+import { CommandContext, CommandResult } from '../command/command.interface';
+import { parseCommand, unescapeCommand } from '../command/command-parser.util';
+import { AuthService } from '../auth/auth.service';
+import { createWsAuthMiddleware } from '../auth/ws-auth.middleware';
+import { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+import { Permission } from '../auth/permissions';
+import {
+  RealtimeService,
+  roomChannel,
+  userChannel,
+} from '../realtime/realtime.service';
+import { Logger, OnModuleInit } from '@nestjs/common';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { createClient } from 'redis';
 
+// What the gateway keeps about a connected user (also stored as the session)
+interface ConnectedUser {
+  userId: string;
+  username: string;
+  _id: string;
+  socketId: string;
+  connectedAt: Date;
+}
+
 @WebSocketGateway({
   cors: {
     origin: '*',
@@ -24,22 +61,147 @@ import { createClient } from 'redis';
   transports: ['websocket', 'polling'],
 })
 export class ChatGateway
-  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+  implements
+    OnModuleInit,
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect
 {
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(ChatGateway.name);
-  private userSockets = new Map<string, string>();
+  // Sockets of each user on this instance (a user may have several tabs)
+  private userSockets = new Map<string, Set<string>>();
   private socketUsers = new Map<string, string>();
-  private connectedUsers = new Map<string, any>();
+  private connectedUsers = new Map<string, ConnectedUser>();
 
   constructor(
     private readonly messageService: MessageService,
     private readonly userService: UserService,
+    private readonly roomService: RoomService,
+    private readonly conversationService: ConversationService,
+    private readonly receiptService: ReceiptService,
+    private readonly presenceService: PresenceService,
     private readonly redisService: RedisService,
+    private readonly authService: AuthService,
+    private readonly realtimeService: RealtimeService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly sanctionService: SanctionService,
+    private readonly notificationService: NotificationService,
+    private readonly webhookService: WebhookService,
+    private readonly commandRegistry: CommandRegistry,
   ) {}
 
+  onModuleInit() {
+    // Renaming changes the sessions kept here, so /nick lives in the gateway
+    this.commandRegistry.register({
+      name: 'nick',
+      usage: '<name>',
+      description: 'Change your username',
+      permission: 'user:update:self',
+      minArgs: 1,
+      execute: (context) => this.changeNick(context),
+    });
+  }
+
+  /**
+   * Get the identity verified during the socket handshake
+   */
+  private getAuthUser(client: Socket): AuthUser {
+    return (client.data as { user: AuthUser }).user;
+  }
+
+  /**
+   * Apply the rate limit of an event to the calling user
+   * @returns The response to return from the handler when the limit is
+   * exceeded, otherwise null
+   */
+  private async checkRateLimit(client: Socket, event: string) {
+    const { userId } = this.getAuthUser(client);
+    const { allowed, retryAfter, muted } = await this.rateLimitService.consume(
+      userId,
+      event,
+    );
+
+    if (allowed) {
+      return null;
+    }
+
+    const error = {
+      event,
+      message: muted
+        ? `You are muted for flooding, retry in ${retryAfter}s`
+        : `Too many ${event} requests, retry in ${retryAfter}s`,
+      retryAfter,
+      muted,
+    };
+    this.logger.warn(`🚦 ${event} rate limited for ${userId}`);
+    client.emit('rateLimited', error);
+
+    return { success: false, error: 'rateLimited', retryAfter, muted };
+  }
+
+  /**
+   * Check that the socket has joined a room before it sends events to it
+   * @returns The response to return from the handler when it has not,
+   * otherwise null
+   */
+  private checkInRoom(client: Socket, roomId?: string) {
+    if (!roomId || client.rooms.has(roomChannel(roomId))) {
+      return null;
+    }
+
+    const error = { message: 'Join the room first' };
+    client.emit('error', error);
+    return { success: false, error: error.message };
+  }
+
+  /**
+   * Check that the user's role grants a permission
+   * @returns The response to return from the handler when it does not,
+   * otherwise null
+   */
+  private async checkPermission(
+    client: Socket,
+    userId: string,
+    permission: Permission,
+  ) {
+    if (await this.userService.hasPermission(userId, permission)) {
+      return null;
+    }
+
+    const error = { message: `Missing permission: ${permission}` };
+    client.emit('error', error);
+    return { success: false, error: error.message };
+  }
+
+  /**
+   * Tell a muted user they cannot send messages
+   * @returns The response to return from the handler when the user is
+   * muted, otherwise null
+   */
+  private async checkMuted(client: Socket, userId: string) {
+    const mute = await this.sanctionService.getActiveMute(userId);
+    if (!mute) {
+      return null;
+    }
+
+    const error = { message: 'You are muted', ...mute };
+    client.emit('error', error);
+    return { success: false, error: error.message, expiresAt: mute.expiresAt };
+  }
+
+  /**
+   * Check an optional list of IDs in a socket payload
+   */
+  private isIdList(value: unknown): value is string[] | undefined {
+    return (
+      value === undefined ||
+      (Array.isArray(value) && value.every((id) => typeof id === 'string'))
+    );
+  }
+
   /**
    * Initialize Socket.IO with Redis Adapter
    * This runs once when the gateway starts
@@ -47,6 +209,18 @@ export class ChatGateway
   async afterInit(server: Server) {
     this.logger.log('🚀 Initializing Socket.IO Gateway...');
 
+    // Let REST controllers and services emit through this server
+    this.realtimeService.setServer(server);
+
+    // Reject handshakes without a valid access token
+    server.use(createWsAuthMiddleware(this.authService));
+    this.logger.log('🔒 Socket authentication middleware registered');
+
+    // Renames made through another instance (see changeNick)
+    server.on('userRenamed', (userId: string, username: string) => {
+      this.applyRename(userId, username);
+    });
+
     try {
       // Get Redis configuration from environment or use defaults
       const redisHost = process.env.REDIS_HOST || 'localhost';
@@ -143,7 +317,7 @@ export class ChatGateway
     });
 
     // Send current online count
-    const onlineCount = this.userSockets.size;
+    const onlineCount = await this.redisService.getOnlineCount();
     client.emit('onlineCount', onlineCount);
 
     this.logger.log(`📤 Sent 'connected' event to client ${client.id}`);
@@ -158,36 +332,8 @@ export class ChatGateway
     const disconnectedUserId = this.socketUsers.get(client.id);
 
     if (disconnectedUserId) {
-      // Remove from local maps
-      this.userSockets.delete(disconnectedUserId);
-      this.socketUsers.delete(client.id);
-      const userData = this.connectedUsers.get(disconnectedUserId);
-      this.connectedUsers.delete(disconnectedUserId);
-
       try {
-        // Remove from Redis
-        await this.redisService.removeOnlineUser(disconnectedUserId);
-        await this.redisService.deleteUserSession(disconnectedUserId);
-
-        // Update user status in database
-        if (userData?._id) {
-          await this.userService.updateStatus(userData._id, 'offline');
-        }
-
-        // Broadcast user left event to all servers
-        this.server.emit('userLeft', {
-          userId: disconnectedUserId,
-          username: userData?.username,
-          timestamp: new Date(),
-        });
-
-        // Update and broadcast online count
-        const onlineCount = await this.redisService.getOnlineCount();
-        this.server.emit('onlineCount', onlineCount);
-
-        this.logger.log(
-          `👋 User ${userData?.username} (${disconnectedUserId}) left`,
-        );
+        await this.removeUserSocket(disconnectedUserId, client);
       } catch (error) {
         this.logger.error(`❌ Error in disconnect handler:`, error.message);
       }
@@ -198,51 +344,53 @@ export class ChatGateway
    * Handle user joining the chat
    */
   @SubscribeMessage('join')
-  async handleJoin(
-    @MessageBody() payload: { userId: string; username: string },
-    @ConnectedSocket() client: Socket,
-  ) {
-    this.logger.log(`🚪 Join request: ${JSON.stringify(payload)}`);
+  async handleJoin(@ConnectedSocket() client: Socket) {
+    // Identity comes from the verified token, never from the payload
+    const { userId, username } = this.getAuthUser(client);
+    this.logger.log(`🚪 Join request from ${username} (${userId})`);
 
     try {
-      const { userId, username } = payload;
+      const limited = await this.checkRateLimit(client, 'join');
+      if (limited) {
+        return limited;
+      }
 
-      // Validate payload
-      if (!userId || !username) {
-        const error = { message: 'userId and username are required' };
-        this.logger.error(`❌ Join failed: Missing fields`);
-        client.emit('error', error);
-        return { success: false, error: error.message };
+      // Banned users (and users on a banned address) cannot join
+      const ban = await this.sanctionService.getActiveBan(
+        userId,
+        client.handshake.address,
+      );
+      if (ban) {
+        this.logger.warn(
+          `⛔ Banned user ${username} (${userId}) tried to join`,
+        );
+        client.emit('sanctioned', ban);
+        client.disconnect(true);
+        return { success: false, error: 'You are banned' };
       }
+      await this.sanctionService.recordAddress(
+        userId,
+        client.handshake.address,
+      );
+
+      // The token identifies an existing user; make sure it still exists
+      let user = await this.userService.findById(userId);
 
       // Store in local maps
-      this.userSockets.set(userId, client.id);
+      if (!this.userSockets.has(userId)) {
+        this.userSockets.set(userId, new Set());
+      }
+      this.userSockets.get(userId)!.add(client.id);
       this.socketUsers.set(client.id, userId);
 
-      // Find or create user in database
-      let dbUser: any = null;
-      try {
-        dbUser = await this.userService.findByUsername(username);
-
-        if (!dbUser) {
-          this.logger.log(`🔨 Creating new user: ${username}`);
-          dbUser = await this.userService.createUser({ username });
-          this.logger.log(`✅ User created with ID: ${dbUser._id}`);
-        }
-
-        // Update user status to online
-        if (dbUser && dbUser._id) {
-          await this.userService.updateStatus(dbUser._id.toString(), 'online');
-        }
-      } catch (error) {
-        this.logger.warn(`⚠️ DB error (continuing anyway): ${error.message}`);
-      }
+      // User-targeted events reach every socket in this channel
+      await client.join(userChannel(userId));
 
       // Create user info object
       const userInfo = {
         userId,
         username,
-        _id: dbUser?._id?.toString() || undefined,
+        _id: userId,
         socketId: client.id,
         connectedAt: new Date(),
       };
@@ -251,22 +399,57 @@ export class ChatGateway
       this.connectedUsers.set(userId, userInfo);
 
       // Store in Redis
-      await this.redisService.addOnlineUser(userId, client.id);
+      const cameOnline = await this.presenceService.addSocket(
+        userId,
+        client.id,
+      );
       await this.redisService.setUserSession(userId, userInfo, 7200); // 2 hour TTL
 
-      // Broadcast to ALL clients (across all servers via Redis)
-      this.server.emit('userJoined', {
+      // Only the user's first device brings them online
+      if (cameOnline) {
+        user = await this.userService.connect(userId);
+
+        // Invisible users connect silently
+        if (user.status !== 'invisible') {
+          // Broadcast to ALL clients (across all servers via Redis)
+          const joined = {
+            userId,
+            username,
+            status: user.status,
+            timestamp: new Date(),
+          };
+          this.server.emit('userJoined', joined);
+          void this.webhookService.dispatch('user.joined', joined);
+        }
+
+        this.presenceService.broadcastPresence(user);
+      }
+      await this.presenceService.recordActivity(userId);
+
+      // Send join success (with unread counts per read scope) to the
+      // joining client
+      const unreadCounts = await this.receiptService.getUnreadCounts(userId);
+
+      // Inbox entries that arrived while the user was away
+      const { notifications } = await this.notificationService.findForUser(
         userId,
-        username,
-        timestamp: new Date(),
-      });
+        { unreadOnly: true, limit: 50 },
+      );
+      const notificationCounts =
+        await this.notificationService.getUnreadCounts(userId);
 
-      // Send join success to the joining client
       client.emit('joinSuccess', {
         user: userInfo,
+        presence: toPresence(user, true),
+        unreadCounts,
+        notifications,
+        notificationCounts,
         message: 'Successfully joined chat',
       });
 
+      // Deliver direct messages received while the user was offline
+      await this.deliverPendingDirectMessages(userId, client);
+
       // Get and broadcast online count from Redis
       const onlineCount = await this.redisService.getOnlineCount();
       this.server.emit('onlineCount', onlineCount);
@@ -290,17 +473,50 @@ export class ChatGateway
    */
   @SubscribeMessage('sendMessage')
   async handleSendMessage(
-    @MessageBody() payload: { userId: string; text: string },
+    @MessageBody()
+    payload: {
+      text?: string;
+      roomId?: string;
+      parentId?: string;
+      attachmentIds?: string[];
+    },
     @ConnectedSocket() client: Socket,
   ) {
     this.logger.log(`💬 Message received: ${JSON.stringify(payload)}`);
 
     try {
-      const { userId, text } = payload;
+      const limited = await this.checkRateLimit(client, 'sendMessage');
+      if (limited) {
+        return limited;
+      }
+
+      const { userId, username } = this.getAuthUser(client);
+
+      const forbidden = await this.checkPermission(
+        client,
+        userId,
+        'message:send',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const muted = await this.checkMuted(client, userId);
+      if (muted) {
+        return muted;
+      }
+      const { roomId, parentId, attachmentIds } = payload;
+      let { text } = payload;
 
       // Validate payload
-      if (!userId || !text) {
-        const error = { message: 'userId and text are required' };
+      if (!this.isIdList(attachmentIds)) {
+        const error = { message: 'attachmentIds must be a list of IDs' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      if (!text && !attachmentIds?.length) {
+        const error = { message: 'text or attachments are required' };
         this.logger.error(`❌ Message failed: Missing fields`);
         client.emit('error', error);
         return { success: false, error: error.message };
@@ -324,30 +540,103 @@ export class ChatGateway
         this.connectedUsers.set(userId, userData);
       }
 
+      // Room messages and commands require the socket to have joined the room
+      if (roomId && !client.rooms.has(roomChannel(roomId))) {
+        const error = { message: 'Join the room before sending messages' };
+        this.logger.error(`❌ Message failed: ${userId} not in ${roomId}`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      // Slash commands run instead of being stored, unless they turn into a
+      // message (/me, /shrug); "//" sends a leading slash as is
+      const command = parseCommand(text);
+      if (command) {
+        try {
+          const { command: ran, result } = await this.commandRegistry.execute(
+            command,
+            { userId, username, roomId: roomId ?? null },
+          );
+          if (result.type === 'reply') {
+            client.emit('commandReply', {
+              command: ran.name,
+              text: result.text,
+              data: result.data,
+            });
+            return { success: true, status: 'command', reply: result.text };
+          }
+          text = result.text;
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          client.emit('commandReply', {
+            command: command.name,
+            text: errorMessage,
+            error: true,
+          });
+          return { success: false, error: errorMessage };
+        }
+      } else if (text) {
+        text = unescapeCommand(text);
+      }
+
+      // Sending a message counts as activity for idle detection
+      await this.presenceService.recordActivity(userId);
+
+      if (roomId) {
+        // Members removed from a private room may still hold its channel
+        const room = await this.roomService.findById(roomId);
+        if (!this.roomService.canAccess(room, userId)) {
+          const error = { message: 'This room is private' };
+          client.emit('error', error);
+          return { success: false, error: error.message };
+        }
+
+        if (room.archived) {
+          const error = { message: 'This room is archived' };
+          client.emit('error', error);
+          return { success: false, error: error.message };
+        }
+      }
+
       // Prepare message data for WebSocket messages
-      const messageData: any = {
-        userId, // Custom user ID (e.g., "user_1760127880849_gq2a88d5j")
+      const messageData = {
+        userId, // MongoDB user ID from the access token
         username: userData.username, // Include username
-        text: text.trim(),
+        text: text?.trim() ?? '',
+        roomId,
+        parentId,
+        attachmentIds,
         timestamp: new Date(),
       };
 
-      // Only include MongoDB user ID if it exists and is valid
-      if (userData._id) {
-        messageData.userMongoId = userData._id;
+      const savedMessage = await this.messageService.createMessage(messageData);
+
+      // Cache message in Redis (optional, for quick retrieval); replies stay
+      // out of the main stream
+      if (!parentId) {
+        await this.redisService.addMessageToCache(savedMessage, 50, roomId);
       }
 
-      const savedMessage = await this.messageService.createMessage(messageData);
+      // Broadcast to the room, or to ALL clients for the lobby
+      // (across all servers via Redis)
+      if (roomId) {
+        this.server.to(roomChannel(roomId)).emit('newMessage', savedMessage);
+      } else {
+        this.server.emit('newMessage', savedMessage);
+      }
+      void this.webhookService.dispatch('message.created', savedMessage);
 
-      // Cache message in Redis (optional, for quick retrieval)
-      await this.redisService.addMessageToCache(savedMessage, 50);
+      // Notify mentioned users and the author of the thread's first message
+      await this.messageService.notifyRecipients(savedMessage);
 
-      // Broadcast to ALL clients (across all servers via Redis)
-      this.server.emit('newMessage', savedMessage);
+      if (parentId) {
+        await this.emitThreadUpdated(parentId);
+      }
 
       this.logger.log(`✅ Message from ${userData.username} broadcasted`);
 
-      return { success: true, message: savedMessage };
+      return { success: true, status: 'sent', message: savedMessage };
     } catch (error) {
       this.logger.error(`❌ Send message error: ${error.message}`, error.stack);
       client.emit('error', {
@@ -359,175 +648,1244 @@ export class ChatGateway
   }
 
   /**
-   * Handle request for recent messages
+   * Handle editing a message (author only)
    */
-  @SubscribeMessage('getRecentMessages')
-  async handleGetRecentMessages(
-    @MessageBody() payload: { limit?: number },
+  @SubscribeMessage('editMessage')
+  async handleEditMessage(
+    @MessageBody() payload: { messageId: string; text: string },
     @ConnectedSocket() client: Socket,
   ) {
-    this.logger.log(`📜 Get recent messages request`);
+    this.logger.log(`✏️ Edit request: ${JSON.stringify(payload)}`);
 
     try {
-      const limit = payload?.limit || 50;
+      const limited = await this.checkRateLimit(client, 'editMessage');
+      if (limited) {
+        return limited;
+      }
 
-      // Try to get from Redis cache first
-      let messages = await this.redisService.getCachedMessages(limit);
+      const { userId } = this.getAuthUser(client);
 
-      // If not in cache, get from database
-      if (!messages || messages.length === 0) {
-        this.logger.log('📂 Loading messages from database...');
-        messages = await this.messageService.getRecentMessages(limit);
+      const forbidden = await this.checkPermission(
+        client,
+        userId,
+        'message:edit',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
 
-        // Cache for future requests
-        if (messages.length > 0) {
-          await this.redisService.cacheRecentMessages(messages, limit);
-        }
-      } else {
-        this.logger.log('⚡ Loaded messages from Redis cache');
+      const { messageId, text } = payload;
+
+      // Validate payload
+      if (!messageId || !text) {
+        const error = { message: 'messageId and text are required' };
+        this.logger.error(`❌ Edit failed: Missing fields`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
       }
 
-      client.emit('recentMessages', {
-        success: true,
-        data: messages,
-        count: messages.length,
-      });
+      const message = await this.messageService.editMessage(
+        messageId,
+        userId,
+        text,
+      );
 
-      this.logger.log(`✅ Sent ${messages.length} recent messages`);
+      // Broadcast to everyone who can see the message
+      this.realtimeService.emitForMessage(message, 'messageEdited', message);
 
-      return { success: true, count: messages.length };
+      this.logger.log(`✅ Message ${messageId} edited by ${userId}`);
+
+      return { success: true, message };
     } catch (error) {
-      this.logger.error(`❌ Get recent messages error: ${error.message}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Edit message error: ${errorMessage}`);
       client.emit('error', {
-        message: 'Failed to get recent messages',
-        error: error.message,
+        message: 'Failed to edit message',
+        error: errorMessage,
       });
-      return { success: false, error: error.message };
+      return { success: false, error: errorMessage };
     }
   }
 
   /**
-   * Handle typing indicator
+   * Handle deleting a message (author or moderator)
    */
-  @SubscribeMessage('typing')
-  handleTyping(
-    @MessageBody() payload: { userId: string; username: string },
+  @SubscribeMessage('deleteMessage')
+  async handleDeleteMessage(
+    @MessageBody() payload: { messageId: string },
     @ConnectedSocket() client: Socket,
   ) {
-    this.logger.log(`⌨️ User ${payload.username} is typing`);
+    this.logger.log(`🗑️ Delete request: ${JSON.stringify(payload)}`);
 
-    // Broadcast to all other clients (excluding sender)
-    client.broadcast.emit('userTyping', {
-      userId: payload.userId,
-      username: payload.username,
-    });
+    try {
+      const limited = await this.checkRateLimit(client, 'deleteMessage');
+      if (limited) {
+        return limited;
+      }
 
-    return { success: true };
+      const { userId } = this.getAuthUser(client);
+
+      const forbidden = await this.checkPermission(
+        client,
+        userId,
+        'message:delete:own',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const { messageId } = payload;
+
+      // Validate payload
+      if (!messageId) {
+        const error = { message: 'messageId is required' };
+        this.logger.error(`❌ Delete failed: Missing messageId`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const message = await this.messageService.deleteMessage(
+        messageId,
+        userId,
+        await this.userService.hasPermission(userId, 'message:delete:any'),
+      );
+
+      // Broadcast to everyone who can see the message
+      this.realtimeService.emitForMessage(message, 'messageDeleted', message);
+      if (!message.conversationId) {
+        void this.webhookService.dispatch('message.deleted', message);
+      }
+      if (message.parentId) {
+        await this.emitThreadUpdated(String(message.parentId));
+      }
+
+      this.logger.log(`✅ Message ${messageId} deleted by ${userId}`);
+
+      return { success: true, message };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Delete message error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to delete message',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
   }
 
   /**
-   * Handle stop typing indicator
+   * Handle adding a reaction to a message
    */
-  @SubscribeMessage('stopTyping')
-  handleStopTyping(
-    @MessageBody() payload: { userId: string },
+  @SubscribeMessage('addReaction')
+  async handleAddReaction(
+    @MessageBody() payload: { messageId: string; emoji: string },
     @ConnectedSocket() client: Socket,
   ) {
-    this.logger.log(`⌨️ User ${payload.userId} stopped typing`);
+    return await this.updateReaction(payload, client, 'add');
+  }
 
-    client.broadcast.emit('userStoppedTyping', {
-      userId: payload.userId,
-    });
+  /**
+   * Handle removing a reaction from a message
+   */
+  @SubscribeMessage('removeReaction')
+  async handleRemoveReaction(
+    @MessageBody() payload: { messageId: string; emoji: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    return await this.updateReaction(payload, client, 'remove');
+  }
 
-    return { success: true };
+  /**
+   * Send a parent message's new reply count to clients that can see it
+   */
+  private async emitThreadUpdated(parentId: string): Promise<void> {
+    const parent = await this.messageService.findById(parentId);
+    this.realtimeService.emitForMessage(parent, 'threadUpdated', {
+      messageId: parentId,
+      replyCount: parent.replyCount,
+      lastReplyAt: parent.lastReplyAt,
+    });
   }
 
   /**
-   * Handle get online users request
+   * Apply a reaction change and broadcast the new reaction totals
    */
-  @SubscribeMessage('getOnlineUsers')
-  async handleGetOnlineUsers(@ConnectedSocket() client: Socket) {
-    this.logger.log(`👥 Get online users request`);
+  private async updateReaction(
+    payload: { messageId: string; emoji: string },
+    client: Socket,
+    action: 'add' | 'remove',
+  ) {
+    this.logger.log(`😀 Reaction ${action}: ${JSON.stringify(payload)}`);
 
     try {
-      // Get online user IDs from Redis
-      const onlineUserIds = await this.redisService.getOnlineUsers();
+      const limited = await this.checkRateLimit(client, 'reaction');
+      if (limited) {
+        return limited;
+      }
 
-      // Get user details from local map or Redis
-      const onlineUsers: { userId: string; username: string; _id?: string }[] =
-        [];
+      const { userId } = this.getAuthUser(client);
 
-      for (const userId of onlineUserIds) {
-        let userData = this.connectedUsers.get(userId);
+      const forbidden = await this.checkPermission(
+        client,
+        userId,
+        'message:react',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
 
-        if (!userData) {
-          userData = await this.redisService.getUserSession(userId);
-        }
+      const { messageId, emoji } = payload;
 
-        if (userData) {
-          onlineUsers.push({
-            userId: userData.userId,
-            username: userData.username,
-            _id: userData._id,
-          });
-        }
+      // Validate payload
+      if (!messageId || !emoji) {
+        const error = { message: 'messageId and emoji are required' };
+        this.logger.error(`❌ Reaction failed: Missing fields`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
       }
 
-      client.emit('onlineUsers', {
-        success: true,
-        data: onlineUsers,
-        count: onlineUsers.length,
-      });
+      const message =
+        action === 'add'
+          ? await this.messageService.addReaction(messageId, userId, emoji)
+          : await this.messageService.removeReaction(messageId, userId, emoji);
 
-      this.logger.log(`✅ Sent ${onlineUsers.length} online users`);
+      // Broadcast to everyone who can see the message
+      this.realtimeService.emitForMessage(message, 'reactionUpdated', {
+        messageId,
+        reactions: message.reactions,
+        reactionCounts: message.reactionCounts,
+      });
 
-      return { success: true };
+      return { success: true, message };
     } catch (error) {
-      this.logger.error(`❌ Get online users error: ${error.message}`);
-      return { success: false, error: error.message };
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Reaction error: ${errorMessage}`);
+      client.emit('error', {
+        message: `Failed to ${action} reaction`,
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
     }
   }
 
   /**
-   * Handle user leaving the chat
+   * Handle sending a direct message to another user
    */
-  @SubscribeMessage('leave')
-  async handleLeave(
-    @MessageBody() payload: { userId: string },
+  @SubscribeMessage('sendDirectMessage')
+  async handleSendDirectMessage(
+    @MessageBody()
+    payload: { recipientId: string; text?: string; attachmentIds?: string[] },
     @ConnectedSocket() client: Socket,
   ) {
-    this.logger.log(`👋 Leave request from ${payload.userId}`);
+    this.logger.log(`✉️ Direct message received: ${JSON.stringify(payload)}`);
 
     try {
-      const { userId } = payload;
+      const limited = await this.checkRateLimit(client, 'sendMessage');
+      if (limited) {
+        return limited;
+      }
 
-      // Remove from local maps
-      this.userSockets.delete(userId);
-      this.socketUsers.delete(client.id);
-      const userData = this.connectedUsers.get(userId);
-      this.connectedUsers.delete(userId);
+      const { userId } = this.getAuthUser(client);
+
+      const forbidden = await this.checkPermission(
+        client,
+        userId,
+        'message:send',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const muted = await this.checkMuted(client, userId);
+      if (muted) {
+        return muted;
+      }
+      const { recipientId, text, attachmentIds } = payload;
+
+      // Validate payload
+      if (!this.isIdList(attachmentIds)) {
+        const error = { message: 'attachmentIds must be a list of IDs' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      if (!recipientId || (!text && !attachmentIds?.length)) {
+        const error = {
+          message: 'recipientId and text or attachments are required',
+        };
+        this.logger.error(`❌ Direct message failed: Missing fields`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
 
-      // Remove from Redis
-      await this.redisService.removeOnlineUser(userId);
-      await this.redisService.deleteUserSession(userId);
+      const userData =
+        this.connectedUsers.get(userId) ||
+        ((await this.redisService.getUserSession(
+          userId,
+        )) as ConnectedUser | null);
 
-      // Update database
-      if (userData?._id) {
-        await this.userService.updateStatus(userData._id, 'offline');
+      if (!userData) {
+        const error = { message: 'User not found. Please join first.' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
       }
 
-      // Broadcast to all servers
-      this.server.emit('userLeft', {
+      // Make sure the recipient exists
+      await this.userService.findById(recipientId);
+
+      const conversation = await this.conversationService.findOrCreate(
         userId,
-        username: userData?.username,
-        timestamp: new Date(),
-      });
+        recipientId,
+      );
 
-      // Update online count
-      const onlineCount = await this.redisService.getOnlineCount();
-      this.server.emit('onlineCount', onlineCount);
+      // Is any of the recipient's devices connected (on any server instance)?
+      const recipientOnline = await this.redisService.isUserOnline(recipientId);
+
+      const messageData = {
+        userId,
+        username: userData.username,
+        text: text?.trim() ?? '',
+        conversationId: String(conversation._id),
+        attachmentIds,
+        recipientId,
+        deliveredAt: recipientOnline ? new Date() : null,
+        timestamp: new Date(),
+      };
+
+      const savedMessage = await this.messageService.createMessage(messageData);
+      await this.conversationService.touch(
+        String(conversation._id),
+        savedMessage.timestamp,
+      );
+
+      // Deliver to every device of the recipient (routed across servers by
+      // the Redis adapter); offline recipients get it when they next join
+      if (recipientOnline) {
+        this.realtimeService.emitToUser(
+          recipientId,
+          'directMessage',
+          savedMessage,
+        );
+      }
+
+      // Echo to all of the sender's devices so their views stay in sync
+      this.realtimeService.emitToUser(userId, 'directMessage', savedMessage);
+      if (recipientOnline) {
+        this.realtimeService.emitToUser(userId, 'messageDelivered', {
+          messageId: String(savedMessage._id),
+          conversationId: messageData.conversationId,
+          deliveredAt: savedMessage.deliveredAt,
+        });
+      }
+
+      this.logger.log(
+        `✅ Direct message from ${userData.username} to ${recipientId} ${
+          recipientOnline ? 'delivered' : 'stored for later delivery'
+        }`,
+      );
+
+      return {
+        success: true,
+        status: recipientOnline ? 'delivered' : 'sent',
+        message: savedMessage,
+        conversation,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `❌ Send direct message error: ${errorMessage}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      client.emit('error', {
+        message: 'Failed to send direct message',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Issue a kick, mute or ban on behalf of the moderator behind a socket
+   */
+  private async applySanction(
+    type: 'kick' | 'mute' | 'ban',
+    payload: { userId: string } & SanctionDto,
+    client: Socket,
+  ) {
+    const { userId: moderatorId } = this.getAuthUser(client);
+    this.logger.log(`🛡️ ${type} of ${payload?.userId} by ${moderatorId}`);
+
+    try {
+      const forbidden = await this.checkPermission(
+        client,
+        moderatorId,
+        'user:sanction',
+      );
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const { userId, reason, duration, ip } = payload ?? {};
+
+      // Validate payload
+      if (!userId) {
+        const error = { message: 'userId is required' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+      if (
+        duration !== undefined &&
+        (!Number.isInteger(duration) ||
+          duration < 1 ||
+          duration > MAX_SANCTION_DURATION)
+      ) {
+        const error = {
+          message: `duration must be an integer from 1 to ${MAX_SANCTION_DURATION}`,
+        };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const sanctionDto: SanctionDto = {
+        reason: typeof reason === 'string' ? reason.slice(0, 200) : undefined,
+        duration,
+        ip: ip === true,
+      };
+      const sanction =
+        type === 'kick'
+          ? await this.sanctionService.kick(userId, moderatorId, sanctionDto)
+          : type === 'mute'
+            ? await this.sanctionService.mute(userId, moderatorId, sanctionDto)
+            : await this.sanctionService.ban(userId, moderatorId, sanctionDto);
+
+      return { success: true, sanction };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Sanction error: ${errorMessage}`);
+      client.emit('error', {
+        message: `Failed to ${type} user`,
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Forget one socket of a user; when it was their last one (across all
+   * instances) mark them offline and tell everyone they left
+   */
+  private async removeUserSocket(userId: string, client: Socket) {
+    // Remove from local maps
+    this.socketUsers.delete(client.id);
+    const sockets = this.userSockets.get(userId);
+    sockets?.delete(client.id);
+    const userData = this.connectedUsers.get(userId);
+    if (!sockets?.size) {
+      this.userSockets.delete(userId);
+      this.connectedUsers.delete(userId);
+    }
+
+    const wentOffline = await this.presenceService.removeSocket(
+      userId,
+      client.id,
+    );
+    if (!wentOffline) {
+      return;
+    }
+
+    await this.redisService.deleteUserSession(userId);
+    const previous = await this.userService.disconnect(userId);
+
+    // Others already see invisible users as offline
+    if (previous.status !== 'invisible') {
+      // Broadcast user left event to all servers
+      const left = {
+        userId,
+        username: userData?.username,
+        timestamp: new Date(),
+      };
+      this.server.emit('userLeft', left);
+      void this.webhookService.dispatch('user.left', left);
+    }
+
+    // Update and broadcast online count
+    const onlineCount = await this.redisService.getOnlineCount();
+    this.server.emit('onlineCount', onlineCount);
+
+    this.logger.log(`👋 User ${userData?.username} (${userId}) left`);
+  }
+
+  /**
+   * /nick: rename the account, then update every session of the user
+   */
+  private async changeNick({
+    userId,
+    username,
+    args,
+  }: CommandContext): Promise<CommandResult> {
+    const { accessToken, user } = await this.authService.changeUsername(
+      userId,
+      args[0],
+    );
+
+    this.applyRename(userId, user.username);
+    this.server.serverSideEmit('userRenamed', userId, user.username);
+
+    const session = (await this.redisService.getUserSession(
+      userId,
+    )) as ConnectedUser | null;
+    if (session) {
+      await this.redisService.setUserSession(
+        userId,
+        { ...session, username: user.username },
+        7200,
+      );
+    }
+
+    // Others already see invisible users as offline
+    if (user.status !== 'invisible') {
+      this.server.emit('userRenamed', {
+        userId,
+        oldUsername: username,
+        username: user.username,
+        timestamp: new Date(),
+      });
+    }
+
+    // Other devices have to sign in again: their tokens carry the old name
+    return {
+      type: 'reply',
+      text: `You are now known as ${user.username}`,
+      data: { username: user.username, accessToken },
+    };
+  }
+
+  /**
+   * Use a new username for the user's sockets and session on this instance
+   */
+  private applyRename(userId: string, username: string): void {
+    const userData = this.connectedUsers.get(userId);
+    if (userData) {
+      this.connectedUsers.set(userId, { ...userData, username });
+    }
+
+    for (const socketId of this.userSockets.get(userId) ?? []) {
+      const socket = this.server.sockets.sockets.get(socketId);
+      if (socket) {
+        this.getAuthUser(socket).username = username;
+      }
+    }
+  }
+
+  /**
+   * Send a user the direct messages that arrived while they were offline
+   */
+  private async deliverPendingDirectMessages(userId: string, client: Socket) {
+    try {
+      const pending =
+        await this.messageService.getUndeliveredDirectMessages(userId);
+
+      if (pending.length === 0) {
+        return;
+      }
+
+      client.emit('pendingDirectMessages', {
+        success: true,
+        data: pending,
+        count: pending.length,
+      });
+
+      const deliveredAt = new Date();
+      await this.messageService.markDelivered(
+        pending.map((message) => String(message._id)),
+        deliveredAt,
+      );
+
+      // Let the senders know their messages arrived
+      for (const message of pending) {
+        const authorId = getMessageAuthorId(message);
+        if (authorId) {
+          this.realtimeService.emitToUser(authorId, 'messageDelivered', {
+            messageId: String(message._id),
+            conversationId: String(message.conversationId),
+            deliveredAt,
+          });
+        }
+      }
+
+      this.logger.log(
+        `📬 Delivered ${pending.length} pending direct messages to ${userId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to deliver pending direct messages: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Handle marking a message (and everything before it) as read
+   */
+  @SubscribeMessage('markRead')
+  async handleMarkRead(
+    @MessageBody() payload: { messageId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const limited = await this.checkRateLimit(client, 'markRead');
+      if (limited) {
+        return limited;
+      }
+
+      const { userId } = this.getAuthUser(client);
+      const { messageId } = payload;
+
+      // Validate payload
+      if (!messageId) {
+        const error = { message: 'messageId is required' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const { message, advanced } = await this.receiptService.markRead(
+        userId,
+        messageId,
+      );
+      const scope = getReadScope(message);
+
+      // Tell the author (unless they are reading their own message)
+      const authorId = getMessageAuthorId(message);
+      if (advanced && authorId && authorId !== userId) {
+        this.realtimeService.emitToUser(authorId, 'messageRead', {
+          messageId,
+          scope,
+          readerId: userId,
+          readAt: new Date(),
+        });
+      }
+
+      return { success: true, status: 'read', scope };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Mark read error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to mark message as read',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Mark inbox notifications as read (all of them when no IDs are given)
+   */
+  @SubscribeMessage('markNotificationsRead')
+  async handleMarkNotificationsRead(
+    @MessageBody() payload: { notificationIds?: string[] } | undefined,
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const limited = await this.checkRateLimit(
+        client,
+        'markNotificationsRead',
+      );
+      if (limited) {
+        return limited;
+      }
+
+      const { userId } = this.getAuthUser(client);
+      const notificationIds = payload?.notificationIds;
+
+      // Validate payload
+      if (!this.isIdList(notificationIds)) {
+        const error = { message: 'notificationIds must be a list of IDs' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const unreadCounts = await this.notificationService.markRead(
+        userId,
+        notificationIds,
+      );
+
+      return { success: true, unreadCounts };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Mark notifications read error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to mark notifications as read',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * List the slash commands the user may run (for autocomplete)
+   */
+  @SubscribeMessage('listCommands')
+  async handleListCommands(@ConnectedSocket() client: Socket) {
+    try {
+      const limited = await this.checkRateLimit(client, 'listCommands');
+      if (limited) {
+        return limited;
+      }
+
+      const { userId } = this.getAuthUser(client);
+      const commands = await this.commandRegistry.list(userId);
+
+      client.emit('commands', {
+        success: true,
+        data: commands,
+        count: commands.length,
+      });
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ List commands error: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle request for recent messages
+   */
+  @SubscribeMessage('getRecentMessages')
+  async handleGetRecentMessages(
+    @MessageBody() payload: { limit?: number; roomId?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.logger.log(`📜 Get recent messages request`);
+
+    try {
+      const limited = await this.checkRateLimit(client, 'getRecentMessages');
+      if (limited) {
+        return limited;
+      }
+
+      const limit = payload?.limit || 50;
+      const roomId = payload?.roomId;
+
+      // Room history is only available to sockets that joined the room
+      if (roomId && !client.rooms.has(roomChannel(roomId))) {
+        const error = { message: 'Join the room before loading its history' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      // Try to get from Redis cache first
+      let messages = await this.redisService.getCachedMessages(limit, roomId);
+
+      // If not in cache, get from database
+      if (!messages || messages.length === 0) {
+        this.logger.log('📂 Loading messages from database...');
+        messages = await this.messageService.getRecentMessages(limit, roomId);
+
+        // Cache for future requests
+        if (messages.length > 0) {
+          await this.redisService.cacheRecentMessages(messages, limit, roomId);
+        }
+      } else {
+        this.logger.log('⚡ Loaded messages from Redis cache');
+      }
+
+      client.emit('recentMessages', {
+        success: true,
+        roomId: roomId || null,
+        data: messages,
+        count: messages.length,
+      });
+
+      this.logger.log(`✅ Sent ${messages.length} recent messages`);
+
+      return { success: true, count: messages.length };
+    } catch (error) {
+      this.logger.error(`❌ Get recent messages error: ${error.message}`);
+      client.emit('error', {
+        message: 'Failed to get recent messages',
+        error: error.message,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Handle loading a page of history before or after a cursor
+   */
+  @SubscribeMessage('loadHistory')
+  async handleLoadHistory(
+    @MessageBody()
+    payload: {
+      roomId?: string;
+      before?: string;
+      after?: string;
+      limit?: number;
+    },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const limited = await this.checkRateLimit(client, 'loadHistory');
+      if (limited) {
+        return limited;
+      }
+
+      const { roomId, before, after } = payload || {};
+      const limit = Math.min(Math.max(payload?.limit || 50, 1), 100);
+
+      // Room history is only available to sockets that joined the room
+      if (roomId && !client.rooms.has(roomChannel(roomId))) {
+        const error = { message: 'Join the room before loading its history' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const { messages, cursors, hasMore } =
+        await this.messageService.getHistory({ roomId, before, after, limit });
+
+      const response = {
+        success: true,
+        roomId: roomId || null,
+        before: before || null,
+        after: after || null,
+        data: messages,
+        count: messages.length,
+        cursors,
+        hasMore,
+      };
+      client.emit('history', response);
+
+      return response;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Load history error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to load history',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle full-text message search
+   */
+  @SubscribeMessage('searchMessages')
+  async handleSearchMessages(
+    @MessageBody() payload: SearchMessagesDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const { userId } = this.getAuthUser(client);
+
+      const limited = await this.checkRateLimit(client, 'searchMessages');
+      if (limited) {
+        return limited;
+      }
+
+      // Validate payload
+      if (!payload?.q?.trim()) {
+        const error = { message: 'q is required' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      const { results, nextCursor, hasMore } =
+        await this.messageService.searchMessages(userId, {
+          ...payload,
+          limit: Math.min(Math.max(Number(payload.limit) || 20, 1), 50),
+        });
+
+      const response = {
+        success: true,
+        q: payload.q,
+        data: results,
+        count: results.length,
+        nextCursor,
+        hasMore,
+      };
+      client.emit('searchResults', response);
+
+      return response;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Search error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to search messages',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle typing indicator
+   */
+  @SubscribeMessage('typing')
+  async handleTyping(
+    @MessageBody() payload: { roomId?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { userId, username } = this.getAuthUser(client);
+
+    const limited = await this.checkRateLimit(client, 'typing');
+    if (limited) {
+      return limited;
+    }
+
+    const notInRoom = this.checkInRoom(client, payload?.roomId);
+    if (notInRoom) {
+      return notInRoom;
+    }
+
+    this.logger.log(`⌨️ User ${username} is typing`);
+
+    // Broadcast to all other clients in the same room (excluding sender)
+    const target = payload?.roomId
+      ? client.to(roomChannel(payload.roomId))
+      : client.broadcast;
+    target.emit('userTyping', {
+      userId,
+      username,
+      roomId: payload?.roomId || null,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Handle stop typing indicator
+   */
+  @SubscribeMessage('stopTyping')
+  async handleStopTyping(
+    @MessageBody() payload: { roomId?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { userId } = this.getAuthUser(client);
+
+    const limited = await this.checkRateLimit(client, 'stopTyping');
+    if (limited) {
+      return limited;
+    }
+
+    const notInRoom = this.checkInRoom(client, payload?.roomId);
+    if (notInRoom) {
+      return notInRoom;
+    }
+
+    this.logger.log(`⌨️ User ${userId} stopped typing`);
+
+    const target = payload?.roomId
+      ? client.to(roomChannel(payload.roomId))
+      : client.broadcast;
+    target.emit('userStoppedTyping', {
+      userId,
+      roomId: payload?.roomId || null,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Handle joining a chat room
+   */
+  @SubscribeMessage('joinRoom')
+  async handleJoinRoom(
+    @MessageBody() payload: { roomId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.logger.log(`🚪 Join room request: ${JSON.stringify(payload)}`);
+
+    try {
+      const limited = await this.checkRateLimit(client, 'joinRoom');
+      if (limited) {
+        return limited;
+      }
+
+      const userId = this.socketUsers.get(client.id);
+      const roomId = payload?.roomId;
+
+      if (!userId) {
+        const error = { message: 'User not found. Please join first.' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      if (!roomId) {
+        const error = { message: 'roomId is required' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      let room = await this.roomService.findById(roomId);
+
+      if (!this.roomService.canAccess(room, userId)) {
+        const error = { message: 'This room is private' };
+        this.logger.error(`❌ Join room failed: ${userId} not a member`);
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      if (room.archived) {
+        const error = { message: 'This room is archived' };
+        client.emit('error', error);
+        return { success: false, error: error.message };
+      }
+
+      // Joining a public room makes the user a member
+      if (!room.members.includes(userId)) {
+        room = await this.roomService.addMember(roomId, userId);
+      }
+
+      await client.join(roomChannel(roomId));
+
+      const userData = this.connectedUsers.get(userId);
+
+      // Notify the other sockets in the room
+      client.to(roomChannel(roomId)).emit('userJoinedRoom', {
+        roomId,
+        userId,
+        username: userData?.username,
+        timestamp: new Date(),
+      });
+
+      client.emit('roomJoined', {
+        room,
+        message: `Successfully joined ${room.name}`,
+      });
+
+      this.logger.log(`✅ User ${userId} joined room ${room.name}`);
+
+      return { success: true, room };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Join room error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to join room',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle leaving a chat room (membership is kept, the socket just
+   * stops receiving the room's events)
+   */
+  @SubscribeMessage('leaveRoom')
+  async handleLeaveRoom(
+    @MessageBody() payload: { roomId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.logger.log(`👋 Leave room request: ${JSON.stringify(payload)}`);
+
+    const roomId = payload?.roomId;
+    if (!roomId) {
+      const error = { message: 'roomId is required' };
+      client.emit('error', error);
+      return { success: false, error: error.message };
+    }
+
+    const userId = this.socketUsers.get(client.id);
+    const userData = userId ? this.connectedUsers.get(userId) : undefined;
+
+    // Only announce sockets that were actually in the room
+    if (client.rooms.has(roomChannel(roomId))) {
+      await client.leave(roomChannel(roomId));
+
+      this.server.to(roomChannel(roomId)).emit('userLeftRoom', {
+        roomId,
+        userId,
+        username: userData?.username,
+        timestamp: new Date(),
+      });
+    }
+
+    client.emit('roomLeft', { roomId });
+
+    return { success: true };
+  }
+
+  /**
+   * Handle changing the user's status and custom status text
+   */
+  @SubscribeMessage('setPresence')
+  async handleSetPresence(
+    @MessageBody() payload: UpdatePresenceDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { userId } = this.getAuthUser(client);
+    this.logger.log(`🟢 Presence update from ${userId}`);
+
+    try {
+      const limited = await this.checkRateLimit(client, 'setPresence');
+      if (limited) {
+        return limited;
+      }
+
+      // Validate payload
+      const { status, statusText, statusExpiresAt } = payload ?? {};
+      let invalid: string | undefined;
+      if (status !== undefined && !PRESENCE_STATUSES.includes(status)) {
+        invalid = `status must be one of ${PRESENCE_STATUSES.join(', ')}`;
+      } else if (
+        statusText !== undefined &&
+        (typeof statusText !== 'string' || statusText.length > 140)
+      ) {
+        invalid = 'statusText must be a string of at most 140 characters';
+      } else if (
+        statusExpiresAt !== undefined &&
+        isNaN(Date.parse(statusExpiresAt))
+      ) {
+        invalid = 'statusExpiresAt must be a date';
+      }
+
+      if (invalid) {
+        client.emit('error', { message: invalid });
+        return { success: false, error: invalid };
+      }
+
+      const user = await this.userService.setPresence(userId, {
+        status,
+        statusText,
+        statusExpiresAt,
+      });
+      this.presenceService.broadcastPresence(user);
+
+      return { success: true, presence: toPresence(user, true) };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Presence update error: ${errorMessage}`);
+      client.emit('error', {
+        message: 'Failed to update presence',
+        error: errorMessage,
+      });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle a client activity ping (keeps the user from going idle)
+   */
+  @SubscribeMessage('activity')
+  async handleActivity(@ConnectedSocket() client: Socket) {
+    const { userId } = this.getAuthUser(client);
+
+    const limited = await this.checkRateLimit(client, 'activity');
+    if (limited) {
+      return limited;
+    }
+
+    try {
+      await this.presenceService.recordActivity(userId);
+      return { success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Activity error: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Handle a moderator kicking a user (disconnects all their sockets)
+   */
+  @SubscribeMessage('kickUser')
+  async handleKickUser(
+    @MessageBody() payload: { userId: string } & SanctionDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    return await this.applySanction('kick', payload, client);
+  }
+
+  /**
+   * Handle a moderator muting a user for a duration
+   */
+  @SubscribeMessage('muteUser')
+  async handleMuteUser(
+    @MessageBody() payload: { userId: string } & SanctionDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    return await this.applySanction('mute', payload, client);
+  }
+
+  /**
+   * Handle a moderator banning a user (optionally also their address)
+   */
+  @SubscribeMessage('banUser')
+  async handleBanUser(
+    @MessageBody() payload: { userId: string } & SanctionDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    return await this.applySanction('ban', payload, client);
+  }
+
+  /**
+   * Handle get online users request
+   */
+  @SubscribeMessage('getOnlineUsers')
+  async handleGetOnlineUsers(@ConnectedSocket() client: Socket) {
+    this.logger.log(`👥 Get online users request`);
+
+    try {
+      // Get online user IDs from Redis
+      const onlineUserIds = await this.redisService.getOnlineUsers();
+
+      // Invisible users are connected but must not be listed
+      const visibleUsers = new Map(
+        (await this.userService.getOnlineUsers()).map((user) => [
+          String(user._id),
+          user,
+        ]),
+      );
+
+      const onlineUsers = onlineUserIds
+        .filter((userId) => visibleUsers.has(userId))
+        .map((userId) => ({
+          ...toPresence(visibleUsers.get(userId)!),
+          _id: userId,
+        }));
+
+      client.emit('onlineUsers', {
+        success: true,
+        data: onlineUsers,
+        count: onlineUsers.length,
+      });
+
+      this.logger.log(`✅ Sent ${onlineUsers.length} online users`);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`❌ Get online users error: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Handle user leaving the chat
+   */
+  @SubscribeMessage('leave')
+  async handleLeave(@ConnectedSocket() client: Socket) {
+    const { userId } = this.getAuthUser(client);
+    this.logger.log(`👋 Leave request from ${userId}`);
+
+    try {
+      await client.leave(userChannel(userId));
+      await this.removeUserSocket(userId, client);
 
-      this.logger.log(`✅ User ${userData?.username} left successfully`);
+      this.logger.log(`✅ Socket ${client.id} of ${userId} left successfully`);
 
       return { success: true };
     } catch (error) {
@@ -2,10 +2,29 @@ import { Module } from '@nestjs/common';
 import { ChatGateway } from './chat.gateway';
 import { MessageModule } from '../message/message.module';
 import { UserModule } from '../user/user.module';
+import { RoomModule } from '../room/room.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { ReceiptModule } from '../receipt/receipt.module';
+import { PresenceModule } from '../presence/presence.module';
+import { SanctionModule } from '../sanction/sanction.module';
+import { NotificationModule } from '../notification/notification.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { CommandModule } from '../command/command.module';
 // RedisModule is global, so no need to import it here
 
 @Module({
-  imports: [MessageModule, UserModule],
+  imports: [
+    MessageModule,
+    UserModule,
+    RoomModule,
+    ConversationModule,
+    ReceiptModule,
+    PresenceModule,
+    SanctionModule,
+    NotificationModule,
+    WebhookModule,
+    CommandModule,
+  ],
   providers: [ChatGateway],
   exports: [ChatGateway],
 })
@@ -0,0 +1,40 @@
+import { parseCommand, unescapeCommand } from './command-parser.util';
+
+describe('parseCommand', () => {
+  it('should split the name and arguments', () => {
+    expect(parseCommand('/Topic  Release "v2.0" today ')).toEqual({
+      name: 'topic',
+      args: ['Release', 'v2.0', 'today'],
+      rawArgs: 'Release "v2.0" today',
+    });
+  });
+
+  it('should keep quoted arguments together', () => {
+    expect(parseCommand(`/nick "big al" 'and more'`)?.args).toEqual([
+      'big al',
+      'and more',
+    ]);
+  });
+
+  it('should parse commands without arguments', () => {
+    expect(parseCommand('/help')).toEqual({
+      name: 'help',
+      args: [],
+      rawArgs: '',
+    });
+  });
+
+  it('should ignore regular messages, paths and escaped slashes', () => {
+    expect(parseCommand('hello /help')).toBeNull();
+    expect(parseCommand('/usr/bin is full')).toBeNull();
+    expect(parseCommand('//help')).toBeNull();
+    expect(parseCommand(undefined)).toBeNull();
+  });
+});
+
+describe('unescapeCommand', () => {
+  it('should drop the escaping slash only', () => {
+    expect(unescapeCommand('//help')).toBe('/help');
+    expect(unescapeCommand('/usr/bin')).toBe('/usr/bin');
+  });
+});
@@ -0,0 +1,41 @@
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+  rawArgs: string;
+}
+
+// "/name" followed by whitespace or the end of the text, so paths such as
+// "/usr/bin is full" stay regular messages
+const COMMAND_PATTERN = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i;
+const ARGUMENT_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+/**
+ * Parse a slash command typed into the message box
+ * @param text - Message text
+ * @returns The command, or null for regular messages (including "//" which
+ * escapes the slash)
+ */
+export const parseCommand = (
+  text: string | undefined,
+): ParsedCommand | null => {
+  const match = text?.trim().match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const rawArgs = (match[2] ?? '').trim();
+  const args = [...rawArgs.matchAll(ARGUMENT_PATTERN)].map(
+    ([, doubleQuoted, singleQuoted, word]) =>
+      doubleQuoted ?? singleQuoted ?? word,
+  );
+
+  return { name: match[1].toLowerCase(), args, rawArgs };
+};
+
+/**
+ * Text to send for a message that starts with an escaped slash ("//")
+ * @param text - Message text
+ * @returns The text with the escaping slash removed
+ */
+export const unescapeCommand = (text: string): string =>
+  text.startsWith('//') ? text.slice(1) : text;
@@ -0,0 +1,48 @@
+import type { Permission } from '../auth/permissions';
+
+/**
+ * Who ran a command and where
+ */
+export interface CommandContext {
+  userId: string;
+  username: string;
+  // Room the command was typed in (null for the lobby)
+  roomId: string | null;
+  // Arguments split on whitespace ("quoted words" stay together)
+  args: string[];
+  // Everything after the command name, as typed
+  rawArgs: string;
+}
+
+/**
+ * What happens after a command ran
+ * - reply: text shown only to the socket that ran the command
+ * - send: text posted as a regular message in place of the command
+ */
+export type CommandResult =
+  | { type: 'reply'; text: string; data?: Record<string, unknown> }
+  | { type: 'send'; text: string };
+
+export interface ChatCommand {
+  // Lowercase name typed after the slash
+  name: string;
+  aliases?: string[];
+  // Arguments shown in /help and autocomplete, e.g. "<name>"
+  usage?: string;
+  description: string;
+  // Required to run (and to see) the command
+  permission?: Permission;
+  // Fewer arguments show the usage instead of running the command
+  minArgs?: number;
+  execute(context: CommandContext): Promise<CommandResult> | CommandResult;
+}
+
+/**
+ * A command as listed to clients (listCommands, /help)
+ */
+export interface CommandSummary {
+  name: string;
+  aliases: string[];
+  usage: string;
+  description: string;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CommandRegistry } from './command.registry';
+import { CoreCommandsService } from './core-commands.service';
+import { UserModule } from '../user/user.module';
+import { RoomModule } from '../room/room.module';
+
+@Module({
+  imports: [UserModule, RoomModule],
+  providers: [CommandRegistry, CoreCommandsService],
+  exports: [CommandRegistry],
+})
+export class CommandModule {}
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CommandRegistry } from './command.registry';
+import { parseCommand, ParsedCommand } from './command-parser.util';
+import { UserService } from '../user/user.service';
+
+describe('CommandRegistry', () => {
+  let commandRegistry: CommandRegistry;
+  const execute = jest.fn();
+  const userService = {
+    getRole: jest.fn(),
+    hasPermission: jest.fn(),
+  };
+  const context = { userId: 'u1', username: 'alice', roomId: null };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    execute.mockResolvedValue({ type: 'reply', text: 'pong' });
+    userService.getRole.mockResolvedValue('user');
+    userService.hasPermission.mockResolvedValue(false);
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommandRegistry,
+        { provide: UserService, useValue: userService },
+      ],
+    }).compile();
+
+    commandRegistry = app.get<CommandRegistry>(CommandRegistry);
+    commandRegistry.register({
+      name: 'ping',
+      aliases: ['p'],
+      usage: '<host>',
+      description: 'Ping',
+      minArgs: 1,
+      execute,
+    });
+    commandRegistry.register({
+      name: 'webhooks',
+      description: 'Manage webhooks',
+      permission: 'webhook:manage',
+      execute,
+    });
+  });
+
+  it('should run a command by name or alias with its arguments', async () => {
+    const { command, result } = await commandRegistry.execute(
+      parseCommand('/P "example com" 2') as ParsedCommand,
+      context,
+    );
+
+    expect(command.name).toBe('ping');
+    expect(result).toEqual({ type: 'reply', text: 'pong' });
+    expect(execute).toHaveBeenCalledWith({
+      ...context,
+      args: ['example com', '2'],
+      rawArgs: '"example com" 2',
+    });
+  });
+
+  it('should reject unknown commands, missing arguments and permissions', async () => {
+    await expect(
+      commandRegistry.execute({ name: 'nope', args: [], rawArgs: '' }, context),
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      commandRegistry.execute({ name: 'ping', args: [], rawArgs: '' }, context),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      commandRegistry.execute(
+        { name: 'webhooks', args: [], rawArgs: '' },
+        context,
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should only list the commands a user may run', async () => {
+    expect(
+      (await commandRegistry.list('u1')).map((command) => command.name),
+    ).toEqual(['ping']);
+
+    userService.getRole.mockResolvedValue('admin');
+    expect(
+      (await commandRegistry.list('admin')).map((command) => command.name),
+    ).toEqual(['ping', 'webhooks']);
+  });
+
+  it('should refuse a name that is already taken', () => {
+    expect(() =>
+      commandRegistry.register({ name: 'p', description: 'x', execute }),
+    ).toThrow('Command /p is already registered');
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ChatCommand,
+  CommandContext,
+  CommandResult,
+  CommandSummary,
+} from './command.interface';
+import { ParsedCommand } from './command-parser.util';
+import { UserService } from '../user/user.service';
+import { hasPermission } from '../auth/permissions';
+
+/**
+ * Command Registry - Slash commands typed into the message box
+ *
+ * Modules add their own commands by injecting the registry and calling
+ * register() from onModuleInit. The chat gateway runs a message through
+ * execute() instead of storing it when it starts with a command.
+ */
+@Injectable()
+export class CommandRegistry {
+  private readonly logger = new Logger(CommandRegistry.name);
+  private readonly commands = new Map<string, ChatCommand>();
+  // Alias or name -> command name
+  private readonly names = new Map<string, string>();
+
+  constructor(private readonly userService: UserService) {}
+
+  /**
+   * Add a command
+   * @param command - Command definition
+   * @throws Error if its name or an alias is already taken
+   */
+  register(command: ChatCommand): void {
+    const names = [command.name, ...(command.aliases ?? [])];
+    const taken = names.find((name) => this.names.has(name));
+    if (taken) {
+      throw new Error(`Command /${taken} is already registered`);
+    }
+
+    this.commands.set(command.name, command);
+    names.forEach((name) => this.names.set(name, command.name));
+    this.logger.log(`⌨️ Registered command /${command.name}`);
+  }
+
+  /**
+   * Find a command by name or alias
+   * @param name - Name typed after the slash
+   * @returns Command, or undefined if there is none
+   */
+  find(name: string): ChatCommand | undefined {
+    const commandName = this.names.get(name.toLowerCase());
+    return commandName ? this.commands.get(commandName) : undefined;
+  }
+
+  /**
+   * List the commands a user may run
+   * @param userId - User's MongoDB ObjectId
+   * @returns Commands sorted by name
+   */
+  async list(userId: string): Promise<CommandSummary[]> {
+    const role = await this.userService.getRole(userId);
+
+    return [...this.commands.values()]
+      .filter(
+        (command) =>
+          !command.permission || hasPermission(role, command.permission),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((command) => ({
+        name: command.name,
+        aliases: command.aliases ?? [],
+        usage: command.usage ?? '',
+        description: command.description,
+      }));
+  }
+
+  /**
+   * Run a command
+   * @param parsed - Command parsed from the message text
+   * @param context - Who ran the command and where
+   * @returns The command that ran and its result
+   * @throws NotFoundException if there is no such command
+   * @throws ForbiddenException if the user lacks the command's permission
+   * @throws BadRequestException if arguments are missing
+   */
+  async execute(
+    parsed: ParsedCommand,
+    context: Omit<CommandContext, 'args' | 'rawArgs'>,
+  ): Promise<{ command: ChatCommand; result: CommandResult }> {
+    const command = this.find(parsed.name);
+    if (!command) {
+      throw new NotFoundException(
+        `Unknown command /${parsed.name}. Type /help to see the available commands`,
+      );
+    }
+
+    if (
+      command.permission &&
+      !(await this.userService.hasPermission(
+        context.userId,
+        command.permission,
+      ))
+    ) {
+      throw new ForbiddenException(`You cannot use /${command.name}`);
+    }
+
+    if (parsed.args.length < (command.minArgs ?? 0)) {
+      throw new BadRequestException(
+        `Usage: /${command.name} ${command.usage ?? ''}`.trim(),
+      );
+    }
+
+    const result = await command.execute({
+      ...context,
+      args: parsed.args,
+      rawArgs: parsed.rawArgs,
+    });
+    return { command, result };
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  OnModuleInit,
+} from '@nestjs/common';
+import { CommandRegistry } from './command.registry';
+import { CommandContext, CommandResult } from './command.interface';
+import { RoomService } from '../room/room.service';
+import { UserService } from '../user/user.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { hasPermission } from '../auth/permissions';
+
+const MAX_TOPIC_LENGTH = 200;
+
+/**
+ * Built-in commands: /help, /me, /shrug, /topic and /who
+ * (/nick is registered by the chat gateway, which owns the sessions)
+ */
+@Injectable()
+export class CoreCommandsService implements OnModuleInit {
+  constructor(
+    private readonly commandRegistry: CommandRegistry,
+    private readonly roomService: RoomService,
+    private readonly userService: UserService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  onModuleInit() {
+    this.commandRegistry.register({
+      name: 'help',
+      aliases: ['commands'],
+      usage: '[command]',
+      description: 'List the commands you can use, or explain one',
+      execute: (context) => this.help(context),
+    });
+
+    this.commandRegistry.register({
+      name: 'me',
+      usage: '<action>',
+      description: 'Describe what you are doing (e.g. /me waves)',
+      permission: 'message:send',
+      minArgs: 1,
+      execute: ({ username, rawArgs }) => ({
+        type: 'send',
+        text: `*${username} ${rawArgs}*`,
+      }),
+    });
+
+    this.commandRegistry.register({
+      name: 'shrug',
+      usage: '[message]',
+      description: 'Append ¯\\_(ツ)_/¯ to your message',
+      permission: 'message:send',
+      execute: ({ rawArgs }) => ({
+        type: 'send',
+        text: `${rawArgs} ¯\\_(ツ)_/¯`.trim(),
+      }),
+    });
+
+    this.commandRegistry.register({
+      name: 'topic',
+      usage: '[text]',
+      description: "Show or change the room's topic",
+      execute: (context) => this.topic(context),
+    });
+
+    this.commandRegistry.register({
+      name: 'who',
+      description: 'List who is online here',
+      execute: (context) => this.who(context),
+    });
+  }
+
+  private async help({ userId, args }: CommandContext): Promise<CommandResult> {
+    const commands = await this.commandRegistry.list(userId);
+    const describe = (command: (typeof commands)[number]) =>
+      `/${command.name}${command.usage ? ` ${command.usage}` : ''} - ${command.description}`;
+
+    if (args.length) {
+      const name = args[0].replace(/^\//, '').toLowerCase();
+      const command = commands.find(
+        (candidate) =>
+          candidate.name === name || candidate.aliases.includes(name),
+      );
+      if (!command) {
+        throw new BadRequestException(`Unknown command /${name}`);
+      }
+
+      const aliases = command.aliases.length
+        ? `\nAliases: ${command.aliases.map((alias) => `/${alias}`).join(', ')}`
+        : '';
+      return { type: 'reply', text: `${describe(command)}${aliases}` };
+    }
+
+    return {
+      type: 'reply',
+      text: [
+        'Available commands:',
+        ...commands.map(describe),
+        'Start a message with // to send it as is',
+      ].join('\n'),
+    };
+  }
+
+  private async topic({
+    userId,
+    username,
+    roomId,
+    rawArgs,
+  }: CommandContext): Promise<CommandResult> {
+    if (!roomId) {
+      throw new BadRequestException('Topics can only be set in rooms');
+    }
+
+    const room = await this.roomService.findById(roomId);
+    if (!this.roomService.canAccess(room, userId)) {
+      throw new ForbiddenException('This room is private');
+    }
+
+    if (!rawArgs) {
+      return {
+        type: 'reply',
+        text: room.topic ? `Topic: ${room.topic}` : 'No topic is set',
+      };
+    }
+
+    if (room.archived) {
+      throw new ForbiddenException('This room is archived');
+    }
+    if (room.createdBy !== userId) {
+      const user = await this.userService.findById(userId);
+      if (!hasPermission(user.role, 'room:topic')) {
+        throw new ForbiddenException(
+          'Only the room creator or a moderator can change the topic',
+        );
+      }
+    }
+    if (rawArgs.length > MAX_TOPIC_LENGTH) {
+      throw new BadRequestException(
+        `Topics can be at most ${MAX_TOPIC_LENGTH} characters`,
+      );
+    }
+
+    const updated = await this.roomService.setTopic(roomId, rawArgs);
+    this.realtimeService.emitToRoom(roomId, 'roomTopicChanged', {
+      roomId,
+      topic: updated.topic,
+      changedBy: username,
+      timestamp: new Date(),
+    });
+
+    return { type: 'reply', text: `Topic set to: ${updated.topic}` };
+  }
+
+  private async who({
+    userId,
+    roomId,
+  }: CommandContext): Promise<CommandResult> {
+    let users = await this.userService.getOnlineUsers();
+
+    if (roomId) {
+      const room = await this.roomService.findById(roomId);
+      if (!this.roomService.canAccess(room, userId)) {
+        throw new ForbiddenException('This room is private');
+      }
+
+      const inRoom = new Set(await this.realtimeService.getRoomUserIds(roomId));
+      users = users.filter((user) => inRoom.has(String(user._id)));
+    }
+
+    const usernames = users.map((user) => user.username).sort();
+    const where = roomId ? 'in this room' : 'online';
+    return {
+      type: 'reply',
+      text: usernames.length
+        ? `${usernames.length} ${where}: ${usernames.join(', ')}`
+        : `Nobody ${where}`,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtModuleOptions } from '@nestjs/jwt';
+
+export const getJwtConfig = (
+  configService: ConfigService,
+): JwtModuleOptions => ({
+  secret: configService.getOrThrow<string>('JWT_SECRET'),
+  signOptions: {
+    expiresIn: configService.get('JWT_EXPIRES_IN', '1d'),
+  },
+});
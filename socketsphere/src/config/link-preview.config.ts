@@ -0,0 +1,15 @@
+import { ConfigService } from '@nestjs/config';
+import { HttpFetcher } from '../link-preview/fetcher/http-fetcher.interface';
+import { NodeHttpFetcher } from '../link-preview/fetcher/node-http.fetcher';
+
+/**
+ * Build the fetcher used for link previews
+ * (LINK_PREVIEW_TIMEOUT in ms, LINK_PREVIEW_MAX_BYTES)
+ */
+export const createLinkPreviewFetcher = (
+  configService: ConfigService,
+): HttpFetcher =>
+  new NodeHttpFetcher({
+    timeoutMs: Number(configService.get('LINK_PREVIEW_TIMEOUT', 5000)),
+    maxBytes: Number(configService.get('LINK_PREVIEW_MAX_BYTES', 512 * 1024)),
+  });
@@ -0,0 +1,34 @@
+import { ConfigService } from '@nestjs/config';
+import { StorageDriver } from '../attachment/storage/storage-driver.interface';
+import { LocalStorageDriver } from '../attachment/storage/local-storage.driver';
+import { S3StorageDriver } from '../attachment/storage/s3-storage.driver';
+
+/**
+ * Build the attachment storage driver selected by STORAGE_DRIVER
+ * ("local" by default, or "s3")
+ */
+export const createStorageDriver = (
+  configService: ConfigService,
+): StorageDriver => {
+  const driver = configService.get<string>('STORAGE_DRIVER', 'local');
+
+  if (driver === 's3') {
+    return new S3StorageDriver({
+      bucket: configService.getOrThrow<string>('S3_BUCKET'),
+      region: configService.get<string>('S3_REGION', 'us-east-1'),
+      endpoint: configService.get<string>('S3_ENDPOINT'),
+      accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY'),
+      forcePathStyle:
+        configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+    });
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+
+  return new LocalStorageDriver(
+    configService.get<string>('ATTACHMENT_STORAGE_DIR', './uploads'),
+  );
+};
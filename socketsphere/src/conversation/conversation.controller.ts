@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+import { MessageService } from '../message/message.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('conversations')
+@UseGuards(JwtAuthGuard)
+export class ConversationController {
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly messageService: MessageService,
+  ) {}
+
+  /**
+   * GET /conversations
+   * Get all conversations of the authenticated user
+   */
+  @Get()
+  async getConversations(@CurrentUser() user: AuthUser) {
+    const conversations = await this.conversationService.findForUser(
+      user.userId,
+    );
+    return {
+      success: true,
+      data: conversations,
+      count: conversations.length,
+    };
+  }
+
+  /**
+   * GET /conversations/:id
+   * Get conversation by ID
+   */
+  @Get(':id')
+  async getConversationById(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const conversation = await this.conversationService.findById(id);
+    if (!conversation.participants.includes(user.userId)) {
+      throw new ForbiddenException('You are not part of this conversation');
+    }
+
+    return {
+      success: true,
+      data: conversation,
+    };
+  }
+
+  /**
+   * GET /conversations/:id/messages
+   * Get recent messages of a conversation
+   */
+  @Get(':id/messages')
+  async getConversationMessages(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('limit') limit?: string,
+  ) {
+    const conversation = await this.conversationService.findById(id);
+    if (!conversation.participants.includes(user.userId)) {
+      throw new ForbiddenException('You are not part of this conversation');
+    }
+
+    const limitNumber = limit ? parseInt(limit, 10) : 50;
+    const messages = await this.messageService.getConversationMessages(
+      id,
+      limitNumber,
+    );
+    return {
+      success: true,
+      data: messages,
+      count: messages.length,
+    };
+  }
+}
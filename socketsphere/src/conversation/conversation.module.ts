@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  Conversation,
+  ConversationSchema,
+} from './schemas/conversation.schema';
+import { ConversationService } from './conversation.service';
+import { ConversationController } from './conversation.controller';
+import { MessageModule } from '../message/message.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Conversation.name, schema: ConversationSchema },
+    ]),
+    MessageModule,
+  ],
+  controllers: [ConversationController],
+  providers: [ConversationService],
+  exports: [ConversationService, MongooseModule],
+})
+export class ConversationModule {}
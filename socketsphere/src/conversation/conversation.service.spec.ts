@@ -0,0 +1,79 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConversationService } from './conversation.service';
+import { Conversation } from './schemas/conversation.schema';
+
+describe('ConversationService', () => {
+  let conversationService: ConversationService;
+  const conversationModel = {
+    findOneAndUpdate: jest.fn(
+      (filter: Record<string, unknown>, update: Record<string, unknown>) => ({
+        exec: () =>
+          Promise.resolve({
+            _id: 'c1',
+            ...(update.$setOnInsert as Record<string, unknown>),
+          }),
+      }),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: conversationModel,
+        },
+      ],
+    }).compile();
+
+    conversationService = app.get<ConversationService>(ConversationService);
+  });
+
+  it('should find the same conversation whoever starts it', async () => {
+    await conversationService.findOrCreate('bob', 'alice');
+    await conversationService.findOrCreate('alice', 'bob');
+
+    const keys = conversationModel.findOneAndUpdate.mock.calls.map(
+      ([filter]) => filter,
+    );
+    expect(keys).toEqual([
+      { participantKey: 'alice:bob' },
+      { participantKey: 'alice:bob' },
+    ]);
+    // Upserted, so concurrent first messages share one conversation
+    expect(conversationModel.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        $setOnInsert: {
+          participants: ['alice', 'bob'],
+          participantKey: 'alice:bob',
+        },
+      },
+      expect.objectContaining({ upsert: true }),
+    );
+  });
+
+  it('should not start a conversation with yourself', async () => {
+    await expect(
+      conversationService.findOrCreate('alice', 'alice'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should return the other participant', () => {
+    const conversation = {
+      participants: ['alice', 'bob'],
+    } as Conversation;
+
+    expect(conversationService.getOtherParticipant(conversation, 'alice')).toBe(
+      'bob',
+    );
+    expect(conversationService.getOtherParticipant(conversation, 'bob')).toBe(
+      'alice',
+    );
+  });
+});
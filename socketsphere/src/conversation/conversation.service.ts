@@ -0,0 +1,104 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Conversation,
+  ConversationDocument,
+} from './schemas/conversation.schema';
+
+@Injectable()
+export class ConversationService {
+  constructor(
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<ConversationDocument>,
+  ) {}
+
+  /**
+   * Find the conversation between two users, creating it if needed
+   * @param userId - First participant's user ID
+   * @param otherUserId - Second participant's user ID
+   * @returns Conversation document
+   * @throws BadRequestException if both IDs are the same user
+   */
+  async findOrCreate(
+    userId: string,
+    otherUserId: string,
+  ): Promise<ConversationDocument> {
+    if (userId === otherUserId) {
+      throw new BadRequestException(
+        'Cannot start a conversation with yourself',
+      );
+    }
+
+    const participants = [userId, otherUserId].sort();
+    const participantKey = participants.join(':');
+
+    // Upsert keeps concurrent first messages from creating duplicates
+    const conversation = await this.conversationModel
+      .findOneAndUpdate(
+        { participantKey },
+        { $setOnInsert: { participants, participantKey } },
+        { new: true, upsert: true },
+      )
+      .exec();
+
+    return conversation;
+  }
+
+  /**
+   * Find conversation by ID
+   * @param id - Conversation's MongoDB ObjectId
+   * @returns Conversation document
+   * @throws NotFoundException if conversation not found
+   */
+  async findById(id: string): Promise<ConversationDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid conversation ID format');
+    }
+
+    const conversation = await this.conversationModel.findById(id).exec();
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation with ID ${id} not found`);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Get all conversations a user participates in
+   * @param userId - User ID
+   * @returns Array of conversations, most recently active first
+   */
+  async findForUser(userId: string): Promise<ConversationDocument[]> {
+    return await this.conversationModel
+      .find({ participants: userId })
+      .sort({ lastMessageAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Record activity on a conversation
+   * @param id - Conversation's MongoDB ObjectId
+   * @param timestamp - Time of the latest message
+   */
+  async touch(id: string, timestamp: Date = new Date()): Promise<void> {
+    await this.conversationModel
+      .updateOne({ _id: id }, { lastMessageAt: timestamp })
+      .exec();
+  }
+
+  /**
+   * Get the other participant of a conversation
+   * @param conversation - Conversation document
+   * @param userId - One participant's user ID
+   * @returns The other participant's user ID
+   */
+  getOtherParticipant(conversation: Conversation, userId: string): string {
+    return conversation.participants.find((id) => id !== userId) || userId;
+  }
+}
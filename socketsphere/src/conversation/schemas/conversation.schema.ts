@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class Conversation {
+  // The two participants' user IDs, sorted
+  @Prop({ type: [String], required: true })
+  participants: string[];
+
+  // Sorted participant IDs joined with ':' so each pair has one conversation
+  @Prop({ required: true, unique: true })
+  participantKey: string;
+
+  @Prop()
+  lastMessageAt?: Date;
+}
+
+export type ConversationDocument = Conversation & Document;
+export const ConversationSchema = SchemaFactory.createForClass(Conversation);
+
+ConversationSchema.index({ participants: 1, lastMessageAt: -1 });
@@ -0,0 +1,25 @@
+import {
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateIncomingWebhookDto {
+  @IsNotEmpty({ message: 'Name is required' })
+  @IsString({ message: 'Name must be a string' })
+  @Length(3, 30, { message: 'Name must be between 3 and 30 characters' })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  // Lobby when omitted
+  @IsOptional()
+  @IsMongoId()
+  roomId?: string;
+}
@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  ValidateIf,
+} from 'class-validator';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '../../attachment/attachment.service';
+
+export class PostIncomingMessageDto {
+  // Optional when the message carries attachments
+  @ValidateIf((dto: PostIncomingMessageDto) => !dto.attachmentIds?.length)
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+
+  // Display name for this message (the webhook's name when omitted)
+  @IsOptional()
+  @IsString()
+  @Length(3, 30, { message: 'Username must be between 3 and 30 characters' })
+  username?: string;
+
+  // Files uploaded with POST /hooks/:token/attachments
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  @IsMongoId({ each: true })
+  attachmentIds?: string[];
+}
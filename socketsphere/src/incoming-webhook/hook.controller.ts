@@ -0,0 +1,95 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { IncomingWebhookService } from './incoming-webhook.service';
+import { PostIncomingMessageDto } from './dto/post-incoming-message.dto';
+import { AttachmentService } from '../attachment/attachment.service';
+import { MessageService } from '../message/message.service';
+import { RedisService } from '../redis/redis.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { WebhookService } from '../webhook/webhook.service';
+
+// Called by external systems; the token in the URL is the only credential
+@Controller('hooks')
+export class HookController {
+  constructor(
+    private readonly incomingWebhookService: IncomingWebhookService,
+    private readonly attachmentService: AttachmentService,
+    private readonly messageService: MessageService,
+    private readonly redisService: RedisService,
+    private readonly realtimeService: RealtimeService,
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  /**
+   * POST /hooks/:token
+   * Post a message and broadcast it like a socket-sent one
+   */
+  @Post(':token')
+  @HttpCode(HttpStatus.CREATED)
+  async postMessage(
+    @Param('token') token: string,
+    @Body() postMessageDto: PostIncomingMessageDto,
+  ) {
+    const message = await this.incomingWebhookService.postMessage(
+      token,
+      postMessageDto,
+    );
+    const roomId = message.roomId ? String(message.roomId) : null;
+
+    await this.redisService.addMessageToCache(message, 50, roomId);
+    if (roomId) {
+      this.realtimeService.emitToRoom(roomId, 'newMessage', message);
+    } else {
+      this.realtimeService.emitToAll('newMessage', message);
+    }
+    void this.webhookService.dispatch('message.created', message);
+
+    // Notify the users the message mentions
+    await this.messageService.notifyRecipients(message);
+
+    return {
+      success: true,
+      message: 'Message posted successfully',
+      data: message,
+    };
+  }
+
+  /**
+   * POST /hooks/:token/attachments
+   * Upload a file (multipart field "file") to send with a message
+   */
+  @Post(':token/attachments')
+  @UseInterceptors(FileInterceptor('file'))
+  @HttpCode(HttpStatus.CREATED)
+  async upload(
+    @Param('token') token: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ) {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const attachment = await this.incomingWebhookService.uploadAttachment(
+      token,
+      file,
+    );
+    return {
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        _id: attachment._id,
+        ...this.attachmentService.toMessageAttachment(attachment),
+      },
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { IncomingWebhookService } from './incoming-webhook.service';
+import { CreateIncomingWebhookDto } from './dto/create-incoming-webhook.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('incoming-webhooks')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('webhook:manage')
+export class IncomingWebhookController {
+  constructor(
+    private readonly incomingWebhookService: IncomingWebhookService,
+  ) {}
+
+  /**
+   * GET /incoming-webhooks
+   * List all incoming webhooks (admins only)
+   */
+  @Get()
+  async getWebhooks() {
+    const webhooks = await this.incomingWebhookService.findAll();
+    return {
+      success: true,
+      data: webhooks,
+      count: webhooks.length,
+    };
+  }
+
+  /**
+   * POST /incoming-webhooks
+   * Create an incoming webhook; the response is the only time its URL is
+   * shown
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createWebhook(
+    @Body() createWebhookDto: CreateIncomingWebhookDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { webhook, token } = await this.incomingWebhookService.createWebhook(
+      createWebhookDto,
+      user.userId,
+    );
+    return {
+      success: true,
+      message: 'Incoming webhook created successfully',
+      data: { webhook, token, url: `/hooks/${token}` },
+    };
+  }
+
+  /**
+   * DELETE /incoming-webhooks/:id
+   * Revoke an incoming webhook so its URL stops working
+   */
+  @Delete(':id')
+  async deleteWebhook(@Param('id') id: string) {
+    await this.incomingWebhookService.deleteWebhook(id);
+    return {
+      success: true,
+      message: 'Incoming webhook revoked successfully',
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  IncomingWebhook,
+  IncomingWebhookSchema,
+} from './schemas/incoming-webhook.schema';
+import { IncomingWebhookService } from './incoming-webhook.service';
+import { IncomingWebhookController } from './incoming-webhook.controller';
+import { HookController } from './hook.controller';
+import { MessageModule } from '../message/message.module';
+import { RoomModule } from '../room/room.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: IncomingWebhook.name, schema: IncomingWebhookSchema },
+    ]),
+    MessageModule,
+    RoomModule,
+    AttachmentModule,
+    WebhookModule,
+    UserModule,
+  ],
+  controllers: [IncomingWebhookController, HookController],
+  providers: [IncomingWebhookService],
+})
+export class IncomingWebhookModule {}
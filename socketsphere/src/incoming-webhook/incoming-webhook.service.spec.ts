@@ -0,0 +1,139 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { IncomingWebhookService } from './incoming-webhook.service';
+import { IncomingWebhook } from './schemas/incoming-webhook.schema';
+import { MessageService } from '../message/message.service';
+import { RoomService } from '../room/room.service';
+import { AttachmentService } from '../attachment/attachment.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { RateLimitedException } from '../rate-limit/rate-limited.exception';
+
+const ROOM_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+describe('IncomingWebhookService', () => {
+  let incomingWebhookService: IncomingWebhookService;
+  let stored: Record<string, unknown>[];
+  const incomingWebhookModel = Object.assign(
+    jest.fn((doc: Record<string, unknown>) => ({
+      ...doc,
+      _id: 'hook1',
+      save() {
+        stored.push(doc);
+        return Promise.resolve(this);
+      },
+    })),
+    {
+      findOne: jest.fn(({ tokenHash }: { tokenHash: string }) => ({
+        exec: () =>
+          Promise.resolve(
+            stored.find((doc) => doc.tokenHash === tokenHash)
+              ? { _id: 'hook1', ...stored[0] }
+              : null,
+          ),
+      })),
+      updateOne: jest.fn(() => ({ exec: () => Promise.resolve() })),
+    },
+  );
+  const messageService = {
+    createMessage: jest.fn((dto: Record<string, unknown>) =>
+      Promise.resolve({ _id: 'm1', ...dto }),
+    ),
+  };
+  const roomService = {
+    findById: jest.fn(),
+  };
+  const rateLimitService = {
+    consume: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = [];
+    roomService.findById.mockResolvedValue({ _id: ROOM_ID, archived: false });
+    rateLimitService.consume.mockResolvedValue({
+      allowed: true,
+      retryAfter: 0,
+      muted: false,
+    });
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        IncomingWebhookService,
+        {
+          provide: getModelToken(IncomingWebhook.name),
+          useValue: incomingWebhookModel,
+        },
+        { provide: MessageService, useValue: messageService },
+        { provide: RoomService, useValue: roomService },
+        { provide: AttachmentService, useValue: {} },
+        { provide: RateLimitService, useValue: rateLimitService },
+      ],
+    }).compile();
+
+    incomingWebhookService = app.get<IncomingWebhookService>(
+      IncomingWebhookService,
+    );
+  });
+
+  it('should only store a hash of the token', async () => {
+    const { token } = await incomingWebhookService.createWebhook(
+      { name: 'ci-bot', roomId: ROOM_ID },
+      'admin',
+    );
+
+    expect(token).toMatch(/^[\w-]{32}$/);
+    expect(stored[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(stored[0])).not.toContain(token);
+  });
+
+  it('should post into the webhook room under its own author ID', async () => {
+    const { token } = await incomingWebhookService.createWebhook(
+      { name: 'ci-bot', roomId: ROOM_ID },
+      'admin',
+    );
+
+    await incomingWebhookService.postMessage(token, {
+      text: ' Build #42 passed ',
+    });
+
+    expect(messageService.createMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'webhook_hook1',
+        username: 'ci-bot',
+        text: 'Build #42 passed',
+        roomId: ROOM_ID,
+      }),
+    );
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      'webhook:hook1',
+      'incomingWebhook',
+    );
+  });
+
+  it('should reject unknown tokens, archived rooms and floods', async () => {
+    await expect(
+      incomingWebhookService.postMessage('nope', { text: 'hi' }),
+    ).rejects.toThrow(NotFoundException);
+
+    const { token } = await incomingWebhookService.createWebhook(
+      { name: 'ci-bot', roomId: ROOM_ID },
+      'admin',
+    );
+
+    roomService.findById.mockResolvedValue({ _id: ROOM_ID, archived: true });
+    await expect(
+      incomingWebhookService.postMessage(token, { text: 'hi' }),
+    ).rejects.toThrow(ForbiddenException);
+
+    rateLimitService.consume.mockResolvedValue({
+      allowed: false,
+      retryAfter: 2,
+      muted: false,
+    });
+    await expect(
+      incomingWebhookService.postMessage(token, { text: 'hi' }),
+    ).rejects.toThrow(RateLimitedException);
+    expect(messageService.createMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import {
+  IncomingWebhook,
+  IncomingWebhookDocument,
+  getIncomingWebhookAuthorId,
+} from './schemas/incoming-webhook.schema';
+import { CreateIncomingWebhookDto } from './dto/create-incoming-webhook.dto';
+import { PostIncomingMessageDto } from './dto/post-incoming-message.dto';
+import { MessageService } from '../message/message.service';
+import { MessageDocument } from '../message/schemas/message.schema';
+import { RoomService } from '../room/room.service';
+import {
+  AttachmentService,
+  UploadedFile,
+} from '../attachment/attachment.service';
+import { AttachmentDocument } from '../attachment/schemas/attachment.schema';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { RateLimitedException } from '../rate-limit/rate-limited.exception';
+
+/**
+ * Incoming Webhook Service - Lets external systems (CI, monitoring, ...)
+ * post messages through a secret URL
+ *
+ * Each webhook posts into one room (or the lobby) under its own author ID;
+ * the caller may pick the display name of every message.
+ */
+@Injectable()
+export class IncomingWebhookService {
+  private readonly logger = new Logger(IncomingWebhookService.name);
+
+  constructor(
+    @InjectModel(IncomingWebhook.name)
+    private incomingWebhookModel: Model<IncomingWebhookDocument>,
+    private readonly messageService: MessageService,
+    private readonly roomService: RoomService,
+    private readonly attachmentService: AttachmentService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  /**
+   * Get all incoming webhooks
+   * @returns Array of webhooks (without tokens), oldest first
+   */
+  async findAll(): Promise<IncomingWebhookDocument[]> {
+    return await this.incomingWebhookModel.find().sort({ createdAt: 1 }).exec();
+  }
+
+  /**
+   * Create an incoming webhook
+   * @param createWebhookDto - DTO with name, description and target room
+   * @param userId - Admin creating the webhook
+   * @returns Created webhook and its token (not retrievable later)
+   * @throws NotFoundException if the room does not exist
+   */
+  async createWebhook(
+    createWebhookDto: CreateIncomingWebhookDto,
+    userId: string,
+  ): Promise<{ webhook: IncomingWebhookDocument; token: string }> {
+    if (createWebhookDto.roomId) {
+      await this.roomService.findById(createWebhookDto.roomId);
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const webhook = await new this.incomingWebhookModel({
+      ...createWebhookDto,
+      tokenHash: this.hashToken(token),
+      createdBy: userId,
+    }).save();
+
+    this.logger.log(`📥 Incoming webhook ${String(webhook._id)} created`);
+    return { webhook, token };
+  }
+
+  /**
+   * Revoke an incoming webhook (its messages stay)
+   * @param id - Webhook's MongoDB ObjectId
+   * @returns Deleted webhook
+   * @throws NotFoundException if webhook not found
+   */
+  async deleteWebhook(id: string): Promise<IncomingWebhookDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid webhook ID format');
+    }
+
+    const webhook = await this.incomingWebhookModel
+      .findByIdAndDelete(id)
+      .exec();
+
+    if (!webhook) {
+      throw new NotFoundException(`Incoming webhook with ID ${id} not found`);
+    }
+
+    this.logger.log(`📥 Incoming webhook ${id} revoked`);
+    return webhook;
+  }
+
+  /**
+   * Post a message through a webhook
+   * @param token - Token from the hook URL
+   * @param postMessageDto - Text, display name and attachments
+   * @returns Created message (not broadcast yet)
+   * @throws NotFoundException if the token is unknown
+   * @throws RateLimitedException if the webhook posts too often
+   * @throws ForbiddenException if the webhook's room is archived
+   */
+  async postMessage(
+    token: string,
+    postMessageDto: PostIncomingMessageDto,
+  ): Promise<MessageDocument> {
+    const webhook = await this.findByToken(token);
+    await this.consumeRateLimit(webhook);
+
+    const roomId = webhook.roomId ? String(webhook.roomId) : null;
+    if (roomId && (await this.roomService.findById(roomId)).archived) {
+      throw new ForbiddenException('This room is archived');
+    }
+
+    const message = await this.messageService.createMessage({
+      userId: getIncomingWebhookAuthorId(String(webhook._id)),
+      username: postMessageDto.username?.trim() || webhook.name,
+      text: postMessageDto.text?.trim() ?? '',
+      roomId,
+      attachmentIds: postMessageDto.attachmentIds,
+      timestamp: new Date(),
+    });
+
+    await this.incomingWebhookModel
+      .updateOne({ _id: webhook._id }, { lastUsedAt: new Date() })
+      .exec();
+
+    return message;
+  }
+
+  /**
+   * Upload a file to send with a later message of the webhook
+   * @param token - Token from the hook URL
+   * @param file - Uploaded file
+   * @returns Stored attachment
+   * @throws NotFoundException if the token is unknown
+   * @throws RateLimitedException if the webhook posts too often
+   */
+  async uploadAttachment(
+    token: string,
+    file: UploadedFile,
+  ): Promise<AttachmentDocument> {
+    const webhook = await this.findByToken(token);
+    await this.consumeRateLimit(webhook);
+
+    return await this.attachmentService.upload(
+      file,
+      getIncomingWebhookAuthorId(String(webhook._id)),
+    );
+  }
+
+  /**
+   * Find webhook by the token of its URL
+   * @throws NotFoundException if no webhook has this token
+   */
+  private async findByToken(token: string): Promise<IncomingWebhookDocument> {
+    const webhook = await this.incomingWebhookModel
+      .findOne({ tokenHash: this.hashToken(token) })
+      .exec();
+
+    if (!webhook) {
+      throw new NotFoundException('Unknown webhook');
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Every webhook has its own budget, whatever IP it posts from
+   */
+  private async consumeRateLimit(
+    webhook: IncomingWebhookDocument,
+  ): Promise<void> {
+    const { allowed, retryAfter } = await this.rateLimitService.consume(
+      `webhook:${String(webhook._id)}`,
+      'incomingWebhook',
+    );
+    if (!allowed) {
+      throw new RateLimitedException(retryAfter);
+    }
+  }
+
+  /**
+   * Tokens are stored hashed so a database leak does not expose them
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    // The token hash stays server-side
+    transform: (_doc, ret: Record<string, any>) => {
+      delete ret.tokenHash;
+      return ret;
+    },
+  },
+})
+export class IncomingWebhook {
+  // Default display name of the posted messages
+  @Prop({ required: true, trim: true, maxlength: 30 })
+  name: string;
+
+  @Prop({ type: String, default: null, maxlength: 200 })
+  description?: string | null;
+
+  // Room the messages are posted in (null for the global lobby)
+  @Prop({ type: Types.ObjectId, ref: 'Room', default: null })
+  roomId?: Types.ObjectId | null;
+
+  // SHA-256 of the token in the hook URL; the token itself is only shown
+  // when the webhook is created
+  @Prop({ required: true, unique: true, select: false })
+  tokenHash: string;
+
+  // Admin who created the webhook
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt?: Date | null;
+}
+
+export type IncomingWebhookDocument = IncomingWebhook & Document;
+export const IncomingWebhookSchema =
+  SchemaFactory.createForClass(IncomingWebhook);
+
+/**
+ * Author ID of the messages a webhook posts (stored as the message's
+ * customUserId, so it never collides with a user's ObjectId)
+ */
+export const getIncomingWebhookAuthorId = (webhookId: string): string =>
+  `webhook_${webhookId}`;
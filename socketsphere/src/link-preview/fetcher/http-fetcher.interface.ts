@@ -0,0 +1,18 @@
+// Injection token of the HttpFetcher used for link previews
+export const HTTP_FETCHER = 'HTTP_FETCHER';
+
+export interface FetchedPage {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  contentType: string;
+  // Decoded body, cut off at the fetcher's size limit
+  body: string;
+}
+
+/**
+ * Fetches pages for link previews (swap in a stub for tests)
+ */
+export interface HttpFetcher {
+  fetch(url: string): Promise<FetchedPage>;
+}
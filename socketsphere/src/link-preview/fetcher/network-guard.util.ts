@@ -0,0 +1,161 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and other
+// reserved ranges that outgoing requests (previews, webhooks) must never reach
+const PRIVATE_NETWORKS = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]: [string, number]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4'),
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]: [string, number]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * Split a valid IPv6 address into its eight 16-bit groups
+ */
+const toIPv6Groups = (address: string): number[] => {
+  // A trailing dotted quad (::ffff:127.0.0.1) stands for the last two groups
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(address);
+  const text = dotted
+    ? `${address.slice(0, dotted.index)}${((+dotted[1] << 8) | +dotted[2]).toString(16)}:${((+dotted[3] << 8) | +dotted[4]).toString(16)}`
+    : address;
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros =
+    tail === undefined
+      ? []
+      : Array<string>(8 - headGroups.length - tailGroups.length).fill('0');
+
+  return [...headGroups, ...zeros, ...tailGroups].map((group) =>
+    parseInt(group, 16),
+  );
+};
+
+/**
+ * Get the IPv4 address embedded in an IPv6 address: IPv4-mapped
+ * (::ffff:0:0/96), IPv4-compatible (::/96), IPv4-translated
+ * (::ffff:0:0:0/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16)
+ * @returns Dotted IPv4 address, or null if there is none
+ */
+const getEmbeddedIPv4 = (address: string): string | null => {
+  const groups = toIPv6Groups(address);
+  const isZero = (from: number, to: number) =>
+    groups.slice(from, to).every((group) => group === 0);
+
+  let high: number, low: number;
+  if (isZero(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    [high, low] = [groups[6], groups[7]];
+  } else if (isZero(0, 4) && groups[4] === 0xffff && groups[5] === 0) {
+    [high, low] = [groups[6], groups[7]];
+  } else if (groups[0] === 0x64 && groups[1] === 0xff9b && isZero(2, 6)) {
+    [high, low] = [groups[6], groups[7]];
+  } else if (groups[0] === 0x2002) {
+    [high, low] = [groups[1], groups[2]];
+  } else {
+    return null;
+  }
+
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+/**
+ * Check whether an IP address belongs to a private or reserved network
+ * @param address - IPv4 or IPv6 address
+ * @returns true for private addresses (and anything that is not an IP)
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  if (family === 4) {
+    return PRIVATE_NETWORKS.check(address, 'ipv4');
+  }
+
+  // IPv6 forms that carry an IPv4 address are checked as that address, so
+  // they cannot reach internal IPv4 hosts
+  const unzoned = address.split('%')[0];
+  const embedded = getEmbeddedIPv4(unzoned);
+  if (embedded) {
+    return isPrivateAddress(embedded);
+  }
+
+  return PRIVATE_NETWORKS.check(unzoned, 'ipv6');
+};
+
+export interface PinnedHost {
+  // Hostname without IPv6 brackets (used for TLS server names)
+  hostname: string;
+  // Resolves every connection to the checked address
+  lookup: LookupFunction;
+}
+
+/**
+ * Resolve the host of an http(s) URL and pin connections to the address
+ * that was checked, so DNS cannot point a request at a private network
+ * after the check
+ * @param url - URL to connect to
+ * @param deadline - Time (ms since epoch) by which the lookup must finish
+ * @param blockPrivateNetworks - Refuse hosts with a private address
+ * @returns Hostname and lookup to pass to http/https request options
+ * @throws Error for other protocols, refused hosts or slow lookups
+ */
+export const resolvePinnedHost = async (
+  url: URL,
+  deadline: number,
+  blockPrivateNetworks = true,
+): Promise<PinnedHost> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  // URL keeps the brackets of IPv6 hosts
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  // The resolver cannot be cancelled, so a hanging lookup is abandoned
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error('Request timed out')),
+      Math.max(deadline - Date.now(), 1),
+    );
+  });
+  const addresses = await Promise.race([
+    lookup(hostname, { all: true }),
+    timedOut,
+  ]).finally(() => clearTimeout(timer));
+  if (
+    blockPrivateNetworks &&
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    throw new Error(`Refusing to connect to private address for ${hostname}`);
+  }
+
+  const { address, family } = addresses[0];
+  return {
+    hostname,
+    lookup: (_hostname, _options, callback) => callback(null, address, family),
+  };
+};
@@ -0,0 +1,126 @@
+import { IncomingMessage, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { FetchedPage, HttpFetcher } from './http-fetcher.interface';
+import { resolvePinnedHost } from './network-guard.util';
+
+export interface NodeHttpFetcherOptions {
+  // Time allowed for the whole fetch, redirects included
+  timeoutMs: number;
+  // Bytes of the body to read; the rest is discarded
+  maxBytes: number;
+  maxRedirects: number;
+  // Refuse hosts that resolve to private networks (only tests turn this off)
+  blockPrivateNetworks: boolean;
+}
+
+const DEFAULT_OPTIONS: NodeHttpFetcherOptions = {
+  timeoutMs: 5000,
+  maxBytes: 512 * 1024,
+  maxRedirects: 3,
+  blockPrivateNetworks: true,
+};
+
+/**
+ * Fetches pages with Node's http/https clients. Each host is resolved up
+ * front and the connection is pinned to the checked address, so DNS cannot
+ * point a request at a private network after the check.
+ */
+export class NodeHttpFetcher implements HttpFetcher {
+  private readonly options: NodeHttpFetcherOptions;
+
+  constructor(options: Partial<NodeHttpFetcherOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const deadline = Date.now() + this.options.timeoutMs;
+    let current = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.request(current, deadline);
+      const location = response.headers.location;
+
+      if (
+        response.statusCode &&
+        response.statusCode >= 300 &&
+        response.statusCode < 400 &&
+        location
+      ) {
+        response.destroy();
+        if (redirects >= this.options.maxRedirects) {
+          throw new Error('Too many redirects');
+        }
+        current = new URL(location, current);
+        continue;
+      }
+
+      return {
+        url: current.toString(),
+        status: response.statusCode ?? 0,
+        contentType: response.headers['content-type'] ?? '',
+        body: await this.readBody(response, deadline),
+      };
+    }
+  }
+
+  /**
+   * Resolve the host, check it and send a GET pinned to that address
+   */
+  private async request(url: URL, deadline: number): Promise<IncomingMessage> {
+    const { hostname, lookup } = await resolvePinnedHost(
+      url,
+      deadline,
+      this.options.blockPrivateNetworks,
+    );
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return await new Promise<IncomingMessage>((resolve, reject) => {
+      const req = request(url, {
+        method: 'GET',
+        lookup,
+        servername: hostname,
+        headers: {
+          'User-Agent': 'SocketSphereBot/1.0 (link preview)',
+          Accept: 'text/html,application/xhtml+xml',
+        },
+        timeout: Math.max(deadline - Date.now(), 1),
+      });
+
+      req.on('response', resolve);
+      req.on('timeout', () => req.destroy(new Error('Request timed out')));
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  /**
+   * Read the body up to the size limit and the deadline
+   */
+  private readBody(response: IncomingMessage, deadline: number) {
+    return new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const finish = () => {
+        clearTimeout(timer);
+        response.destroy();
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      };
+      const timer = setTimeout(finish, Math.max(deadline - Date.now(), 1));
+
+      response.on('data', (chunk: Buffer) => {
+        const remaining = this.options.maxBytes - size;
+        chunks.push(chunk.subarray(0, remaining));
+        size += Math.min(chunk.length, remaining);
+        if (size >= this.options.maxBytes) {
+          finish();
+        }
+      });
+      response.on('end', finish);
+      response.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LinkPreviewService } from './link-preview.service';
+import { HTTP_FETCHER } from './fetcher/http-fetcher.interface';
+import { createLinkPreviewFetcher } from '../config/link-preview.config';
+
+@Module({
+  providers: [
+    LinkPreviewService,
+    {
+      provide: HTTP_FETCHER,
+      inject: [ConfigService],
+      useFactory: createLinkPreviewFetcher,
+    },
+  ],
+  exports: [LinkPreviewService],
+})
+export class LinkPreviewModule {}
@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import dns from 'dns/promises';
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { LinkPreviewService } from './link-preview.service';
+import { extractUrls } from './link-preview.util';
+import { HTTP_FETCHER } from './fetcher/http-fetcher.interface';
+import { NodeHttpFetcher } from './fetcher/node-http.fetcher';
+import { isPrivateAddress } from './fetcher/network-guard.util';
+import { RedisService } from '../redis/redis.service';
+
+describe('LinkPreviewService', () => {
+  let linkPreviewService: LinkPreviewService;
+  let server: Server;
+  let baseUrl: string;
+  let store: Map<string, string>;
+  let requests: string[];
+  const redisService = {
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+  };
+
+  // Stub site: an article with Open Graph tags, a redirect, a page with
+  // only a <title>, a JSON endpoint and a page that never finishes
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url ?? '');
+      switch (req.url) {
+        case '/article':
+          res.setHeader('Content-Type', 'text/html; charset=utf-8');
+          res.end(`<html><head>
+            <meta property="og:title" content="Tom &amp; Jerry">
+            <meta property="og:description" content='A cat &#8220;and&#8221; a mouse'>
+            <meta property="og:site_name" content="Cartoons">
+            <meta property="og:image" content="/images/cover.png">
+            <title>Ignored</title>
+          </head></html>`);
+          break;
+        case '/moved':
+          res.writeHead(302, { Location: '/article' });
+          res.end();
+          break;
+        case '/plain':
+          res.setHeader('Content-Type', 'text/html');
+          res.end('<title>Just a title</title>');
+          break;
+        case '/data':
+          res.setHeader('Content-Type', 'application/json');
+          res.end('{"title":"nope"}');
+          break;
+        case '/slow':
+          res.setHeader('Content-Type', 'text/html');
+          res.write('<html><head>');
+          break;
+        default:
+          res.statusCode = 404;
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createService = async (fetcher: NodeHttpFetcher) => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        LinkPreviewService,
+        { provide: HTTP_FETCHER, useValue: fetcher },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    return app.get<LinkPreviewService>(LinkPreviewService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+    requests = [];
+
+    // The stub listens on loopback, which the default fetcher refuses
+    linkPreviewService = await createService(
+      new NodeHttpFetcher({ blockPrivateNetworks: false, timeoutMs: 500 }),
+    );
+  });
+
+  it('should build a preview from Open Graph tags', async () => {
+    await expect(
+      linkPreviewService.getPreview(`${baseUrl}/article`),
+    ).resolves.toEqual({
+      url: `${baseUrl}/article`,
+      title: 'Tom & Jerry',
+      description: 'A cat “and” a mouse',
+      siteName: 'Cartoons',
+      imageUrl: `${baseUrl}/images/cover.png`,
+    });
+  });
+
+  it('should follow redirects and fall back to the page title', async () => {
+    const [moved, plain] = await linkPreviewService.getPreviews(
+      `see ${baseUrl}/moved and ${baseUrl}/plain.`,
+    );
+
+    expect(moved.title).toBe('Tom & Jerry');
+    expect(moved.url).toBe(`${baseUrl}/moved`);
+    expect(plain).toEqual(
+      expect.objectContaining({
+        title: 'Just a title',
+        siteName: '127.0.0.1',
+        imageUrl: null,
+      }),
+    );
+  });
+
+  it('should serve repeated URLs from the cache', async () => {
+    await linkPreviewService.getPreview(`${baseUrl}/article`);
+    await linkPreviewService.getPreview(`${baseUrl}/article`);
+
+    expect(requests).toEqual(['/article']);
+  });
+
+  it('should give no preview for non-HTML, missing or slow pages', async () => {
+    await expect(
+      linkPreviewService.getPreviews(
+        `${baseUrl}/data ${baseUrl}/missing ${baseUrl}/slow`,
+      ),
+    ).resolves.toEqual([]);
+  });
+
+  it('should refuse private network targets by default', async () => {
+    linkPreviewService = await createService(new NodeHttpFetcher());
+
+    await expect(
+      linkPreviewService.getPreview(`${baseUrl}/article`),
+    ).resolves.toBeNull();
+    expect(requests).toEqual([]);
+  });
+
+  it('should count a hanging DNS lookup against the deadline', async () => {
+    const lookup = jest
+      .spyOn(dns, 'lookup')
+      .mockReturnValue(new Promise(() => {}));
+    const fetcher = new NodeHttpFetcher({ timeoutMs: 100 });
+
+    try {
+      await expect(fetcher.fetch('http://example.com/')).rejects.toThrow(
+        'Request timed out',
+      );
+    } finally {
+      lookup.mockRestore();
+    }
+  });
+
+  describe('isPrivateAddress', () => {
+    it('should classify private, reserved and public addresses', () => {
+      expect(isPrivateAddress('10.1.2.3')).toBe(true);
+      expect(isPrivateAddress('169.254.169.254')).toBe(true);
+      expect(isPrivateAddress('::1')).toBe(true);
+      expect(isPrivateAddress('::ffff:192.168.0.1')).toBe(true);
+      expect(isPrivateAddress('fd00::1')).toBe(true);
+      expect(isPrivateAddress('fec0::1')).toBe(true);
+      expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+      expect(isPrivateAddress('::10.0.0.1')).toBe(true);
+      expect(isPrivateAddress('64:ff9b::a9fe:a9fe')).toBe(true);
+      expect(isPrivateAddress('2002:c0a8:0001::1')).toBe(true);
+      expect(isPrivateAddress('64:ff9b::5db8:d822')).toBe(false);
+      expect(isPrivateAddress('93.184.216.34')).toBe(false);
+      expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+    });
+  });
+
+  describe('extractUrls', () => {
+    it('should find distinct URLs without trailing punctuation', () => {
+      expect(
+        extractUrls(
+          'Read https://example.com/a, then (https://example.com/b) and https://example.com/a!',
+        ),
+      ).toEqual(['https://example.com/a', 'https://example.com/b']);
+    });
+  });
+});
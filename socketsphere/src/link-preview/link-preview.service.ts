@@ -0,0 +1,79 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { LinkPreview } from './schemas/link-preview.schema';
+import { extractUrls, parseLinkPreview } from './link-preview.util';
+import { HTTP_FETCHER } from './fetcher/http-fetcher.interface';
+import type { HttpFetcher } from './fetcher/http-fetcher.interface';
+
+// Cached previews are reused for a day; failures are retried after an hour
+const PREVIEW_CACHE_TTL = 24 * 3600;
+const FAILED_PREVIEW_CACHE_TTL = 3600;
+
+@Injectable()
+export class LinkPreviewService {
+  private readonly logger = new Logger(LinkPreviewService.name);
+
+  constructor(
+    @Inject(HTTP_FETCHER) private readonly fetcher: HttpFetcher,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Get previews for the links in a message's text
+   * @param text - Message text
+   * @returns Previews of the links that could be unfurled, in order
+   */
+  async getPreviews(text: string): Promise<LinkPreview[]> {
+    const previews = await Promise.all(
+      extractUrls(text).map((url) => this.getPreview(url)),
+    );
+    return previews.filter((preview): preview is LinkPreview => !!preview);
+  }
+
+  /**
+   * Get the preview of a single URL, from the cache when possible
+   * @param url - Absolute http(s) URL
+   * @returns Preview, or null if the page could not be unfurled
+   */
+  async getPreview(url: string): Promise<LinkPreview | null> {
+    const key = `linkpreview:${createHash('sha256').update(url).digest('hex')}`;
+
+    const cached = await this.redisService.get(key);
+    if (cached !== null) {
+      return JSON.parse(cached) as LinkPreview | null;
+    }
+
+    const preview = await this.fetchPreview(url);
+    await this.redisService.set(
+      key,
+      JSON.stringify(preview),
+      preview ? PREVIEW_CACHE_TTL : FAILED_PREVIEW_CACHE_TTL,
+    );
+
+    return preview;
+  }
+
+  /**
+   * Fetch a page and parse its meta tags (errors give no preview)
+   */
+  private async fetchPreview(url: string): Promise<LinkPreview | null> {
+    try {
+      const page = await this.fetcher.fetch(url);
+
+      if (page.status < 200 || page.status >= 300) {
+        return null;
+      }
+      if (!/text\/html|application\/xhtml\+xml/i.test(page.contentType)) {
+        return null;
+      }
+
+      return parseLinkPreview(page.body, url, page.url);
+    } catch (error) {
+      this.logger.debug(
+        `No preview for ${url}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { LinkPreview } from './schemas/link-preview.schema';
+
+// Previews shown for a single message
+export const MAX_PREVIEWS_PER_MESSAGE = 3;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+/gi;
+const META_TAG_PATTERN = /<meta\s[^>]*>/gi;
+const ATTRIBUTE_PATTERN =
+  /([a-zA-Z:_-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const TITLE_PATTERN = /<title[^>]*>([^<]*)<\/title>/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Find the distinct http(s) URLs in a message's text
+ * @param text - Message text
+ * @returns URLs in order of appearance (at most MAX_PREVIEWS_PER_MESSAGE)
+ */
+export const extractUrls = (text: string): string[] => {
+  const urls: string[] = [];
+
+  for (const match of text.match(URL_PATTERN) ?? []) {
+    // Trailing punctuation usually belongs to the sentence, not the URL
+    const candidate = match.replace(/[.,!?;:)\]}'"]+$/, '');
+    try {
+      const url = new URL(candidate).toString();
+      if (!urls.includes(url)) {
+        urls.push(url);
+      }
+    } catch {
+      continue;
+    }
+
+    if (urls.length === MAX_PREVIEWS_PER_MESSAGE) {
+      break;
+    }
+  }
+
+  return urls;
+};
+
+/**
+ * Build a preview from a page's Open Graph and standard meta tags
+ * @param html - Page HTML (the head is enough)
+ * @param url - URL the preview is for
+ * @param pageUrl - Final URL of the page, used to resolve relative images
+ * @returns Preview, or null when the page has no usable title
+ */
+export const parseLinkPreview = (
+  html: string,
+  url: string,
+  pageUrl: string = url,
+): LinkPreview | null => {
+  const meta = new Map<string, string>();
+
+  for (const tag of html.match(META_TAG_PATTERN) ?? []) {
+    const attributes = new Map<string, string>();
+    for (const [, name, ...values] of tag.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes.set(
+        name.toLowerCase(),
+        values.find((value) => value !== undefined) ?? '',
+      );
+    }
+
+    const key = attributes.get('property') ?? attributes.get('name');
+    const content = attributes.get('content');
+    // The first occurrence of a tag wins
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(content));
+    }
+  }
+
+  const title =
+    meta.get('og:title') ??
+    meta.get('twitter:title') ??
+    decodeEntities(TITLE_PATTERN.exec(html)?.[1] ?? '');
+  if (!title.trim()) {
+    return null;
+  }
+
+  const description =
+    meta.get('og:description') ??
+    meta.get('twitter:description') ??
+    meta.get('description');
+  const image = meta.get('og:image') ?? meta.get('twitter:image');
+
+  return {
+    url,
+    title: clip(title, 200),
+    description: description ? clip(description, 300) : null,
+    siteName: meta.get('og:site_name') ?? new URL(pageUrl).hostname,
+    imageUrl: image ? resolveImageUrl(image, pageUrl) : null,
+  };
+};
+
+/**
+ * Decode the HTML entities found in titles and descriptions
+ */
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Collapse whitespace and cut to a maximum length
+ */
+const clip = (value: string, max: number): string => {
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+};
+
+/**
+ * Resolve an image URL against the page, keeping only http(s) images
+ */
+const resolveImageUrl = (image: string, pageUrl: string): string | null => {
+  try {
+    const url = new URL(image, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// An unfurled link stored on a message
+@Schema({ _id: false })
+export class LinkPreview {
+  // The URL as it appeared in the message
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ required: true })
+  title: string;
+
+  @Prop({ type: String, default: null })
+  description?: string | null;
+
+  @Prop({ type: String, default: null })
+  siteName?: string | null;
+
+  @Prop({ type: String, default: null })
+  imageUrl?: string | null;
+}
+
+export const LinkPreviewSchema = SchemaFactory.createForClass(LinkPreview);
@@ -1,12 +1,35 @@
 // src/message/dto/create-message.dto.ts
-import { IsNotEmpty, IsString } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '../../attachment/attachment.service';
 
 export class CreateMessageDto {
-  @IsString()
-  @IsNotEmpty()
-  userId: string;
-
+  // Optional when the message carries attachments
+  @ValidateIf((dto: CreateMessageDto) => !dto.attachmentIds?.length)
   @IsString()
   @IsNotEmpty()
   text: string;
+
+  @IsOptional()
+  @IsMongoId()
+  roomId?: string;
+
+  // Reply to this message in its thread
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string;
+
+  // Uploaded files (POST /attachments) to send with the message
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  @IsMongoId({ each: true })
+  attachmentIds?: string[];
 }
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class EditMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+}
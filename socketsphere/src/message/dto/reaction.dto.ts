@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ReactionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  emoji: string;
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { MessageService } from './message.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('users')
+@UseGuards(JwtAuthGuard)
+export class MentionController {
+  constructor(private readonly messageService: MessageService) {}
+
+  /**
+   * GET /users/:id/mentions?before=&limit=
+   * Page through the messages that mention the authenticated user
+   */
+  @Get(':id/mentions')
+  async getMentions(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('before') before?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (id !== user.userId) {
+      throw new ForbiddenException('You can only read your own mentions');
+    }
+
+    const { messages, nextCursor, hasMore } =
+      await this.messageService.getMentions(
+        id,
+        before,
+        limit ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 100) : 50,
+      );
+    return {
+      success: true,
+      data: messages,
+      count: messages.length,
+      nextCursor,
+      hasMore,
+    };
+  }
+}
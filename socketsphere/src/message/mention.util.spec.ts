@@ -0,0 +1,34 @@
+import { MAX_MENTIONS_PER_MESSAGE, parseMentions } from './mention.util';
+
+describe('parseMentions', () => {
+  it('should find distinct usernames and ignore e-mail addresses', () => {
+    expect(
+      parseMentions(
+        '@alice can you ask @bob.smith? mail bob@example.com @alice',
+      ),
+    ).toEqual({
+      usernames: ['alice', 'bob.smith'],
+      here: false,
+      everyone: false,
+    });
+  });
+
+  it('should drop sentence punctuation after a name', () => {
+    expect(parseMentions('thanks @carol.').usernames).toEqual(['carol']);
+  });
+
+  it('should recognise @here and @everyone', () => {
+    expect(parseMentions('@here deploy done, @everyone please test')).toEqual({
+      usernames: [],
+      here: true,
+      everyone: true,
+    });
+  });
+
+  it('should cap the number of usernames', () => {
+    const text = Array.from({ length: 30 }, (_, i) => `@user${i}`).join(' ');
+    expect(parseMentions(text).usernames).toHaveLength(
+      MAX_MENTIONS_PER_MESSAGE,
+    );
+  });
+});
@@ -0,0 +1,47 @@
+// Explicit @username mentions resolved per message
+export const MAX_MENTIONS_PER_MESSAGE = 20;
+
+// "@name" at the start or after a non-word character (so e-mail addresses
+// are not mentions)
+const MENTION_PATTERN = /(?<![\w@])@([\w.-]{2,30})/g;
+
+export interface ParsedMentions {
+  usernames: string[];
+  // @here: online users who can see the message
+  here: boolean;
+  // @everyone: every user who can see the message
+  everyone: boolean;
+}
+
+/**
+ * Find the mentions in a message's text
+ * @param text - Message text
+ * @returns Distinct usernames (at most MAX_MENTIONS_PER_MESSAGE) and
+ * whether @here or @everyone was used
+ */
+export const parseMentions = (text: string): ParsedMentions => {
+  const result: ParsedMentions = {
+    usernames: [],
+    here: false,
+    everyone: false,
+  };
+
+  for (const [, match] of text.matchAll(MENTION_PATTERN)) {
+    // A trailing dot or dash ends the sentence, not the name
+    const name = match.replace(/[.-]+$/, '');
+
+    if (name === 'here') {
+      result.here = true;
+    } else if (name === 'everyone') {
+      result.everyone = true;
+    } else if (
+      name.length >= 3 &&
+      !result.usernames.includes(name) &&
+      result.usernames.length < MAX_MENTIONS_PER_MESSAGE
+    ) {
+      result.usernames.push(name);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  decodeCursor,
+  decodeSearchCursor,
+  encodeCursor,
+  encodeSearchCursor,
+} from './message-cursor.util';
+
+describe('message cursors', () => {
+  it('should round-trip a message position', () => {
+    const message = {
+      _id: '64b7f0c2a1b2c3d4e5f60718',
+      timestamp: new Date('2024-05-01T12:00:00.123Z'),
+    };
+
+    expect(decodeCursor(encodeCursor(message))).toEqual({
+      timestamp: message.timestamp,
+      id: message._id,
+    });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(
+        Buffer.from('abc:64b7f0c2a1b2c3d4e5f60718').toString('base64url'),
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should round-trip a search result position', () => {
+    const result = {
+      _id: '64b7f0c2a1b2c3d4e5f60718',
+      timestamp: new Date('2024-05-01T12:00:00.123Z'),
+      score: 1.25,
+    };
+
+    expect(decodeSearchCursor(encodeSearchCursor(result))).toEqual({
+      score: 1.25,
+      timestamp: result.timestamp,
+      id: result._id,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Position of a message in a timeline; `_id` breaks ties between messages
+ * sent in the same millisecond
+ */
+export interface MessageCursor {
+  timestamp: Date;
+  id: string;
+}
+
+/**
+ * Encode a message's position as an opaque cursor string
+ * @param message - Message with timestamp and _id
+ * @returns URL-safe cursor
+ */
+export const encodeCursor = (message: {
+  timestamp: Date;
+  _id?: unknown;
+}): string =>
+  Buffer.from(
+    `${new Date(message.timestamp).getTime()}:${String(message._id)}`,
+  ).toString('base64url');
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @param cursor - Opaque cursor string
+ * @returns Timestamp and message ID
+ * @throws BadRequestException if the cursor is malformed
+ */
+export const decodeCursor = (cursor: string): MessageCursor => {
+  const [time, id] = Buffer.from(cursor, 'base64url')
+    .toString('utf8')
+    .split(':');
+  const timestamp = new Date(Number(time));
+
+  if (!id?.match(/^[0-9a-fA-F]{24}$/) || isNaN(timestamp.getTime())) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return { timestamp, id };
+};
+
+/**
+ * Position of a search result; results are ordered by relevance, then by
+ * timestamp and `_id`
+ */
+export interface SearchCursor extends MessageCursor {
+  score: number;
+}
+
+/**
+ * Encode a search result's position as an opaque cursor string
+ * @param result - Search result with score, timestamp and _id
+ * @returns URL-safe cursor
+ */
+export const encodeSearchCursor = (result: {
+  score: number;
+  timestamp: Date;
+  _id?: unknown;
+}): string =>
+  Buffer.from(`${result.score}:${encodeCursor(result)}`).toString('base64url');
+
+/**
+ * Decode a cursor produced by encodeSearchCursor
+ * @param cursor - Opaque cursor string
+ * @returns Score, timestamp and message ID
+ * @throws BadRequestException if the cursor is malformed
+ */
+export const decodeSearchCursor = (cursor: string): SearchCursor => {
+  const [score, position = ''] = Buffer.from(cursor, 'base64url')
+    .toString('utf8')
+    .split(':');
+
+  if (isNaN(Number(score))) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return { score: Number(score), ...decodeCursor(position) };
+};
@@ -2,28 +2,98 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Body,
   Param,
   Query,
   HttpCode,
   HttpStatus,
+  UseGuards,
+  ForbiddenException,
 } from '@nestjs/common';
 import { MessageService } from './message.service';
+import { MessageDocument } from './schemas/message.schema';
 import { CreateMessageDto } from './dto/create-message.dto';
+import { EditMessageDto } from './dto/edit-message.dto';
+import { ReactionDto } from './dto/reaction.dto';
+import { SearchMessagesDto } from './dto/search-messages.dto';
+import { UserService } from '../user/user.service';
+import { RoomService } from '../room/room.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { RedisService } from '../redis/redis.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { RateLimitedException } from '../rate-limit/rate-limited.exception';
+import { WebhookService } from '../webhook/webhook.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
 
 @Controller('messages')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class MessageController {
-  constructor(private readonly messageService: MessageService) {}
+  constructor(
+    private readonly messageService: MessageService,
+    private readonly userService: UserService,
+    private readonly roomService: RoomService,
+    private readonly realtimeService: RealtimeService,
+    private readonly redisService: RedisService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly webhookService: WebhookService,
+  ) {}
 
   /**
    * POST /messages
-   * Create a new message
+   * Create a new message as the authenticated user
    */
   @Post()
+  @RequirePermissions('message:send')
   @HttpCode(HttpStatus.CREATED)
-  async createMessage(@Body() createMessageDto: CreateMessageDto) {
-    const message = await this.messageService.createMessage(createMessageDto);
+  async createMessage(
+    @Body() createMessageDto: CreateMessageDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    // Shares the socket sendMessage limit (and flood mutes) of the user
+    const { allowed, retryAfter, muted } = await this.rateLimitService.consume(
+      user.userId,
+      'sendMessage',
+    );
+    if (!allowed) {
+      throw new RateLimitedException(retryAfter, muted);
+    }
+
+    // Same room rules as the socket sendMessage path
+    const { roomId } = createMessageDto;
+    if (roomId) {
+      const room = await this.roomService.findById(roomId);
+      if (!this.roomService.canAccess(room, user.userId)) {
+        throw new ForbiddenException('This room is private');
+      }
+      if (room.archived) {
+        throw new ForbiddenException('This room is archived');
+      }
+    }
+
+    const message = await this.messageService.createMessage({
+      ...createMessageDto,
+      userId: user.userId,
+      username: user.username,
+    });
+
+    // Replies stay out of the cached main stream
+    if (!message.parentId) {
+      await this.redisService.addMessageToCache(message, 50, roomId);
+    }
+    this.realtimeService.emitForMessage(message, 'newMessage', message);
+    await this.messageService.notifyRecipients(message);
+    void this.webhookService.dispatch('message.created', message);
+
+    if (message.parentId) {
+      await this.emitThreadUpdated(String(message.parentId));
+    }
+
     return {
       success: true,
       message: 'Message created successfully',
@@ -32,28 +102,85 @@ export class MessageController {
   }
 
   /**
-   * GET /messages
-   * Get all messages with optional limit
+   * GET /messages?roomId=&before=&after=&limit=
+   * Page through room or lobby history with opaque cursors (newest first)
    */
   @Get()
-  async getAllMessages(@Query('limit') limit?: string) {
-    const limitNumber = limit ? parseInt(limit, 10) : 100;
-    const messages = await this.messageService.findAll(limitNumber);
+  async getMessageHistory(
+    @CurrentUser() user: AuthUser,
+    @Query('roomId') roomId?: string,
+    @Query('before') before?: string,
+    @Query('after') after?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (roomId) {
+      const room = await this.roomService.findById(roomId);
+      if (!this.roomService.canAccess(room, user.userId)) {
+        throw new ForbiddenException('This room is private');
+      }
+    }
+
+    const { messages, cursors, hasMore } = await this.messageService.getHistory(
+      {
+        roomId,
+        before,
+        after,
+        limit: limit
+          ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 100)
+          : 50,
+      },
+    );
     return {
       success: true,
       data: messages,
       count: messages.length,
+      cursors,
+      hasMore,
+    };
+  }
+
+  /**
+   * GET /messages/search?q=&authorId=&roomId=&from=&to=&cursor=&limit=
+   * Full-text search ranked by relevance, with highlighted snippets
+   */
+  @Get('search')
+  async searchMessages(
+    @Query() searchDto: SearchMessagesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { results, nextCursor, hasMore } =
+      await this.messageService.searchMessages(user.userId, searchDto);
+    return {
+      success: true,
+      data: results,
+      count: results.length,
+      nextCursor,
+      hasMore,
     };
   }
 
   /**
    * GET /messages/recent
-   * Get recent messages
+   * Get recent messages (optionally scoped to a room)
    */
   @Get('recent')
-  async getRecentMessages(@Query('limit') limit?: string) {
+  async getRecentMessages(
+    @CurrentUser() user: AuthUser,
+    @Query('limit') limit?: string,
+    @Query('roomId') roomId?: string,
+  ) {
+    if (roomId) {
+      const room = await this.roomService.findById(roomId);
+      if (!this.roomService.canAccess(room, user.userId)) {
+        throw new ForbiddenException('This room is private');
+      }
+    }
+
     const limitNumber = limit ? parseInt(limit, 10) : 50;
-    const messages = await this.messageService.getRecentMessages(limitNumber);
+    const messages = await this.messageService.getRecentMessages(
+      limitNumber,
+      roomId,
+    );
     return {
       success: true,
       data: messages,
@@ -74,30 +201,208 @@ export class MessageController {
     };
   }
 
+  /**
+   * GET /messages/flagged?limit=
+   * Get messages flagged for review (moderators only)
+   */
+  @Get('flagged')
+  @RequirePermissions('message:review')
+  async getFlaggedMessages(@Query('limit') limit?: string) {
+    const messages = await this.messageService.getFlaggedMessages(
+      Math.min(Math.max(parseInt(limit ?? '', 10) || 50, 1), 100),
+    );
+    return {
+      success: true,
+      data: messages,
+      count: messages.length,
+    };
+  }
+
+  /**
+   * PATCH /messages/:id/review
+   * Clear the review flag of a message (moderators only)
+   */
+  @Patch(':id/review')
+  @RequirePermissions('message:review')
+  async reviewMessage(@Param('id') id: string) {
+    const message = await this.messageService.clearFlag(id);
+    return {
+      success: true,
+      message: 'Message marked as reviewed',
+      data: message,
+    };
+  }
+
+  /**
+   * GET /messages/:id/thread
+   * Get a message and its replies (paginated, oldest reply first)
+   */
+  @Get(':id/thread')
+  async getThread(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ) {
+    await this.messageService.assertCanRead(
+      await this.messageService.findById(id),
+      user.userId,
+    );
+
+    const thread = await this.messageService.getThread(
+      id,
+      page ? Math.max(parseInt(page, 10) || 1, 1) : 1,
+      pageSize ? Math.min(Math.max(parseInt(pageSize, 10) || 20, 1), 100) : 20,
+    );
+    return {
+      success: true,
+      data: thread,
+      count: thread.replies.length,
+    };
+  }
+
   /**
    * GET /messages/:id
    * Get message by ID
    */
   @Get(':id')
-  async getMessageById(@Param('id') id: string) {
+  async getMessageById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     const message = await this.messageService.findById(id);
+    await this.messageService.assertCanRead(message, user.userId);
+
+    return {
+      success: true,
+      data: message,
+    };
+  }
+
+  /**
+   * PATCH /messages/:id
+   * Edit a message (author only)
+   */
+  @Patch(':id')
+  @RequirePermissions('message:edit')
+  async editMessage(
+    @Param('id') id: string,
+    @Body() editMessageDto: EditMessageDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const message = await this.messageService.editMessage(
+      id,
+      user.userId,
+      editMessageDto.text,
+    );
+
+    // Notify connected clients that can see the message
+    this.realtimeService.emitForMessage(message, 'messageEdited', message);
+
+    return {
+      success: true,
+      message: 'Message edited successfully',
+      data: message,
+    };
+  }
+
+  /**
+   * POST /messages/:id/reactions
+   * React to a message
+   */
+  @Post(':id/reactions')
+  @RequirePermissions('message:react')
+  @HttpCode(HttpStatus.OK)
+  async addReaction(
+    @Param('id') id: string,
+    @Body() reactionDto: ReactionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const message = await this.messageService.addReaction(
+      id,
+      user.userId,
+      reactionDto.emoji,
+    );
+    this.emitReactionUpdated(message);
+
     return {
       success: true,
+      message: 'Reaction added successfully',
+      data: message,
+    };
+  }
+
+  /**
+   * DELETE /messages/:id/reactions/:emoji
+   * Remove a reaction from a message
+   */
+  @Delete(':id/reactions/:emoji')
+  @RequirePermissions('message:react')
+  async removeReaction(
+    @Param('id') id: string,
+    @Param('emoji') emoji: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const message = await this.messageService.removeReaction(
+      id,
+      user.userId,
+      emoji,
+    );
+    this.emitReactionUpdated(message);
+
+    return {
+      success: true,
+      message: 'Reaction removed successfully',
       data: message,
     };
   }
 
   /**
    * DELETE /messages/:id
-   * Delete message by ID
+   * Delete message by ID (author or moderator)
    */
   @Delete(':id')
-  async deleteMessage(@Param('id') id: string) {
-    const message = await this.messageService.deleteMessage(id);
+  @RequirePermissions('message:delete:own')
+  async deleteMessage(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const message = await this.messageService.deleteMessage(
+      id,
+      user.userId,
+      await this.userService.hasPermission(user.userId, 'message:delete:any'),
+    );
+
+    // Tell connected clients to drop the message
+    this.realtimeService.emitForMessage(message, 'messageDeleted', message);
+    if (!message.conversationId) {
+      void this.webhookService.dispatch('message.deleted', message);
+    }
+    if (message.parentId) {
+      await this.emitThreadUpdated(String(message.parentId));
+    }
+
     return {
       success: true,
       message: 'Message deleted successfully',
       data: message,
     };
   }
+
+  /**
+   * Notify connected clients that can see the message
+   */
+  private emitReactionUpdated(message: MessageDocument): void {
+    this.realtimeService.emitForMessage(message, 'reactionUpdated', {
+      messageId: String(message._id),
+      reactions: message.reactions,
+      reactionCounts: message.reactionCounts,
+    });
+  }
+
+  /**
+   * Send the parent's new reply count to clients that can see the thread
+   */
+  private async emitThreadUpdated(parentId: string): Promise<void> {
+    const parent = await this.messageService.findById(parentId);
+    this.realtimeService.emitForMessage(parent, 'threadUpdated', {
+      messageId: parentId,
+      replyCount: parent.replyCount,
+      lastReplyAt: parent.lastReplyAt,
+    });
+  }
 }
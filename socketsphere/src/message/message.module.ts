@@ -3,12 +3,29 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { Message, MessageSchema } from './schemas/message.schema';
 import { MessageService } from './message.service';
 import { MessageController } from './message.controller'; // Add this import
+import { MentionController } from './mention.controller';
+import { UserModule } from '../user/user.module';
+import { RoomModule } from '../room/room.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { SanctionModule } from '../sanction/sanction.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { LinkPreviewModule } from '../link-preview/link-preview.module';
+import { NotificationModule } from '../notification/notification.module';
+import { WebhookModule } from '../webhook/webhook.module';
 
 @Module({
   imports: [
+    UserModule,
+    RoomModule,
+    ModerationModule,
+    SanctionModule,
+    AttachmentModule,
+    LinkPreviewModule,
+    NotificationModule,
+    WebhookModule,
     MongooseModule.forFeature([{ name: Message.name, schema: MessageSchema }]),
   ],
-  controllers: [MessageController], // Add this line
+  controllers: [MessageController, MentionController], // Add this line
   providers: [MessageService],
   exports: [MessageService, MongooseModule],
 })
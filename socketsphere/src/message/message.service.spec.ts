@@ -0,0 +1,337 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { MessageService } from './message.service';
+import { Message } from './schemas/message.schema';
+import { RedisService } from '../redis/redis.service';
+import { RoomService } from '../room/room.service';
+import { UserService } from '../user/user.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { AttachmentService } from '../attachment/attachment.service';
+import { LinkPreviewService } from '../link-preview/link-preview.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { NotificationService } from '../notification/notification.service';
+import { SanctionService } from '../sanction/sanction.service';
+
+describe('MessageService', () => {
+  let messageService: MessageService;
+  let messages: Map<string, Record<string, unknown>>;
+
+  const alice = '64b7f0c2a1b2c3d4e5f60001';
+  const bob = '64b7f0c2a1b2c3d4e5f60002';
+  const roomId = '64b7f0c2a1b2c3d4e5f600aa';
+  const messageId = '64b7f0c2a1b2c3d4e5f60101';
+
+  // A chainable stand-in for a Mongoose query
+  const query = (value: unknown) => ({
+    populate: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const messageModel = {
+    findById: jest.fn((id: string) => query(messages.get(id) ?? null)),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(() => query(null)),
+    updateOne: jest.fn(() => query({ modifiedCount: 1 })),
+  };
+  const redisService = {
+    updateCachedMessage: jest.fn(),
+    removeCachedMessage: jest.fn(),
+  };
+  const roomService = {
+    findById: jest.fn(),
+    canAccess: jest.fn(),
+  };
+  const userService = {
+    findByUsernames: jest.fn(() => Promise.resolve([])),
+  };
+  const moderationService = {
+    moderate: jest.fn((text: string) =>
+      Promise.resolve({ text, flagReasons: [] }),
+    ),
+  };
+  const attachmentService = {
+    removeForMessage: jest.fn(),
+  };
+  const linkPreviewService = {
+    getPreviews: jest.fn(() => Promise.resolve([])),
+  };
+  const sanctionService = {
+    assertNotMuted: jest.fn(),
+  };
+
+  const message = (fields: Record<string, unknown> = {}) => {
+    const doc = {
+      _id: messageId,
+      userId: { _id: alice, username: 'alice' },
+      text: 'hello',
+      roomId: null,
+      conversationId: null,
+      parentId: null,
+      deletedAt: null,
+      __v: 0,
+      ...fields,
+    };
+    messages.set(String(doc._id), doc);
+    return doc;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    messages = new Map();
+    roomService.canAccess.mockReturnValue(true);
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageService,
+        { provide: getModelToken(Message.name), useValue: messageModel },
+        { provide: RedisService, useValue: redisService },
+        { provide: RoomService, useValue: roomService },
+        { provide: UserService, useValue: userService },
+        { provide: ModerationService, useValue: moderationService },
+        { provide: AttachmentService, useValue: attachmentService },
+        { provide: LinkPreviewService, useValue: linkPreviewService },
+        { provide: RealtimeService, useValue: {} },
+        { provide: NotificationService, useValue: {} },
+        { provide: SanctionService, useValue: sanctionService },
+      ],
+    }).compile();
+
+    messageService = app.get<MessageService>(MessageService);
+  });
+
+  describe('assertCanRead', () => {
+    it('should only let participants read a direct message', async () => {
+      const direct = message({
+        conversationId: new Types.ObjectId(),
+        recipientId: bob,
+      });
+
+      await expect(
+        messageService.assertCanRead(direct as never, bob),
+      ).resolves.toBeUndefined();
+      await expect(
+        messageService.assertCanRead(direct as never, alice),
+      ).resolves.toBeUndefined();
+      await expect(
+        messageService.assertCanRead(direct as never, 'mallory'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only let members read a private room', async () => {
+      const room = { isPrivate: true, members: [alice] };
+      roomService.findById.mockResolvedValue(room);
+      roomService.canAccess.mockReturnValue(false);
+
+      await expect(
+        messageService.assertCanRead(message({ roomId }) as never, bob),
+      ).rejects.toThrow(ForbiddenException);
+      expect(roomService.findById).toHaveBeenCalledWith(roomId);
+      expect(roomService.canAccess).toHaveBeenCalledWith(room, bob);
+    });
+  });
+
+  describe('editMessage', () => {
+    it('should keep the previous text as a revision', async () => {
+      const edited = { ...message(), text: 'hello world', __v: 1 };
+      messageModel.findOneAndUpdate.mockReturnValue(query(edited));
+
+      await expect(
+        messageService.editMessage(messageId, alice, ' hello world '),
+      ).resolves.toBe(edited);
+
+      const [[filter, update]] = messageModel.findOneAndUpdate.mock
+        .calls as unknown as [
+        [unknown, { $set: { editedAt: Date }; $push: unknown; $inc: unknown }],
+      ];
+      // Only applied if nobody changed the text meanwhile
+      expect(filter).toEqual({ _id: messageId, text: 'hello' });
+      expect(update.$push).toEqual({
+        revisions: { text: 'hello', editedAt: update.$set.editedAt },
+      });
+      expect(update.$inc).toEqual({ __v: 1 });
+      // The bumped version keeps an older copy from replacing it in the cache
+      expect(redisService.updateCachedMessage).toHaveBeenCalledWith(
+        edited,
+        null,
+      );
+    });
+
+    it('should report a concurrent edit as a conflict', async () => {
+      message();
+      messageModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      await expect(
+        messageService.editMessage(messageId, alice, 'hello again'),
+      ).rejects.toThrow(ConflictException);
+      expect(redisService.updateCachedMessage).not.toHaveBeenCalled();
+    });
+
+    it('should only let the author edit', async () => {
+      message();
+
+      await expect(
+        messageService.editMessage(messageId, bob, 'not mine'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(messageModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not let a muted user edit', async () => {
+      message();
+      sanctionService.assertNotMuted.mockRejectedValueOnce(
+        new ForbiddenException('You are muted'),
+      );
+
+      await expect(
+        messageService.editMessage(messageId, alice, 'sneaky'),
+      ).rejects.toThrow('You are muted');
+      expect(messageModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should leave a tombstone and evict it from the cache', async () => {
+      const tombstone = {
+        ...message({ roomId }),
+        text: '',
+        deletedAt: new Date(),
+      };
+      messageModel.findOneAndUpdate.mockReturnValue(query(tombstone));
+
+      await expect(
+        messageService.deleteMessage(messageId, alice),
+      ).resolves.toBe(tombstone);
+
+      const [[filter, update]] = messageModel.findOneAndUpdate.mock
+        .calls as unknown as [[unknown, { $set: Record<string, unknown> }]];
+      // Deleting twice is a no-op
+      expect(filter).toEqual({ _id: messageId, deletedAt: null });
+      expect(update.$set).toEqual(
+        expect.objectContaining({ text: '', deletedBy: alice }),
+      );
+      expect(attachmentService.removeForMessage).toHaveBeenCalledWith(
+        messageId,
+      );
+      expect(redisService.removeCachedMessage).toHaveBeenCalledWith(
+        messageId,
+        roomId,
+      );
+    });
+
+    it('should only let the author or a moderator delete', async () => {
+      message();
+      messageModel.findOneAndUpdate.mockReturnValue(query(message()));
+
+      await expect(
+        messageService.deleteMessage(messageId, bob),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        messageService.deleteMessage(messageId, bob, true),
+      ).resolves.toBeDefined();
+    });
+
+    it('should treat deleting twice as a no-op', async () => {
+      message({ deletedAt: new Date() });
+      messageModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      await messageService.deleteMessage(messageId, alice);
+
+      expect(attachmentService.removeForMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactions', () => {
+    it('should only add a reaction the user has not made yet', async () => {
+      message();
+
+      await messageService.addReaction(messageId, bob, '👍');
+
+      expect(messageModel.updateOne).toHaveBeenCalledWith(
+        { _id: messageId, 'reactions.👍': { $ne: bob } },
+        {
+          $push: { 'reactions.👍': bob },
+          $inc: { 'reactionCounts.👍': 1, __v: 1 },
+        },
+      );
+      expect(redisService.updateCachedMessage).toHaveBeenCalled();
+    });
+
+    it('should only remove a reaction the user made', async () => {
+      message();
+
+      await messageService.removeReaction(messageId, bob, '👍');
+
+      expect(messageModel.updateOne).toHaveBeenCalledWith(
+        { _id: messageId, 'reactions.👍': bob },
+        {
+          $pull: { 'reactions.👍': bob },
+          $inc: { 'reactionCounts.👍': -1, __v: 1 },
+        },
+      );
+    });
+
+    it('should reject emoji that cannot be stored as keys', async () => {
+      message();
+
+      await expect(
+        messageService.addReaction(messageId, bob, 'a.b'),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should not let users react to messages they cannot see', async () => {
+      message({ roomId });
+      roomService.findById.mockResolvedValue({ isPrivate: true, members: [] });
+      roomService.canAccess.mockReturnValue(false);
+
+      await expect(
+        messageService.addReaction(messageId, bob, '👍'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(messageModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('threads', () => {
+    const reply = (parentId: string, fields: Record<string, unknown> = {}) =>
+      messageService.createMessage({
+        userId: bob,
+        username: 'bob',
+        text: 'a reply',
+        parentId,
+        ...fields,
+      });
+
+    it('should not reply to a reply', async () => {
+      message({ parentId: new Types.ObjectId() });
+
+      await expect(reply(messageId)).rejects.toThrow('Cannot reply to a reply');
+    });
+
+    it('should not reply to a deleted message', async () => {
+      message({ deletedAt: new Date() });
+
+      await expect(reply(messageId)).rejects.toThrow(
+        'Cannot reply to a deleted message',
+      );
+    });
+
+    it('should not start threads in direct messages', async () => {
+      message({ conversationId: new Types.ObjectId() });
+
+      await expect(reply(messageId)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep replies in the room of the parent', async () => {
+      message({ roomId: new Types.ObjectId(roomId) });
+
+      await expect(reply(messageId)).rejects.toThrow(
+        'Replies must be sent to the room of the parent message',
+      );
+    });
+  });
+});
@@ -1,52 +1,184 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
+  ConflictException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Message, MessageDocument } from './schemas/message.schema';
-import { CreateMessageDto } from './dto/create-message.dto';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Message,
+  MessageDocument,
+  getMessageAuthorId,
+} from './schemas/message.schema';
+import { RedisService } from '../redis/redis.service';
+import { SearchMessagesDto } from './dto/search-messages.dto';
+import { RoomService } from '../room/room.service';
+import { UserService } from '../user/user.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { AttachmentService } from '../attachment/attachment.service';
+import { AttachmentDocument } from '../attachment/schemas/attachment.schema';
+import { LinkPreviewService } from '../link-preview/link-preview.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { NotificationService } from '../notification/notification.service';
+import { SanctionService } from '../sanction/sanction.service';
+import {
+  decodeCursor,
+  decodeSearchCursor,
+  encodeCursor,
+  encodeSearchCursor,
+} from './message-cursor.util';
+import { Highlight, buildSnippet } from './search-snippet.util';
+import { parseMentions } from './mention.util';
+
+// Emoji are stored as map keys, so they cannot contain '.' or '$'
+const EMOJI_PATTERN = /^[^\s.$]{1,32}$/u;
+
+// What the REST API, the gateway and incoming webhooks pass to createMessage
+export interface MessageInput {
+  userId: string;
+  username?: string;
+  text?: string;
+  roomId?: string | null;
+  parentId?: string;
+  attachmentIds?: string[];
+  conversationId?: string;
+  recipientId?: string;
+  deliveredAt?: Date | null;
+  timestamp?: Date;
+  userMongoId?: string;
+}
 
 @Injectable()
 export class MessageService {
+  private readonly logger = new Logger(MessageService.name);
+
   constructor(
     @InjectModel(Message.name) private messageModel: Model<MessageDocument>,
+    private readonly redisService: RedisService,
+    private readonly roomService: RoomService,
+    private readonly userService: UserService,
+    private readonly moderationService: ModerationService,
+    private readonly attachmentService: AttachmentService,
+    private readonly linkPreviewService: LinkPreviewService,
+    private readonly realtimeService: RealtimeService,
+    private readonly notificationService: NotificationService,
+    private readonly sanctionService: SanctionService,
   ) {}
 
   /**
    * Create and save a new message (supports both REST API and WebSocket)
    * @param createMessageDto - DTO containing userId and text
    * @returns Created message document
+   * @throws BadRequestException if the thread parent cannot be replied to,
+   * a moderation rule rejects the text or an attachment cannot be sent
+   * @throws ForbiddenException if the author is muted
    */
   async createMessage(
-    createMessageDto: CreateMessageDto | any,
+    createMessageDto: MessageInput,
   ): Promise<MessageDocument> {
+    await this.sanctionService.assertNotMuted(createMessageDto.userId);
+
     // Check if userId is a valid MongoDB ObjectId
     const isValidObjectId =
       Types.ObjectId.isValid(createMessageDto.userId) &&
       createMessageDto.userId.match(/^[0-9a-fA-F]{24}$/);
 
-    let newMessage: any;
+    let newMessage: MessageDocument;
+
+    // Attachments must be the sender's own uploads that were not sent yet
+    const attachments: AttachmentDocument[] = createMessageDto.attachmentIds
+      ?.length
+      ? await this.attachmentService.findClaimable(
+          createMessageDto.attachmentIds,
+          String(createMessageDto.userId),
+        )
+      : [];
+
+    // Apply the moderation rules before anything is stored (a message with
+    // attachments may have no text at all)
+    const { text, flagReasons } =
+      createMessageDto.text?.trim() || attachments.length === 0
+        ? await this.moderationService.moderate(createMessageDto.text ?? '')
+        : { text: '', flagReasons: [] };
+    const moderationFields = {
+      text,
+      flagged: flagReasons.length > 0,
+      flagReasons,
+      attachments: attachments.map((attachment) =>
+        this.attachmentService.toMessageAttachment(attachment),
+      ),
+    };
+
+    const roomId =
+      createMessageDto.roomId && Types.ObjectId.isValid(createMessageDto.roomId)
+        ? new Types.ObjectId(createMessageDto.roomId)
+        : null;
+
+    // Direct messages belong to a conversation instead of a room
+    const directMessageFields = createMessageDto.conversationId
+      ? {
+          conversationId: new Types.ObjectId(createMessageDto.conversationId),
+          recipientId: createMessageDto.recipientId,
+          deliveredAt: createMessageDto.deliveredAt || null,
+        }
+      : {};
+
+    // Replies live in the same room as the message that started the thread
+    const parent = createMessageDto.parentId
+      ? await this.findThreadParent(createMessageDto.parentId, roomId)
+      : null;
+    const threadFields = parent ? { parentId: parent._id } : {};
+
+    // Direct messages already reach their only other participant
+    const mentions = createMessageDto.conversationId
+      ? []
+      : await this.resolveMentions(
+          text,
+          String(createMessageDto.userId),
+          roomId,
+        );
 
     if (isValidObjectId) {
-      // REST API case: userId is a MongoDB ObjectId
+      // Authenticated case (REST API and WebSocket): userId is the
+      // MongoDB ObjectId taken from the access token
       newMessage = new this.messageModel({
         userId: new Types.ObjectId(createMessageDto.userId),
-        text: createMessageDto.text,
+        username: createMessageDto.username,
+        ...moderationFields,
+        mentions,
+        roomId,
+        ...directMessageFields,
+        ...threadFields,
         timestamp: createMessageDto.timestamp || new Date(),
       });
 
       const savedMessage = await newMessage.save();
+      await this.linkAttachments(savedMessage, attachments);
+      this.refreshLinkPreviews(savedMessage);
+      if (parent) {
+        await this.adjustReplyCount(
+          String(parent._id),
+          1,
+          savedMessage.timestamp,
+        );
+      }
+
       // Populate user information before returning
       return await savedMessage.populate('userId', 'username status');
     } else {
-      // WebSocket case: userId is a custom string ID
+      // Legacy case: userId is a custom string ID
       newMessage = new this.messageModel({
         userId: null, // Don't set userId for WebSocket messages
         username: createMessageDto.username, // Use username from WebSocket
         customUserId: createMessageDto.userId, // Store custom ID
-        text: createMessageDto.text,
+        ...moderationFields,
+        mentions,
+        roomId,
+        ...directMessageFields,
+        ...threadFields,
         timestamp: createMessageDto.timestamp || new Date(),
       });
 
@@ -58,7 +190,335 @@ export class MessageService {
         newMessage.userId = new Types.ObjectId(createMessageDto.userMongoId);
       }
 
-      return await newMessage.save();
+      const savedMessage = await newMessage.save();
+      await this.linkAttachments(savedMessage, attachments);
+      this.refreshLinkPreviews(savedMessage);
+      if (parent) {
+        await this.adjustReplyCount(
+          String(parent._id),
+          1,
+          savedMessage.timestamp,
+        );
+      }
+
+      return savedMessage;
+    }
+  }
+
+  /**
+   * Resolve the mentions in a message's text to user IDs. @here and
+   * @everyone need the 'message:mention:all' permission, so authors with a
+   * custom ID (incoming webhooks) cannot use them; users who cannot see the
+   * message and the author are left out.
+   */
+  private async resolveMentions(
+    text: string,
+    authorId: string,
+    roomId: Types.ObjectId | null,
+  ): Promise<string[]> {
+    const { usernames, here, everyone } = parseMentions(text);
+    if (usernames.length === 0 && !here && !everyone) {
+      return [];
+    }
+
+    const room = roomId
+      ? await this.roomService.findById(String(roomId))
+      : null;
+    const mentioned = new Set<string>();
+
+    if (usernames.length > 0) {
+      const users = await this.userService.findByUsernames(usernames);
+      users.forEach((user) => mentioned.add(String(user._id)));
+    }
+
+    if (
+      (here || everyone) &&
+      Types.ObjectId.isValid(authorId) &&
+      /^[0-9a-fA-F]{24}$/.test(authorId) &&
+      (await this.userService.hasPermission(authorId, 'message:mention:all'))
+    ) {
+      if (everyone) {
+        const audience = room
+          ? room.members
+          : (await this.userService.findAll()).map((user) => String(user._id));
+        audience.forEach((userId) => mentioned.add(userId));
+      } else {
+        const online = await this.redisService.getOnlineUsers();
+        online.forEach((userId) => mentioned.add(userId));
+      }
+    }
+
+    mentioned.delete(authorId);
+    return [...mentioned].filter(
+      (userId) => !room || this.roomService.canAccess(room, userId),
+    );
+  }
+
+  /**
+   * Notify the users a new message concerns: the mentioned users (with a
+   * `mentioned` event for those online) and the author of the thread it
+   * replies to. Both also get an inbox notification.
+   * @param message - Saved message
+   */
+  async notifyRecipients(message: MessageDocument): Promise<void> {
+    const authorId = getMessageAuthorId(message);
+    const mentions = message.mentions ?? [];
+    const notification = {
+      actorId: authorId,
+      actorName: message.username ?? null,
+      messageId: String(message._id),
+      roomId: message.roomId ? String(message.roomId) : null,
+      data: { excerpt: message.text.slice(0, 140) },
+    };
+
+    if (mentions.length > 0) {
+      const online = new Set(await this.redisService.getOnlineUsers());
+      mentions
+        .filter((userId) => online.has(userId))
+        .forEach((userId) =>
+          this.realtimeService.emitToUser(userId, 'mentioned', message),
+        );
+
+      await this.notificationService.notify(mentions, {
+        type: 'mention',
+        text: `${message.username} mentioned you`,
+        ...notification,
+      });
+    }
+
+    if (message.parentId) {
+      const parent = await this.messageModel
+        .findById(message.parentId)
+        .select('userId')
+        .exec();
+      const parentAuthorId = parent ? getMessageAuthorId(parent) : null;
+
+      // A mention already told them
+      if (
+        parentAuthorId &&
+        parentAuthorId !== authorId &&
+        !mentions.includes(parentAuthorId)
+      ) {
+        await this.notificationService.notify([parentAuthorId], {
+          type: 'reply',
+          text: `${message.username} replied to your message`,
+          ...notification,
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the messages that mention a user, newest first
+   * @param userId - Mentioned user's ID
+   * @param before - Cursor of the oldest mention already loaded
+   * @param limit - Maximum number of messages
+   * @returns Messages, the cursor of the next page and whether it exists
+   */
+  async getMentions(
+    userId: string,
+    before?: string,
+    limit: number = 50,
+  ): Promise<{
+    messages: MessageDocument[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const filter: FilterQuery<MessageDocument> = {
+      mentions: userId,
+      deletedAt: null,
+    };
+
+    if (before) {
+      const { timestamp, id } = decodeCursor(before);
+      filter.$or = [
+        { timestamp: { $lt: timestamp } },
+        { timestamp, _id: { $lt: new Types.ObjectId(id) } },
+      ];
+    }
+
+    const page = await this.messageModel
+      .find(filter)
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('userId', 'username status')
+      .exec();
+
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit);
+
+    return {
+      messages,
+      nextCursor:
+        hasMore && messages.length
+          ? encodeCursor(messages[messages.length - 1])
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Unfurl the links of a message in the background; its audience gets a
+   * `messageUpdated` event once the previews are stored
+   */
+  private refreshLinkPreviews(message: MessageDocument): void {
+    const id = String(message._id);
+    const { text } = message;
+    const hadPreviews = message.linkPreviews?.length > 0;
+
+    void (async () => {
+      const linkPreviews = await this.linkPreviewService.getPreviews(text);
+      if (linkPreviews.length === 0 && !hadPreviews) {
+        return;
+      }
+
+      // Skip the update if the text was edited or deleted in the meantime
+      const updated = await this.messageModel
+        .findOneAndUpdate(
+          { _id: id, text, deletedAt: null },
+          { $set: { linkPreviews }, $inc: { __v: 1 } },
+          { new: true },
+        )
+        .populate('userId', 'username status')
+        .exec();
+      if (!updated) {
+        return;
+      }
+
+      if (!updated.conversationId) {
+        await this.redisService.updateCachedMessage(
+          updated,
+          updated.roomId ? String(updated.roomId) : null,
+        );
+      }
+
+      this.realtimeService.emitForMessage(updated, 'messageUpdated', updated);
+    })().catch((error: Error) => {
+      this.logger.error(`❌ Link previews for ${id} failed: ${error.message}`);
+    });
+  }
+
+  /**
+   * Link sent attachments to their message so its audience can download them
+   */
+  private async linkAttachments(
+    message: MessageDocument,
+    attachments: AttachmentDocument[],
+  ): Promise<void> {
+    if (attachments.length === 0) {
+      return;
+    }
+
+    await this.attachmentService.markAttached(
+      attachments.map((attachment) => String(attachment._id)),
+      String(message._id),
+      message.conversationId
+        ? {
+            participants: [
+              getMessageAuthorId(message) ?? message.customUserId ?? '',
+              message.recipientId ?? '',
+            ].filter(Boolean),
+          }
+        : { roomId: message.roomId },
+    );
+  }
+
+  /**
+   * Get a message together with a page of its thread replies
+   * @param id - Parent message's MongoDB ObjectId
+   * @param page - Page number (starting from 1)
+   * @param pageSize - Number of replies per page
+   * @returns Parent message, replies (oldest first) and pagination info
+   */
+  async getThread(
+    id: string,
+    page: number = 1,
+    pageSize: number = 20,
+  ): Promise<{
+    parent: MessageDocument;
+    replies: MessageDocument[];
+    totalReplies: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const parent = await this.findById(id);
+    const filter = { parentId: new Types.ObjectId(id), deletedAt: null };
+    const skip = (page - 1) * pageSize;
+
+    const [replies, totalReplies] = await Promise.all([
+      this.messageModel
+        .find(filter)
+        .sort({ timestamp: 1 })
+        .skip(skip)
+        .limit(pageSize)
+        .populate('userId', 'username status')
+        .exec(),
+      this.messageModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      parent,
+      replies,
+      totalReplies,
+      totalPages: Math.ceil(totalReplies / pageSize),
+      currentPage: page,
+    };
+  }
+
+  /**
+   * Load a message that can start (or continue) a thread
+   */
+  private async findThreadParent(
+    parentId: string,
+    roomId: Types.ObjectId | null,
+  ): Promise<MessageDocument> {
+    const parent = await this.findById(parentId);
+
+    if (parent.deletedAt) {
+      throw new BadRequestException('Cannot reply to a deleted message');
+    }
+    if (parent.parentId) {
+      throw new BadRequestException('Cannot reply to a reply');
+    }
+    if (parent.conversationId) {
+      throw new BadRequestException(
+        'Threads are not supported in direct messages',
+      );
+    }
+    if (String(parent.roomId ?? '') !== String(roomId ?? '')) {
+      throw new BadRequestException(
+        'Replies must be sent to the room of the parent message',
+      );
+    }
+
+    return parent;
+  }
+
+  /**
+   * Update the thread summary on a parent message and refresh the cache
+   */
+  private async adjustReplyCount(
+    parentId: string,
+    delta: number,
+    replyTimestamp?: Date,
+  ): Promise<void> {
+    const parent = await this.messageModel
+      .findByIdAndUpdate(
+        parentId,
+        {
+          $inc: { replyCount: delta, __v: 1 },
+          ...(replyTimestamp ? { $max: { lastReplyAt: replyTimestamp } } : {}),
+        },
+        { new: true },
+      )
+      .populate('userId', 'username status')
+      .exec();
+
+    if (parent) {
+      await this.redisService.updateCachedMessage(
+        parent,
+        parent.roomId ? String(parent.roomId) : null,
+      );
     }
   }
 
@@ -69,7 +529,7 @@ export class MessageService {
    */
   async findAll(limit: number = 100): Promise<MessageDocument[]> {
     return await this.messageModel
-      .find()
+      .find({ deletedAt: null })
       .sort({ timestamp: -1 }) // Most recent first
       .limit(limit)
       .populate('userId', 'username status')
@@ -79,17 +539,118 @@ export class MessageService {
   /**
    * Get recent messages (sorted by timestamp, newest first)
    * @param limit - Number of messages to retrieve (default: 50)
+   * @param roomId - Optional room ID; omit for the global lobby
    * @returns Array of recent messages
    */
-  async getRecentMessages(limit: number = 50): Promise<MessageDocument[]> {
+  async getRecentMessages(
+    limit: number = 50,
+    roomId?: string,
+  ): Promise<MessageDocument[]> {
+    if (roomId && !roomId.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid room ID format');
+    }
+
     return await this.messageModel
-      .find()
+      .find({
+        roomId: roomId ? new Types.ObjectId(roomId) : null,
+        conversationId: null,
+        parentId: null,
+        deletedAt: null,
+      })
       .sort({ timestamp: -1 })
       .limit(limit)
       .populate('userId', 'username status')
       .exec();
   }
 
+  /**
+   * Count other users' top-level messages in a room, conversation or the
+   * lobby that are newer than a point in time
+   * @param scope - Room or conversation ID (neither for the lobby)
+   * @param after - Only count messages newer than this (null for all)
+   * @param excludeUserId - Don't count this user's own messages
+   * @param limit - Stop counting at this value
+   * @returns Number of matching messages
+   */
+  async countMessagesAfter(
+    scope: { roomId?: string; conversationId?: string },
+    after: Date | null,
+    excludeUserId: string,
+    limit: number,
+  ): Promise<number> {
+    return await this.messageModel
+      .countDocuments(
+        {
+          roomId: scope.roomId ? new Types.ObjectId(scope.roomId) : null,
+          conversationId: scope.conversationId
+            ? new Types.ObjectId(scope.conversationId)
+            : null,
+          parentId: null,
+          deletedAt: null,
+          userId: { $ne: new Types.ObjectId(excludeUserId) },
+          ...(after ? { timestamp: { $gt: after } } : {}),
+        },
+        { limit },
+      )
+      .exec();
+  }
+
+  /**
+   * Get recent messages of a direct message conversation
+   * @param conversationId - Conversation's MongoDB ObjectId
+   * @param limit - Number of messages to retrieve (default: 50)
+   * @returns Array of messages, newest first
+   */
+  async getConversationMessages(
+    conversationId: string,
+    limit: number = 50,
+  ): Promise<MessageDocument[]> {
+    if (!conversationId.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid conversation ID format');
+    }
+
+    return await this.messageModel
+      .find({
+        conversationId: new Types.ObjectId(conversationId),
+        deletedAt: null,
+      })
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Get direct messages that were sent while the recipient was offline
+   * @param recipientId - Recipient's user ID
+   * @returns Array of undelivered messages, oldest first
+   */
+  async getUndeliveredDirectMessages(
+    recipientId: string,
+  ): Promise<MessageDocument[]> {
+    return await this.messageModel
+      .find({ recipientId, deliveredAt: null, deletedAt: null })
+      .sort({ timestamp: 1 })
+      .exec();
+  }
+
+  /**
+   * Mark direct messages as delivered
+   * @param ids - Message IDs
+   * @param deliveredAt - Delivery time (default: now)
+   */
+  async markDelivered(
+    ids: string[],
+    deliveredAt: Date = new Date(),
+  ): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.messageModel
+      .updateMany({ _id: { $in: ids }, deliveredAt: null }, { deliveredAt })
+      .exec();
+  }
+
   /**
    * Find message by ID
    * @param id - Message's MongoDB ObjectId
@@ -113,6 +674,237 @@ export class MessageService {
     return message;
   }
 
+  /**
+   * Check that a user can see a message: only participants can read direct
+   * messages, and only members can read private rooms
+   * @param message - Message to check
+   * @param userId - User's MongoDB ObjectId
+   * @throws ForbiddenException if the user cannot see the message
+   */
+  async assertCanRead(message: MessageDocument, userId: string): Promise<void> {
+    if (message.conversationId) {
+      if (
+        message.recipientId !== userId &&
+        getMessageAuthorId(message) !== userId
+      ) {
+        throw new ForbiddenException('You are not part of this conversation');
+      }
+    } else if (message.roomId) {
+      const room = await this.roomService.findById(String(message.roomId));
+      if (!this.roomService.canAccess(room, userId)) {
+        throw new ForbiddenException('This room is private');
+      }
+    }
+  }
+
+  /**
+   * Edit a message's text, keeping the previous text as a revision
+   * @param id - Message's MongoDB ObjectId
+   * @param userId - ID of the user making the edit (must be the author)
+   * @param text - New message text
+   * @returns Updated message document
+   * @throws ForbiddenException if the user is not the author or is muted
+   * @throws BadRequestException if a moderation rule rejects the text
+   * @throws ConflictException if the message changed during the edit
+   */
+  async editMessage(
+    id: string,
+    userId: string,
+    text: string,
+  ): Promise<MessageDocument> {
+    await this.sanctionService.assertNotMuted(userId);
+
+    const message = await this.findById(id);
+
+    if (message.deletedAt) {
+      throw new NotFoundException(`Message with ID ${id} has been deleted`);
+    }
+
+    if (getMessageAuthorId(message) !== userId) {
+      throw new ForbiddenException('You can only edit your own messages');
+    }
+
+    const newText = text?.trim();
+    if (!newText) {
+      throw new BadRequestException('Message text cannot be empty');
+    }
+
+    if (newText === message.text) {
+      return message;
+    }
+
+    // Edits go through the same moderation rules; a clean edit does not
+    // clear an earlier flag
+    const { text: moderatedText, flagReasons } =
+      await this.moderationService.moderate(newText);
+    const mentions = message.conversationId
+      ? []
+      : await this.resolveMentions(
+          moderatedText,
+          userId,
+          message.roomId ?? null,
+        );
+
+    // Only apply the edit if nobody changed the text in the meantime
+    const editedAt = new Date();
+    const updated = await this.messageModel
+      .findOneAndUpdate(
+        { _id: id, text: message.text },
+        {
+          $set: {
+            text: moderatedText,
+            mentions,
+            editedAt,
+            ...(flagReasons.length ? { flagged: true } : {}),
+          },
+          $push: { revisions: { text: message.text, editedAt } },
+          $inc: { __v: 1 },
+          ...(flagReasons.length
+            ? { $addToSet: { flagReasons: { $each: flagReasons } } }
+            : {}),
+        },
+        { new: true },
+      )
+      .populate('userId', 'username status')
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException(
+        'Message was modified by another request, please retry',
+      );
+    }
+
+    // Keep the recent-messages cache in sync (DMs are not cached)
+    if (!updated.conversationId) {
+      await this.redisService.updateCachedMessage(
+        updated,
+        updated.roomId ? String(updated.roomId) : null,
+      );
+    }
+
+    // Links may have been added or removed
+    this.refreshLinkPreviews(updated);
+
+    return updated;
+  }
+
+  /**
+   * Add the user's reaction to a message
+   * @param id - Message's MongoDB ObjectId
+   * @param userId - ID of the reacting user
+   * @param emoji - Reaction emoji
+   * @returns Message document with updated reactions
+   * @throws BadRequestException if the emoji is invalid
+   * @throws NotFoundException if message not found or deleted
+   */
+  async addReaction(
+    id: string,
+    userId: string,
+    emoji: string,
+  ): Promise<MessageDocument> {
+    await this.findReactableMessage(id, userId, emoji);
+
+    // The filter makes reacting twice a no-op, so the count stays correct
+    // when several instances apply reactions concurrently
+    await this.messageModel
+      .updateOne(
+        { _id: id, [`reactions.${emoji}`]: { $ne: userId } },
+        {
+          $push: { [`reactions.${emoji}`]: userId },
+          $inc: { [`reactionCounts.${emoji}`]: 1, __v: 1 },
+        },
+      )
+      .exec();
+
+    return await this.syncReactions(id);
+  }
+
+  /**
+   * Remove the user's reaction from a message
+   * @param id - Message's MongoDB ObjectId
+   * @param userId - ID of the reacting user
+   * @param emoji - Reaction emoji
+   * @returns Message document with updated reactions
+   * @throws BadRequestException if the emoji is invalid
+   * @throws NotFoundException if message not found or deleted
+   */
+  async removeReaction(
+    id: string,
+    userId: string,
+    emoji: string,
+  ): Promise<MessageDocument> {
+    await this.findReactableMessage(id, userId, emoji);
+
+    await this.messageModel
+      .updateOne(
+        { _id: id, [`reactions.${emoji}`]: userId },
+        {
+          $pull: { [`reactions.${emoji}`]: userId },
+          $inc: { [`reactionCounts.${emoji}`]: -1, __v: 1 },
+        },
+      )
+      .exec();
+
+    // Drop the emoji once nobody is left reacting with it
+    await this.messageModel
+      .updateOne(
+        { _id: id, [`reactionCounts.${emoji}`]: { $lte: 0 } },
+        {
+          $unset: {
+            [`reactions.${emoji}`]: '',
+            [`reactionCounts.${emoji}`]: '',
+          },
+          $inc: { __v: 1 },
+        },
+      )
+      .exec();
+
+    return await this.syncReactions(id);
+  }
+
+  /**
+   * Load a message that the user may react to
+   */
+  private async findReactableMessage(
+    id: string,
+    userId: string,
+    emoji: string,
+  ): Promise<MessageDocument> {
+    if (!emoji || !EMOJI_PATTERN.test(emoji)) {
+      throw new BadRequestException('Invalid reaction emoji');
+    }
+
+    const message = await this.findById(id);
+
+    if (message.deletedAt) {
+      throw new NotFoundException(`Message with ID ${id} has been deleted`);
+    }
+
+    // Only users who can see the message may react to it
+    await this.assertCanRead(message, userId);
+    await this.sanctionService.assertNotMuted(userId);
+
+    return message;
+  }
+
+  /**
+   * Reload a message after a reaction change and refresh the cache (the
+   * version bump keeps a slower concurrent reaction from caching an older
+   * copy)
+   */
+  private async syncReactions(id: string): Promise<MessageDocument> {
+    const message = await this.findById(id);
+
+    if (!message.conversationId) {
+      await this.redisService.updateCachedMessage(
+        message,
+        message.roomId ? String(message.roomId) : null,
+      );
+    }
+
+    return message;
+  }
+
   /**
    * Get all messages from a specific user
    * @param userId - User's MongoDB ObjectId
@@ -124,7 +916,7 @@ export class MessageService {
     }
 
     return await this.messageModel
-      .find({ userId: new Types.ObjectId(userId) })
+      .find({ userId: new Types.ObjectId(userId), deletedAt: null })
       .sort({ timestamp: -1 })
       .populate('userId', 'username status')
       .exec();
@@ -146,6 +938,7 @@ export class MessageService {
           $gte: startDate,
           $lte: endDate,
         },
+        deletedAt: null,
       })
       .sort({ timestamp: -1 })
       .populate('userId', 'username status')
@@ -153,23 +946,103 @@ export class MessageService {
   }
 
   /**
-   * Delete a message by ID
+   * Soft-delete a message, leaving a tombstone in place of its content
    * @param id - Message's MongoDB ObjectId
-   * @returns Deleted message document
+   * @param userId - ID of the user deleting the message
+   * @param canModerate - Whether the user may delete other users' messages
+   * @returns Tombstoned message document
    * @throws NotFoundException if message not found
+   * @throws ForbiddenException if the user is neither author nor moderator
    */
-  async deleteMessage(id: string): Promise<MessageDocument> {
-    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
-      throw new BadRequestException('Invalid message ID format');
+  async deleteMessage(
+    id: string,
+    userId: string,
+    canModerate: boolean = false,
+  ): Promise<MessageDocument> {
+    const message = await this.findById(id);
+
+    if (getMessageAuthorId(message) !== userId && !canModerate) {
+      throw new ForbiddenException('You can only delete your own messages');
     }
 
-    const message = await this.messageModel.findByIdAndDelete(id).exec();
+    // Deleting twice is a no-op so retries and concurrent deletes agree
+    const tombstoned = await this.messageModel
+      .findOneAndUpdate(
+        { _id: id, deletedAt: null },
+        {
+          $set: {
+            text: '',
+            revisions: [],
+            reactions: {},
+            reactionCounts: {},
+            attachments: [],
+            linkPreviews: [],
+            mentions: [],
+            // Nothing left to review
+            flagged: false,
+            deletedAt: new Date(),
+            deletedBy: userId,
+          },
+        },
+        { new: true },
+      )
+      .populate('userId', 'username status')
+      .exec();
+    const deleted = tombstoned ?? (await this.findById(id));
 
-    if (!message) {
-      throw new NotFoundException(`Message with ID ${id} not found`);
+    if (tombstoned) {
+      await this.attachmentService.removeForMessage(id);
     }
 
-    return message;
+    // Deleted replies no longer count towards the thread
+    if (tombstoned?.parentId) {
+      await this.adjustReplyCount(String(tombstoned.parentId), -1);
+    }
+
+    // Evict from the recent-messages cache (DMs are not cached)
+    if (!deleted.conversationId) {
+      await this.redisService.removeCachedMessage(
+        id,
+        deleted.roomId ? String(deleted.roomId) : null,
+      );
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Get messages flagged for review by the moderation pipeline
+   * @param limit - Maximum number of messages
+   * @returns Flagged messages, newest first
+   */
+  async getFlaggedMessages(limit: number = 50): Promise<MessageDocument[]> {
+    return await this.messageModel
+      .find({ flagged: true, deletedAt: null })
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .populate('userId', 'username status')
+      .exec();
+  }
+
+  /**
+   * Mark a flagged message as reviewed and acceptable
+   * @param id - Message's MongoDB ObjectId
+   * @returns Updated message document
+   * @throws NotFoundException if message not found
+   */
+  async clearFlag(id: string): Promise<MessageDocument> {
+    await this.findById(id);
+
+    const message = await this.messageModel
+      .findByIdAndUpdate(
+        id,
+        { $set: { flagged: false, flagReasons: [] } },
+        { new: true },
+      )
+      .populate('userId', 'username status')
+      .exec();
+
+    return message!;
   }
 
   /**
@@ -185,6 +1058,7 @@ export class MessageService {
     const result = await this.messageModel
       .deleteMany({ userId: new Types.ObjectId(userId) })
       .exec();
+    await this.attachmentService.removeForUploader(userId);
 
     return result.deletedCount;
   }
@@ -194,7 +1068,7 @@ export class MessageService {
    * @returns Number of messages
    */
   async getMessageCount(): Promise<number> {
-    return await this.messageModel.countDocuments().exec();
+    return await this.messageModel.countDocuments({ deletedAt: null }).exec();
   }
 
   /**
@@ -208,63 +1082,188 @@ export class MessageService {
     }
 
     return await this.messageModel
-      .countDocuments({ userId: new Types.ObjectId(userId) })
+      .countDocuments({ userId: new Types.ObjectId(userId), deletedAt: null })
       .exec();
   }
 
   /**
-   * Search messages by text content
-   * @param searchText - Text to search for
-   * @param limit - Maximum number of results (default: 50)
-   * @returns Array of matching messages
+   * Full-text search over the messages a user can see, ranked by relevance
+   * @param userId - ID of the searching user
+   * @param searchDto - Query, filters, cursor and page size
+   * @returns Results with relevance score, snippet and highlight offsets,
+   * plus the cursor of the next page
+   * @throws BadRequestException if the cursor or date range is invalid
    */
   async searchMessages(
-    searchText: string,
-    limit: number = 50,
-  ): Promise<MessageDocument[]> {
-    return await this.messageModel
-      .find({
-        text: { $regex: searchText, $options: 'i' }, // Case-insensitive search
-      })
-      .sort({ timestamp: -1 })
-      .limit(limit)
-      .populate('userId', 'username status')
+    userId: string,
+    searchDto: SearchMessagesDto,
+  ): Promise<{
+    results: {
+      message: Message & { _id: Types.ObjectId };
+      score: number;
+      snippet: string;
+      highlights: Highlight[];
+    }[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const { q, authorId, roomId, from, to, cursor, limit = 20 } = searchDto;
+
+    // Only search the lobby, rooms the user can see and their own DMs
+    const rooms = await this.roomService.findAll(userId, true);
+    const visibleRoomIds = rooms
+      .map((room) => String(room._id))
+      .filter((id) => !roomId || id === roomId);
+
+    const filter: FilterQuery<MessageDocument> = {
+      $text: { $search: q },
+      deletedAt: null,
+      $or: roomId
+        ? [
+            {
+              roomId: {
+                $in: visibleRoomIds.map((id) => new Types.ObjectId(id)),
+              },
+            },
+          ]
+        : [
+            { roomId: null, conversationId: null },
+            {
+              roomId: {
+                $in: visibleRoomIds.map((id) => new Types.ObjectId(id)),
+              },
+            },
+            { conversationId: { $ne: null }, recipientId: userId },
+            {
+              conversationId: { $ne: null },
+              userId: new Types.ObjectId(userId),
+            },
+          ],
+    };
+
+    if (authorId) {
+      filter.userId = new Types.ObjectId(authorId);
+    }
+    if (from || to) {
+      if ([from, to].some((date) => date && isNaN(Date.parse(date)))) {
+        throw new BadRequestException('Invalid date range');
+      }
+      filter.timestamp = {
+        ...(from ? { $gte: new Date(from) } : {}),
+        ...(to ? { $lte: new Date(to) } : {}),
+      };
+    }
+
+    // Keyset condition on (score, timestamp, _id) for the next page
+    const after: FilterQuery<MessageDocument>[] = [];
+    if (cursor) {
+      const { score, timestamp, id } = decodeSearchCursor(cursor);
+      after.push({
+        $or: [
+          { score: { $lt: score } },
+          { score, timestamp: { $lt: timestamp } },
+          { score, timestamp, _id: { $lt: new Types.ObjectId(id) } },
+        ],
+      });
+    }
+
+    const page = await this.messageModel
+      .aggregate<
+        Message & { _id: Types.ObjectId; score: number }
+      >([{ $match: filter }, { $addFields: { score: { $meta: 'textScore' } } }, ...after.map((condition) => ({ $match: condition })), { $sort: { score: -1, timestamp: -1, _id: -1 } }, { $limit: limit + 1 }])
       .exec();
+
+    const hasMore = page.length > limit;
+    const hits = page.slice(0, limit);
+    await this.messageModel.populate(hits, {
+      path: 'userId',
+      select: 'username status',
+    });
+
+    return {
+      results: hits.map(({ score, ...message }) => ({
+        message,
+        score,
+        ...buildSnippet(message.text, q),
+      })),
+      nextCursor:
+        hasMore && hits.length
+          ? encodeSearchCursor(hits[hits.length - 1])
+          : null,
+      hasMore,
+    };
   }
 
   /**
-   * Get messages paginated
-   * @param page - Page number (starting from 1)
-   * @param pageSize - Number of messages per page
-   * @returns Object containing messages and pagination info
+   * Get a page of room or lobby history using keyset pagination
+   * @param options.roomId - Optional room ID; omit for the global lobby
+   * @param options.before - Cursor: return messages older than this one
+   * @param options.after - Cursor: return messages newer than this one
+   * @param options.limit - Page size
+   * @returns Messages (newest first), cursors of the page edges and whether
+   * more messages exist in the requested direction
    */
-  async getPaginatedMessages(
-    page: number = 1,
-    pageSize: number = 20,
-  ): Promise<{
+  async getHistory(options: {
+    roomId?: string;
+    before?: string;
+    after?: string;
+    limit?: number;
+  }): Promise<{
     messages: MessageDocument[];
-    totalMessages: number;
-    totalPages: number;
-    currentPage: number;
+    cursors: { before: string | null; after: string | null };
+    hasMore: boolean;
   }> {
-    const skip = (page - 1) * pageSize;
+    const { roomId, before, after, limit = 50 } = options;
 
-    const [messages, totalMessages] = await Promise.all([
-      this.messageModel
-        .find()
-        .sort({ timestamp: -1 })
-        .skip(skip)
-        .limit(pageSize)
-        .populate('userId', 'username status')
-        .exec(),
-      this.messageModel.countDocuments().exec(),
-    ]);
+    if (roomId && !roomId.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid room ID format');
+    }
+    if (before && after) {
+      throw new BadRequestException('Use either before or after, not both');
+    }
+
+    const filter: FilterQuery<MessageDocument> = {
+      roomId: roomId ? new Types.ObjectId(roomId) : null,
+      conversationId: null,
+      parentId: null,
+      deletedAt: null,
+    };
+
+    // Keyset condition on (timestamp, _id), which stays stable while new
+    // messages arrive
+    const cursor = before || after;
+    if (cursor) {
+      const { timestamp, id } = decodeCursor(cursor);
+      const op = before ? '$lt' : '$gt';
+      filter.$or = [
+        { timestamp: { [op]: timestamp } },
+        { timestamp, _id: { [op]: new Types.ObjectId(id) } },
+      ];
+    }
+
+    const direction = after ? 1 : -1;
+    const page = await this.messageModel
+      .find(filter)
+      .sort({ timestamp: direction, _id: direction })
+      .limit(limit + 1)
+      .populate('userId', 'username status')
+      .exec();
+
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit);
+    if (after) {
+      messages.reverse();
+    }
 
     return {
       messages,
-      totalMessages,
-      totalPages: Math.ceil(totalMessages / pageSize),
-      currentPage: page,
+      cursors: {
+        before: messages.length
+          ? encodeCursor(messages[messages.length - 1])
+          : null,
+        after: messages.length ? encodeCursor(messages[0]) : null,
+      },
+      hasMore,
     };
   }
 }
@@ -1,5 +1,27 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import {
+  MessageAttachment,
+  MessageAttachmentSchema,
+} from '../../attachment/schemas/attachment.schema';
+import {
+  LinkPreview,
+  LinkPreviewSchema,
+} from '../../link-preview/schemas/link-preview.schema';
+
+// A previous version of a message's text
+@Schema({ _id: false })
+export class MessageRevision {
+  @Prop({ required: true })
+  text: string;
+
+  // When this text was replaced by an edit
+  @Prop({ required: true })
+  editedAt: Date;
+}
+
+export const MessageRevisionSchema =
+  SchemaFactory.createForClass(MessageRevision);
 
 @Schema({ timestamps: true })
 export class Message {
@@ -15,10 +37,79 @@ export class Message {
   @Prop({ required: false })
   customUserId?: string;
 
-  // Message text (always required)
-  @Prop({ required: true, trim: true })
+  // Room the message was posted in (null for the global lobby)
+  @Prop({ type: Types.ObjectId, ref: 'Room', default: null })
+  roomId?: Types.ObjectId | null;
+
+  // Direct message conversation (null for room and lobby messages)
+  @Prop({ type: Types.ObjectId, ref: 'Conversation', default: null })
+  conversationId?: Types.ObjectId | null;
+
+  // Recipient user ID for direct messages
+  @Prop({ required: false })
+  recipientId?: string;
+
+  // When a direct message reached the recipient (null while they are offline)
+  @Prop({ type: Date, default: null })
+  deliveredAt?: Date | null;
+
+  // Parent message for threaded replies (null for top-level messages)
+  @Prop({ type: Types.ObjectId, ref: 'Message', default: null })
+  parentId?: Types.ObjectId | null;
+
+  // Thread summary kept on the parent message
+  @Prop({ default: 0 })
+  replyCount: number;
+
+  @Prop({ type: Date, default: null })
+  lastReplyAt?: Date | null;
+
+  // Message text (empty when the message only carries attachments)
+  @Prop({ default: '', trim: true })
   text: string;
 
+  // Files sent with the message
+  @Prop({ type: [MessageAttachmentSchema], default: [] })
+  attachments: MessageAttachment[];
+
+  // IDs of the users mentioned with @username, @here or @everyone
+  @Prop({ type: [String], default: [] })
+  mentions: string[];
+
+  // Unfurled links, filled in shortly after the message is sent
+  @Prop({ type: [LinkPreviewSchema], default: [] })
+  linkPreviews: LinkPreview[];
+
+  // Prior versions of the text, oldest first
+  @Prop({ type: [MessageRevisionSchema], default: [] })
+  revisions: MessageRevision[];
+
+  // Time of the latest edit (null if never edited)
+  @Prop({ type: Date, default: null })
+  editedAt?: Date | null;
+
+  // Reactions: emoji -> IDs of the users who reacted with it
+  @Prop({ type: Map, of: [String], default: {} })
+  reactions: Map<string, string[]>;
+
+  // Reactions: emoji -> number of users who reacted with it
+  @Prop({ type: Map, of: Number, default: {} })
+  reactionCounts: Map<string, number>;
+
+  // Set by the moderation pipeline when a message needs review
+  @Prop({ default: false })
+  flagged: boolean;
+
+  @Prop({ type: [String], default: [] })
+  flagReasons: string[];
+
+  // Soft-delete tombstone: text is cleared and these record who and when
+  @Prop({ type: Date, default: null })
+  deletedAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  deletedBy?: string | null;
+
   // Timestamp (always required)
   @Prop({ default: Date.now })
   timestamp: Date;
@@ -34,7 +125,34 @@ export class Message {
 export type MessageDocument = Message & Document;
 export const MessageSchema = SchemaFactory.createForClass(Message);
 
+/**
+ * Get the author's user ID whether or not `userId` was populated
+ */
+export const getMessageAuthorId = (message: {
+  userId?: unknown;
+}): string | null => {
+  // Populated documents carry the ID in _id
+  const userId = message.userId as
+    | Types.ObjectId
+    | { _id: Types.ObjectId }
+    | null
+    | undefined;
+  if (!userId) {
+    return null;
+  }
+  return String(userId._id ?? userId);
+};
+
 // Add index for better query performance
 MessageSchema.index({ timestamp: -1 });
 MessageSchema.index({ userId: 1 });
 MessageSchema.index({ customUserId: 1 });
+MessageSchema.index({ roomId: 1, timestamp: -1, _id: -1 });
+MessageSchema.index({ conversationId: 1, timestamp: -1 });
+MessageSchema.index({ recipientId: 1, deliveredAt: 1 });
+MessageSchema.index({ parentId: 1, timestamp: 1 });
+MessageSchema.index({ flagged: 1, timestamp: -1 });
+MessageSchema.index({ mentions: 1, timestamp: -1, _id: -1 });
+
+// Full-text search (one text index per collection)
+MessageSchema.index({ text: 'text' });
@@ -0,0 +1,44 @@
+import {
+  buildSnippet,
+  escapeRegExp,
+  getSearchTerms,
+} from './search-snippet.util';
+
+describe('search snippets', () => {
+  it('should parse phrases and drop excluded words', () => {
+    expect(getSearchTerms('deploy "release train" -friday')).toEqual([
+      'release train',
+      'deploy',
+    ]);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(new RegExp(escapeRegExp('a.*b')).test('a.*b')).toBe(true);
+    expect(new RegExp(escapeRegExp('a.*b')).test('axxb')).toBe(false);
+  });
+
+  it('should highlight every term occurrence in the snippet', () => {
+    const { snippet, highlights } = buildSnippet(
+      'We decided to Deploy on Monday, deploy again Tuesday',
+      'deploy',
+    );
+
+    expect(snippet).toBe(
+      'We decided to Deploy on Monday, deploy again Tuesday',
+    );
+    expect(
+      highlights.map(({ start, end }) => snippet.slice(start, end)),
+    ).toEqual(['Deploy', 'deploy']);
+  });
+
+  it('should cut long texts around the first match', () => {
+    const text = `${'a '.repeat(100)}needle${' b'.repeat(100)}`;
+    const { snippet, highlights } = buildSnippet(text, 'needle');
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe(
+      'needle',
+    );
+  });
+});
@@ -0,0 +1,76 @@
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * A highlighted range within a snippet, as [start, end) offsets
+ */
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+export const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a text search query into the words and phrases it looks for
+ * (excluded "-words" are dropped)
+ * @param query - Text search query
+ * @returns Search terms, longest first
+ */
+export const getSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const excluded = match[1] || match[3];
+    const term = (match[2] ?? match[4]).trim();
+    if (!excluded && term) {
+      terms.push(term);
+    }
+  }
+
+  return [...new Set(terms)].sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Cut a snippet around the first search term in a text and mark where the
+ * terms occur in it
+ * @param text - Message text
+ * @param query - Text search query
+ * @returns Snippet (with "…" where text was cut) and highlight offsets
+ */
+export const buildSnippet = (
+  text: string,
+  query: string,
+): { snippet: string; highlights: Highlight[] } => {
+  const terms = getSearchTerms(query);
+  const matcher = terms.length
+    ? new RegExp(terms.map(escapeRegExp).join('|'), 'gi')
+    : null;
+
+  const first = matcher ? text.search(matcher) : -1;
+  const start = Math.max((first === -1 ? 0 : first) - SNIPPET_CONTEXT, 0);
+  const end = Math.min(
+    (first === -1 ? 0 : first) + SNIPPET_CONTEXT * 2,
+    text.length,
+  );
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${suffix}`;
+
+  const highlights: Highlight[] = [];
+  if (matcher) {
+    for (const match of snippet.matchAll(matcher)) {
+      highlights.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  return { snippet, highlights };
+};
@@ -0,0 +1,53 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  MODERATION_ACTIONS,
+  MODERATION_RULE_TYPES,
+} from '../schemas/moderation-rule.schema';
+import type {
+  ModerationAction,
+  ModerationRuleType,
+} from '../schemas/moderation-rule.schema';
+
+export class CreateModerationRuleDto {
+  @IsIn(MODERATION_RULE_TYPES)
+  type: ModerationRuleType;
+
+  @IsIn(MODERATION_ACTIONS)
+  action: ModerationAction;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  words?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  pattern?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
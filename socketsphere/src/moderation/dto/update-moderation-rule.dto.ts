@@ -0,0 +1,46 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MODERATION_ACTIONS } from '../schemas/moderation-rule.schema';
+import type { ModerationAction } from '../schemas/moderation-rule.schema';
+
+// A rule's type cannot change; create a new rule instead
+export class UpdateModerationRuleDto {
+  @IsOptional()
+  @IsIn(MODERATION_ACTIONS)
+  action?: ModerationAction;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  words?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  pattern?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,92 @@
+import {
+  ModerationRuleConfig,
+  applyModerationRule,
+  validateModerationRule,
+} from './moderation-filter.util';
+
+const rule = (
+  overrides: Partial<ModerationRuleConfig>,
+): ModerationRuleConfig => ({
+  type: 'blocklist',
+  action: 'mask',
+  words: [],
+  pattern: null,
+  limit: null,
+  description: null,
+  ...overrides,
+});
+
+describe('applyModerationRule', () => {
+  it('should mask blocked words only as whole words', () => {
+    expect(
+      applyModerationRule(rule({ words: ['darn'] }), 'Darn it, darnell'),
+    ).toEqual({ matched: true, text: '**** it, darnell' });
+    expect(
+      applyModerationRule(rule({ words: ['darn'] }), 'darnell is here'),
+    ).toEqual({ matched: false, text: 'darnell is here' });
+  });
+
+  it('should mask regex matches', () => {
+    expect(
+      applyModerationRule(
+        rule({ type: 'regex', pattern: '\\d{3}-\\d{4}' }),
+        'call 555-1234',
+      ),
+    ).toEqual({ matched: true, text: 'call ********' });
+  });
+
+  it('should detect invite links', () => {
+    expect(
+      applyModerationRule(
+        rule({ type: 'inviteLink' }),
+        'join https://discord.gg/abc123 now',
+      ).matched,
+    ).toBe(true);
+    expect(
+      applyModerationRule(
+        rule({ type: 'inviteLink' }),
+        'see https://nestjs.com',
+      ).matched,
+    ).toBe(false);
+  });
+
+  it('should truncate messages over the maximum length', () => {
+    expect(
+      applyModerationRule(rule({ type: 'maxLength', limit: 5 }), 'hello world'),
+    ).toEqual({ matched: true, text: 'hello' });
+  });
+
+  it('should detect excessive caps but ignore short shouts', () => {
+    expect(
+      applyModerationRule(
+        rule({ type: 'caps', limit: 70 }),
+        'STOP SHOUTING NOW',
+      ),
+    ).toEqual({ matched: true, text: 'stop shouting now' });
+    expect(
+      applyModerationRule(rule({ type: 'caps', limit: 70 }), 'OK LOL').matched,
+    ).toBe(false);
+  });
+
+  it('should shorten runs of repeated characters', () => {
+    expect(
+      applyModerationRule(
+        rule({ type: 'repeatedChars', limit: 3 }),
+        'nooooooo!!!!!',
+      ),
+    ).toEqual({ matched: true, text: 'nooo!!!' });
+  });
+});
+
+describe('validateModerationRule', () => {
+  it('should require the settings of each rule type', () => {
+    expect(validateModerationRule(rule({ words: [' '] }))).not.toBeNull();
+    expect(
+      validateModerationRule(rule({ type: 'regex', pattern: '(' })),
+    ).not.toBeNull();
+    expect(
+      validateModerationRule(rule({ type: 'caps', limit: 150 })),
+    ).not.toBeNull();
+    expect(validateModerationRule(rule({ type: 'inviteLink' }))).toBeNull();
+  });
+});
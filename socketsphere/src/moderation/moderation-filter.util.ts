@@ -0,0 +1,155 @@
+import { escapeRegExp } from '../message/search-snippet.util';
+import { ModerationRule } from './schemas/moderation-rule.schema';
+
+export type ModerationRuleConfig = Pick<
+  ModerationRule,
+  'type' | 'action' | 'words' | 'pattern' | 'limit' | 'description'
+>;
+
+// Invitations to other chat platforms
+const INVITE_LINK_PATTERN =
+  /(?:https?:\/\/)?(?:www\.)?(?:discord(?:app)?\.(?:gg|com\/invite)|t\.me|telegram\.me|chat\.whatsapp\.com)\/[\w-]+/giu;
+
+// Short shouts like "OK" or "LOL" are not excessive caps
+const MIN_CAPS_LETTERS = 8;
+
+const DEFAULT_REASONS: Record<ModerationRuleConfig['type'], string> = {
+  blocklist: 'contains a blocked word',
+  regex: 'matches a blocked pattern',
+  maxLength: 'is too long',
+  caps: 'uses excessive capital letters',
+  repeatedChars: 'repeats characters excessively',
+  inviteLink: 'contains an invite link',
+};
+
+const maskText = (value: string): string => '*'.repeat([...value].length);
+
+/**
+ * Replace every non-empty match of a pattern
+ */
+const replaceMatches = (
+  text: string,
+  pattern: RegExp,
+  replace: (match: string) => string,
+): { matched: boolean; text: string } => {
+  let matched = false;
+  const result = text.replace(pattern, (match: string) => {
+    if (!match) {
+      return match;
+    }
+    matched = true;
+    return replace(match);
+  });
+
+  return { matched, text: result };
+};
+
+/**
+ * Check a text against a moderation rule
+ * @param rule - Rule to apply
+ * @param text - Message text
+ * @returns Whether the rule matched and the text with the matches masked
+ */
+export const applyModerationRule = (
+  rule: ModerationRuleConfig,
+  text: string,
+): { matched: boolean; text: string } => {
+  const limit = rule.limit ?? 0;
+
+  switch (rule.type) {
+    case 'blocklist': {
+      const words = rule.words.map((word) => word.trim()).filter(Boolean);
+      if (!words.length) {
+        return { matched: false, text };
+      }
+
+      // Whole words only, so "class" does not match "ass"
+      const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+        'giu',
+      );
+      return replaceMatches(text, pattern, maskText);
+    }
+
+    case 'regex':
+      return rule.pattern
+        ? replaceMatches(text, new RegExp(rule.pattern, 'giu'), maskText)
+        : { matched: false, text };
+
+    case 'inviteLink':
+      return replaceMatches(text, INVITE_LINK_PATTERN, maskText);
+
+    case 'maxLength': {
+      const chars = [...text];
+      return chars.length > limit
+        ? { matched: true, text: chars.slice(0, limit).join('') }
+        : { matched: false, text };
+    }
+
+    case 'caps': {
+      const letters: string[] = text.match(/\p{L}/gu) ?? [];
+      const capitals = letters.filter(
+        (letter) => letter !== letter.toLowerCase(),
+      );
+      return letters.length >= MIN_CAPS_LETTERS &&
+        (capitals.length * 100) / letters.length > limit
+        ? { matched: true, text: text.toLowerCase() }
+        : { matched: false, text };
+    }
+
+    case 'repeatedChars':
+      // Shorten each run to the allowed length
+      return replaceMatches(
+        text,
+        new RegExp(`(.)\\1{${limit},}`, 'gsu'),
+        (run) => [...run].slice(0, limit).join(''),
+      );
+  }
+};
+
+/**
+ * Check that a rule has the settings its type needs
+ * @param rule - Rule to check
+ * @returns An error message, or null when the rule is valid
+ */
+export const validateModerationRule = (
+  rule: ModerationRuleConfig,
+): string | null => {
+  switch (rule.type) {
+    case 'blocklist':
+      return rule.words?.some((word) => word.trim())
+        ? null
+        : 'blocklist rules need at least one word';
+
+    case 'regex':
+      if (!rule.pattern) {
+        return 'regex rules need a pattern';
+      }
+      try {
+        new RegExp(rule.pattern, 'giu');
+        return null;
+      } catch {
+        return 'pattern is not a valid regular expression';
+      }
+
+    case 'maxLength':
+    case 'repeatedChars':
+      return rule.limit && rule.limit >= 1
+        ? null
+        : `${rule.type} rules need a limit`;
+
+    case 'caps':
+      return rule.limit && rule.limit >= 1 && rule.limit <= 100
+        ? null
+        : 'caps rules need a limit between 1 and 100 (percent)';
+
+    case 'inviteLink':
+      return null;
+  }
+};
+
+/**
+ * Describe why a rule matched
+ */
+export const getModerationReason = (rule: ModerationRuleConfig): string =>
+  rule.description || `Message ${DEFAULT_REASONS[rule.type]}`;
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import { CreateModerationRuleDto } from './dto/create-moderation-rule.dto';
+import { UpdateModerationRuleDto } from './dto/update-moderation-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('moderation/rules')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  /**
+   * GET /moderation/rules
+   * List all moderation rules (moderators and admins)
+   */
+  @Get()
+  @RequirePermissions('moderation:rules:read')
+  async getRules() {
+    const rules = await this.moderationService.findAll();
+    return {
+      success: true,
+      data: rules,
+      count: rules.length,
+    };
+  }
+
+  /**
+   * POST /moderation/rules
+   * Create a moderation rule (admins only)
+   */
+  @Post()
+  @RequirePermissions('moderation:rules:write')
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(
+    @Body() createRuleDto: CreateModerationRuleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const rule = await this.moderationService.createRule(
+      createRuleDto,
+      user.userId,
+    );
+    return {
+      success: true,
+      message: 'Moderation rule created successfully',
+      data: rule,
+    };
+  }
+
+  /**
+   * PATCH /moderation/rules/:id
+   * Change or enable/disable a moderation rule (admins only)
+   */
+  @Patch(':id')
+  @RequirePermissions('moderation:rules:write')
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateRuleDto: UpdateModerationRuleDto,
+  ) {
+    const rule = await this.moderationService.updateRule(id, updateRuleDto);
+    return {
+      success: true,
+      message: 'Moderation rule updated successfully',
+      data: rule,
+    };
+  }
+
+  /**
+   * DELETE /moderation/rules/:id
+   * Delete a moderation rule (admins only)
+   */
+  @Delete(':id')
+  @RequirePermissions('moderation:rules:write')
+  async deleteRule(@Param('id') id: string) {
+    const rule = await this.moderationService.deleteRule(id);
+    return {
+      success: true,
+      message: 'Moderation rule deleted successfully',
+      data: rule,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ModerationRule,
+  ModerationRuleSchema,
+} from './schemas/moderation-rule.schema';
+import { ModerationService } from './moderation.service';
+import { ModerationController } from './moderation.controller';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ModerationRule.name, schema: ModerationRuleSchema },
+    ]),
+    UserModule,
+  ],
+  controllers: [ModerationController],
+  providers: [ModerationService],
+  exports: [ModerationService],
+})
+export class ModerationModule {}
@@ -0,0 +1,228 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  ModerationRule,
+  ModerationRuleDocument,
+} from './schemas/moderation-rule.schema';
+import { CreateModerationRuleDto } from './dto/create-moderation-rule.dto';
+import { UpdateModerationRuleDto } from './dto/update-moderation-rule.dto';
+import {
+  ModerationRuleConfig,
+  applyModerationRule,
+  getModerationReason,
+  validateModerationRule,
+} from './moderation-filter.util';
+import { RedisService } from '../redis/redis.service';
+
+export interface ModerationResult {
+  // Text to store (with masked parts replaced)
+  text: string;
+  // Reasons the message needs review by a moderator (empty if none)
+  flagReasons: string[];
+}
+
+// Rejections are decided before anything is masked
+const ACTION_ORDER = { reject: 0, mask: 1, flag: 2 };
+
+/**
+ * Moderation Service - Checks message text against the configured rules
+ *
+ * Rules live in Mongo and are cached in Redis so every instance applies the
+ * same policy; changing a rule refreshes the cache.
+ */
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+  private readonly RULES_CACHE_KEY = 'moderation:rules';
+  private readonly RULES_CACHE_TTL = 3600;
+
+  constructor(
+    @InjectModel(ModerationRule.name)
+    private moderationRuleModel: Model<ModerationRuleDocument>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Run a message text through the enabled rules
+   * @param text - Message text
+   * @returns The text to store and the reasons to flag it for review
+   * @throws BadRequestException if a rule rejects the message
+   */
+  async moderate(text: string): Promise<ModerationResult> {
+    const rules = await this.getActiveRules();
+    let result = text;
+    const flagReasons: string[] = [];
+
+    for (const rule of rules) {
+      const { matched, text: masked } = applyModerationRule(rule, result);
+      if (!matched) {
+        continue;
+      }
+
+      const reason = getModerationReason(rule);
+      if (rule.action === 'reject') {
+        throw new BadRequestException(`Message rejected: ${reason}`);
+      }
+      if (rule.action === 'mask') {
+        result = masked;
+      } else {
+        flagReasons.push(reason);
+      }
+    }
+
+    if (!result.trim()) {
+      throw new BadRequestException('Message rejected: nothing left to send');
+    }
+
+    return { text: result, flagReasons };
+  }
+
+  /**
+   * Get all rules
+   * @returns Array of rules, oldest first
+   */
+  async findAll(): Promise<ModerationRuleDocument[]> {
+    return await this.moderationRuleModel.find().sort({ createdAt: 1 }).exec();
+  }
+
+  /**
+   * Create a rule
+   * @param createRuleDto - DTO describing the rule
+   * @param userId - Admin creating the rule
+   * @returns Created rule
+   * @throws BadRequestException if the rule is missing settings its type needs
+   */
+  async createRule(
+    createRuleDto: CreateModerationRuleDto,
+    userId: string,
+  ): Promise<ModerationRuleDocument> {
+    this.assertValid({
+      ...createRuleDto,
+      words: createRuleDto.words ?? [],
+    });
+
+    const rule = await new this.moderationRuleModel({
+      ...createRuleDto,
+      createdBy: userId,
+    }).save();
+    await this.refreshCache();
+
+    this.logger.log(`🛡️ Moderation rule ${String(rule._id)} created`);
+    return rule;
+  }
+
+  /**
+   * Update a rule
+   * @param id - Rule's MongoDB ObjectId
+   * @param updateRuleDto - Settings to change
+   * @returns Updated rule
+   * @throws NotFoundException if rule not found
+   * @throws BadRequestException if the result would be invalid
+   */
+  async updateRule(
+    id: string,
+    updateRuleDto: UpdateModerationRuleDto,
+  ): Promise<ModerationRuleDocument> {
+    const rule = await this.findById(id);
+    rule.set(updateRuleDto);
+    this.assertValid(rule);
+
+    const saved = await rule.save();
+    await this.refreshCache();
+
+    this.logger.log(`🛡️ Moderation rule ${id} updated`);
+    return saved;
+  }
+
+  /**
+   * Delete a rule
+   * @param id - Rule's MongoDB ObjectId
+   * @returns Deleted rule
+   * @throws NotFoundException if rule not found
+   */
+  async deleteRule(id: string): Promise<ModerationRuleDocument> {
+    const rule = await this.moderationRuleModel.findByIdAndDelete(id).exec();
+
+    if (!rule) {
+      throw new NotFoundException(`Moderation rule with ID ${id} not found`);
+    }
+
+    await this.refreshCache();
+
+    this.logger.log(`🛡️ Moderation rule ${id} deleted`);
+    return rule;
+  }
+
+  /**
+   * Find rule by ID
+   * @throws NotFoundException if rule not found
+   */
+  private async findById(id: string): Promise<ModerationRuleDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid rule ID format');
+    }
+
+    const rule = await this.moderationRuleModel.findById(id).exec();
+
+    if (!rule) {
+      throw new NotFoundException(`Moderation rule with ID ${id} not found`);
+    }
+
+    return rule;
+  }
+
+  private assertValid(rule: ModerationRuleConfig): void {
+    const error = validateModerationRule(rule);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
+  /**
+   * Enabled rules in the order they are applied (from Redis when cached)
+   */
+  private async getActiveRules(): Promise<ModerationRuleConfig[]> {
+    const cached = await this.redisService.get(this.RULES_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as ModerationRuleConfig[];
+    }
+
+    return await this.refreshCache();
+  }
+
+  /**
+   * Load the enabled rules from Mongo and share them with all instances
+   */
+  private async refreshCache(): Promise<ModerationRuleConfig[]> {
+    const rules: ModerationRuleConfig[] = (
+      await this.moderationRuleModel.find({ enabled: true }).lean().exec()
+    )
+      .map(({ type, action, words, pattern, limit, description }) => ({
+        type,
+        action,
+        words,
+        pattern,
+        limit,
+        description,
+      }))
+      .sort((a, b) => ACTION_ORDER[a.action] - ACTION_ORDER[b.action]);
+
+    try {
+      await this.redisService.set(
+        this.RULES_CACHE_KEY,
+        JSON.stringify(rules),
+        this.RULES_CACHE_TTL,
+      );
+    } catch {
+      // Mongo stays the source of truth; the next message retries the cache
+    }
+
+    return rules;
+  }
+}
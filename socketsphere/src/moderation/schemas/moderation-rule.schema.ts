@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+// What a rule checks for
+export const MODERATION_RULE_TYPES = [
+  'blocklist',
+  'regex',
+  'maxLength',
+  'caps',
+  'repeatedChars',
+  'inviteLink',
+];
+export type ModerationRuleType =
+  | 'blocklist'
+  | 'regex'
+  | 'maxLength'
+  | 'caps'
+  | 'repeatedChars'
+  | 'inviteLink';
+
+// What happens to a message that matches a rule
+export const MODERATION_ACTIONS = ['reject', 'mask', 'flag'];
+export type ModerationAction = 'reject' | 'mask' | 'flag';
+
+@Schema({ timestamps: true })
+export class ModerationRule {
+  @Prop({ required: true, enum: MODERATION_RULE_TYPES })
+  type: ModerationRuleType;
+
+  @Prop({ required: true, enum: MODERATION_ACTIONS })
+  action: ModerationAction;
+
+  // Blocked words (blocklist rules)
+  @Prop({ type: [String], default: [] })
+  words: string[];
+
+  // Regular expression source (regex rules)
+  @Prop({ type: String, default: null })
+  pattern?: string | null;
+
+  // Maximum length (maxLength), percentage of capital letters (caps) or
+  // number of identical characters in a row (repeatedChars)
+  @Prop({ type: Number, default: null })
+  limit?: number | null;
+
+  // Reason shown to the sender or the reviewing moderator
+  @Prop({ type: String, default: null, maxlength: 200 })
+  description?: string | null;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  // Admin who created the rule
+  @Prop({ required: true })
+  createdBy: string;
+}
+
+export type ModerationRuleDocument = ModerationRule & Document;
+export const ModerationRuleSchema =
+  SchemaFactory.createForClass(ModerationRule);
+
+ModerationRuleSchema.index({ enabled: 1 });
@@ -0,0 +1,23 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateSystemNoticeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  text: string;
+
+  // Recipients (every user when omitted)
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsMongoId({ each: true })
+  userIds?: string[];
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { CreateSystemNoticeDto } from './dto/create-system-notice.dto';
+import { UserService } from '../user/user.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class NotificationController {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * GET /notifications?unread=true&before=&limit=
+   * Page through the authenticated user's notifications, with unread counts
+   */
+  @Get()
+  async getNotifications(
+    @CurrentUser() user: AuthUser,
+    @Query('unread') unread?: string,
+    @Query('before') before?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { notifications, nextCursor, hasMore } =
+      await this.notificationService.findForUser(user.userId, {
+        unreadOnly: unread === 'true',
+        before,
+        limit: limit
+          ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 100)
+          : 50,
+      });
+    const unreadCounts = await this.notificationService.getUnreadCounts(
+      user.userId,
+    );
+
+    return {
+      success: true,
+      data: notifications,
+      count: notifications.length,
+      unreadCounts,
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  /**
+   * POST /notifications/system
+   * Send a system notice to some or all users (admins only)
+   */
+  @Post('system')
+  @RequirePermissions('notification:system')
+  @HttpCode(HttpStatus.CREATED)
+  async createSystemNotice(
+    @Body() createSystemNoticeDto: CreateSystemNoticeDto,
+  ) {
+    const userIds =
+      createSystemNoticeDto.userIds ??
+      (await this.userService.findAll()).map((user) => String(user._id));
+
+    const notifications = await this.notificationService.notify(userIds, {
+      type: 'system',
+      text: createSystemNoticeDto.text,
+    });
+    return {
+      success: true,
+      message: 'System notice sent successfully',
+      count: notifications.length,
+    };
+  }
+}
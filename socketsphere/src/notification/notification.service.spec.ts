@@ -0,0 +1,90 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationService } from './notification.service';
+import { Notification } from './schemas/notification.schema';
+import { RealtimeService } from '../realtime/realtime.service';
+
+describe('NotificationService', () => {
+  let notificationService: NotificationService;
+  const notificationModel = {
+    insertMany: jest.fn((docs: Record<string, unknown>[]) =>
+      Promise.resolve(docs.map((doc, i) => ({ _id: `n${i}`, ...doc }))),
+    ),
+    updateMany: jest.fn(() => ({ exec: () => Promise.resolve() })),
+    deleteMany: jest.fn(() => ({
+      exec: () => Promise.resolve({ deletedCount: 2 }),
+    })),
+    aggregate: jest.fn(() => ({
+      exec: () =>
+        Promise.resolve([
+          { _id: 'mention', count: 2 },
+          { _id: 'system', count: 1 },
+        ]),
+    })),
+  };
+  const realtimeService = {
+    emitToUser: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        {
+          provide: getModelToken(Notification.name),
+          useValue: notificationModel,
+        },
+        { provide: RealtimeService, useValue: realtimeService },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+
+    notificationService = app.get<NotificationService>(NotificationService);
+  });
+
+  it('should store one notification per recipient and push it', async () => {
+    const created = await notificationService.notify(
+      ['alice', 'bob', 'alice'],
+      {
+        type: 'system',
+        text: 'Maintenance at noon',
+      },
+    );
+
+    expect(created).toHaveLength(2);
+    expect(realtimeService.emitToUser).toHaveBeenCalledWith(
+      'bob',
+      'notification',
+      expect.objectContaining({ userId: 'bob', type: 'system' }),
+    );
+  });
+
+  it('should sync read state and counts to the other devices', async () => {
+    const counts = await notificationService.markRead('alice');
+
+    expect(counts).toEqual({ total: 3, byType: { mention: 2, system: 1 } });
+    expect(notificationModel.updateMany).toHaveBeenCalledWith(
+      { userId: 'alice', readAt: null },
+      expect.anything(),
+    );
+    expect(realtimeService.emitToUser).toHaveBeenCalledWith(
+      'alice',
+      'notificationsRead',
+      { notificationIds: null, unreadCounts: counts },
+    );
+  });
+
+  it('should prune notifications past the retention period', async () => {
+    await expect(notificationService.prune()).resolves.toBe(2);
+
+    const [[filter]] = notificationModel.deleteMany.mock.calls as unknown as [
+      [{ createdAt: { $lt: Date } }],
+    ];
+    expect(Date.now() - filter.createdAt.$lt.getTime()).toBeGreaterThanOrEqual(
+      30 * 24 * 3600 * 1000,
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Notification,
+  NotificationDocument,
+  NotificationType,
+} from './schemas/notification.schema';
+import { RealtimeService } from '../realtime/realtime.service';
+import { decodeCursor, encodeCursor } from '../message/message-cursor.util';
+
+export interface NotificationInput {
+  type: NotificationType;
+  text: string;
+  actorId?: string | null;
+  actorName?: string | null;
+  messageId?: string | null;
+  roomId?: string | null;
+  data?: Record<string, unknown> | null;
+}
+
+export interface UnreadCounts {
+  total: number;
+  byType: Partial<Record<NotificationType, number>>;
+}
+
+/**
+ * Notification Service - Persistent per-user inbox
+ *
+ * Notifications are stored so users who were offline get them when they
+ * join; connected users also receive each one as a `notification` event.
+ * Entries older than NOTIFICATION_RETENTION_DAYS are pruned periodically.
+ */
+@Injectable()
+export class NotificationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationService.name);
+  private readonly retentionDays: number;
+  private readonly pruneInterval: number;
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(Notification.name)
+    private notificationModel: Model<NotificationDocument>,
+    private readonly realtimeService: RealtimeService,
+    configService: ConfigService,
+  ) {
+    this.retentionDays = Number(
+      configService.get('NOTIFICATION_RETENTION_DAYS', 30),
+    );
+    this.pruneInterval = Number(
+      configService.get('NOTIFICATION_PRUNE_INTERVAL', 3600),
+    );
+  }
+
+  onModuleInit() {
+    this.pruneTimer = setInterval(() => {
+      void this.prune();
+    }, this.pruneInterval * 1000);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.pruneTimer);
+  }
+
+  /**
+   * Store a notification for each recipient and push it to the ones online
+   * @param userIds - Recipients' user IDs
+   * @param input - Notification content
+   * @returns Created notifications
+   */
+  async notify(
+    userIds: string[],
+    input: NotificationInput,
+  ): Promise<NotificationDocument[]> {
+    const recipients = [...new Set(userIds)];
+    if (recipients.length === 0) {
+      return [];
+    }
+
+    const notifications = await this.notificationModel.insertMany(
+      recipients.map((userId) => ({
+        userId,
+        type: input.type,
+        text: input.text,
+        actorId: input.actorId ?? null,
+        actorName: input.actorName ?? null,
+        messageId: input.messageId ? new Types.ObjectId(input.messageId) : null,
+        roomId: input.roomId ? new Types.ObjectId(input.roomId) : null,
+        data: input.data ?? null,
+      })),
+    );
+
+    notifications.forEach((notification) =>
+      this.realtimeService.emitToUser(
+        notification.userId,
+        'notification',
+        notification,
+      ),
+    );
+
+    return notifications;
+  }
+
+  /**
+   * Get a page of a user's notifications, newest first
+   * @param userId - User's MongoDB ObjectId
+   * @param options - Only unread ones, cursor of the last loaded entry and
+   * page size
+   * @returns Notifications, the cursor of the next page and whether it
+   * exists
+   */
+  async findForUser(
+    userId: string,
+    options: { unreadOnly?: boolean; before?: string; limit?: number } = {},
+  ): Promise<{
+    notifications: NotificationDocument[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const { unreadOnly = false, before, limit = 50 } = options;
+    const filter: FilterQuery<NotificationDocument> = { userId };
+
+    if (unreadOnly) {
+      filter.readAt = null;
+    }
+    if (before) {
+      const { timestamp, id } = decodeCursor(before);
+      filter.$or = [
+        { createdAt: { $lt: timestamp } },
+        { createdAt: timestamp, _id: { $lt: new Types.ObjectId(id) } },
+      ];
+    }
+
+    const page = await this.notificationModel
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = page.length > limit;
+    const notifications = page.slice(0, limit);
+    const last = notifications[notifications.length - 1];
+
+    return {
+      notifications,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ timestamp: last.createdAt!, _id: last._id })
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Count a user's unread notifications
+   * @param userId - User's MongoDB ObjectId
+   * @returns Total and per-type unread counts
+   */
+  async getUnreadCounts(userId: string): Promise<UnreadCounts> {
+    const groups = await this.notificationModel
+      .aggregate<{
+        _id: NotificationType;
+        count: number;
+      }>([
+        { $match: { userId, readAt: null } },
+        { $group: { _id: '$type', count: { $sum: 1 } } },
+      ])
+      .exec();
+
+    return {
+      total: groups.reduce((sum, group) => sum + group.count, 0),
+      byType: Object.fromEntries(
+        groups.map((group) => [group._id, group.count]),
+      ),
+    };
+  }
+
+  /**
+   * Mark notifications as read and sync the user's other devices
+   * @param userId - User's MongoDB ObjectId
+   * @param notificationIds - Notifications to mark (all when omitted)
+   * @returns Unread counts afterwards
+   */
+  async markRead(
+    userId: string,
+    notificationIds?: string[],
+  ): Promise<UnreadCounts> {
+    const filter: FilterQuery<NotificationDocument> = {
+      userId,
+      readAt: null,
+    };
+    if (notificationIds) {
+      filter._id = {
+        $in: notificationIds
+          .filter((id) => Types.ObjectId.isValid(id))
+          .map((id) => new Types.ObjectId(id)),
+      };
+    }
+
+    await this.notificationModel
+      .updateMany(filter, { $set: { readAt: new Date() } })
+      .exec();
+
+    const unreadCounts = await this.getUnreadCounts(userId);
+    this.realtimeService.emitToUser(userId, 'notificationsRead', {
+      notificationIds: notificationIds ?? null,
+      unreadCounts,
+    });
+
+    return unreadCounts;
+  }
+
+  /**
+   * Delete notifications older than the retention period
+   * @returns Number of deleted notifications
+   */
+  async prune(): Promise<number> {
+    try {
+      const cutoff = new Date(
+        Date.now() - this.retentionDays * 24 * 3600 * 1000,
+      );
+      const { deletedCount } = await this.notificationModel
+        .deleteMany({ createdAt: { $lt: cutoff } })
+        .exec();
+
+      if (deletedCount > 0) {
+        this.logger.log(`🧹 Pruned ${deletedCount} old notifications`);
+      }
+      return deletedCount;
+    } catch (error) {
+      this.logger.error(
+        `❌ Notification pruning failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export const NOTIFICATION_TYPES = [
+  'mention',
+  'reply',
+  'moderation',
+  'system',
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+@Schema({ timestamps: true })
+export class Notification {
+  // Recipient's user ID
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ type: String, enum: NOTIFICATION_TYPES, required: true })
+  type: NotificationType;
+
+  // Human-readable summary ("alice mentioned you", a system notice, ...)
+  @Prop({ required: true, maxlength: 1000 })
+  text: string;
+
+  // Who caused the notification (null for system notices)
+  @Prop({ type: String, default: null })
+  actorId?: string | null;
+
+  @Prop({ type: String, default: null })
+  actorName?: string | null;
+
+  // Message the notification is about, and where it was posted
+  @Prop({ type: Types.ObjectId, ref: 'Message', default: null })
+  messageId?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'Room', default: null })
+  roomId?: Types.ObjectId | null;
+
+  // Type-specific details (e.g. the sanction for moderation notices)
+  @Prop({ type: Object, default: null })
+  data?: Record<string, unknown> | null;
+
+  // Null while unread
+  @Prop({ type: Date, default: null })
+  readAt?: Date | null;
+
+  // Mongoose timestamps
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export type NotificationDocument = Notification & Document;
+export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+NotificationSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+NotificationSchema.index({ createdAt: 1 });
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PresenceService } from './presence.service';
+import { UserService } from '../user/user.service';
+import { UpdatePresenceDto } from '../user/dto/update-presence.dto';
+import { toPresence } from '../user/schemas/user.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('users')
+@UseGuards(JwtAuthGuard)
+export class PresenceController {
+  constructor(
+    private readonly presenceService: PresenceService,
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * PATCH /users/:id/presence
+   * Set the authenticated user's status and custom status text
+   */
+  @Patch(':id/presence')
+  async updatePresence(
+    @Param('id') id: string,
+    @Body() updatePresenceDto: UpdatePresenceDto,
+    @CurrentUser() currentUser: AuthUser,
+  ) {
+    if (id !== currentUser.userId) {
+      throw new ForbiddenException('You can only update your own presence');
+    }
+
+    const user = await this.userService.setPresence(id, updatePresenceDto);
+    this.presenceService.broadcastPresence(user);
+
+    return {
+      success: true,
+      message: 'Presence updated successfully',
+      data: toPresence(user, true),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PresenceService } from './presence.service';
+import { PresenceController } from './presence.controller';
+import { UserModule } from '../user/user.module';
+import { WebhookModule } from '../webhook/webhook.module';
+
+@Module({
+  imports: [UserModule, WebhookModule],
+  controllers: [PresenceController],
+  providers: [PresenceService],
+  exports: [PresenceService],
+})
+export class PresenceModule {}
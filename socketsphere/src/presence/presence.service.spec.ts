@@ -0,0 +1,139 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PresenceService } from './presence.service';
+import { RedisService } from '../redis/redis.service';
+import { UserService } from '../user/user.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { WebhookService } from '../webhook/webhook.service';
+
+describe('PresenceService', () => {
+  let presenceService: PresenceService;
+  const redisService = {
+    setIfNotExists: jest.fn(),
+    getInstances: jest.fn(),
+    getInstanceSockets: jest.fn(),
+    removeUserSocket: jest.fn(),
+    removeInstance: jest.fn(),
+    getOnlineUsers: jest.fn(),
+    isUserOnline: jest.fn(),
+    getOnlineCount: jest.fn(),
+    deleteUserSession: jest.fn(),
+    removeUserActivity: jest.fn(),
+    getUserActivity: jest.fn(),
+  };
+  const userService = {
+    getOnlineUsers: jest.fn(),
+    disconnect: jest.fn(),
+    markIdle: jest.fn(),
+    clearExpiredStatusTexts: jest.fn(),
+  };
+  const realtimeService = { emitToAll: jest.fn(), emitToUser: jest.fn() };
+  const webhookService = { dispatch: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    redisService.setIfNotExists.mockResolvedValue(true);
+    redisService.getOnlineUsers.mockResolvedValue([]);
+    redisService.isUserOnline.mockResolvedValue(false);
+    redisService.getOnlineCount.mockResolvedValue(0);
+    userService.getOnlineUsers.mockResolvedValue([]);
+    userService.disconnect.mockImplementation((id: string) =>
+      Promise.resolve({ _id: id, username: `user-${id}`, status: 'online' }),
+    );
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        { provide: RedisService, useValue: redisService },
+        { provide: UserService, useValue: userService },
+        { provide: RealtimeService, useValue: realtimeService },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+
+    presenceService = app.get<PresenceService>(PresenceService);
+  });
+
+  it('should remove sockets of dead instances and announce who left', async () => {
+    redisService.getInstances.mockResolvedValue([
+      { instanceId: 'alive', alive: true },
+      { instanceId: 'dead', alive: false },
+    ]);
+    redisService.getInstanceSockets.mockResolvedValue([
+      { userId: 'u1', socketId: 's1' },
+      { userId: 'u2', socketId: 's2' },
+    ]);
+    // u2 still has a socket on another instance
+    redisService.removeUserSocket.mockImplementation((userId: string) =>
+      Promise.resolve(userId === 'u1'),
+    );
+
+    await expect(presenceService.reap()).resolves.toEqual(['u1']);
+
+    expect(redisService.getInstanceSockets).toHaveBeenCalledWith('dead');
+    expect(redisService.removeInstance).toHaveBeenCalledWith('dead');
+    expect(redisService.removeInstance).not.toHaveBeenCalledWith('alive');
+    expect(userService.disconnect).toHaveBeenCalledWith('u1');
+    expect(realtimeService.emitToAll).toHaveBeenCalledWith(
+      'userLeft',
+      expect.objectContaining({ userId: 'u1' }),
+    );
+    expect(webhookService.dispatch).toHaveBeenCalledWith(
+      'user.left',
+      expect.objectContaining({ userId: 'u1' }),
+    );
+    expect(realtimeService.emitToAll).toHaveBeenCalledWith('onlineCount', 0);
+  });
+
+  it('should mark users offline that are online in Mongo but not in Redis', async () => {
+    redisService.getInstances.mockResolvedValue([]);
+    redisService.getOnlineUsers.mockResolvedValue(['u1']);
+    userService.getOnlineUsers.mockResolvedValue([
+      { _id: 'u1' },
+      { _id: 'u3' },
+    ]);
+
+    await expect(presenceService.reap()).resolves.toEqual(['u3']);
+    expect(userService.getOnlineUsers).toHaveBeenCalledWith(true);
+    expect(userService.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not mark users offline that reconnected during the reap', async () => {
+    redisService.getInstances.mockResolvedValue([]);
+    userService.getOnlineUsers.mockResolvedValue([{ _id: 'u3' }]);
+    redisService.isUserOnline.mockResolvedValue(true);
+
+    await expect(presenceService.reap()).resolves.toEqual([]);
+    expect(userService.disconnect).not.toHaveBeenCalled();
+    expect(webhookService.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should not reap while another instance holds the lock', async () => {
+    redisService.setIfNotExists.mockResolvedValue(false);
+
+    await expect(presenceService.reap()).resolves.toEqual([]);
+    expect(redisService.getInstances).not.toHaveBeenCalled();
+  });
+
+  it('should mark users without recent activity as away', async () => {
+    redisService.getUserActivity.mockResolvedValue({
+      idle: Date.now() - 10 * 60 * 1000,
+      active: Date.now(),
+    });
+    userService.markIdle.mockResolvedValue({
+      _id: 'idle',
+      username: 'idle',
+      status: 'away',
+    });
+    userService.clearExpiredStatusTexts.mockResolvedValue([]);
+
+    await expect(presenceService.updateIdleUsers()).resolves.toEqual(['idle']);
+    expect(userService.markIdle).toHaveBeenCalledTimes(1);
+    expect(userService.markIdle).toHaveBeenCalledWith('idle');
+    expect(realtimeService.emitToAll).toHaveBeenCalledWith(
+      'presenceChanged',
+      expect.objectContaining({ userId: 'idle', status: 'away' }),
+    );
+  });
+});
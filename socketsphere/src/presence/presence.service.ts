@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { UserService } from '../user/user.service';
+import { UserDocument, toPresence } from '../user/schemas/user.schema';
+import { RealtimeService } from '../realtime/realtime.service';
+import { WebhookService } from '../webhook/webhook.service';
+
+/**
+ * Presence Service - Crash-safe online tracking
+ *
+ * Each server instance registers its sockets under its own ID and keeps a
+ * heartbeat key alive in Redis. A reaper (run by one instance at a time)
+ * removes the sockets of instances whose heartbeat expired and marks users
+ * offline when their last socket is gone. The same timer switches users
+ * without recent client activity to 'away' and clears expired status texts.
+ */
+@Injectable()
+export class PresenceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PresenceService.name);
+  readonly instanceId = randomUUID();
+
+  private readonly ttl: number;
+  private readonly heartbeatInterval: number;
+  private readonly reaperInterval: number;
+  private readonly idleTimeout: number;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private reaperTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly userService: UserService,
+    private readonly realtimeService: RealtimeService,
+    private readonly webhookService: WebhookService,
+    configService: ConfigService,
+  ) {
+    this.ttl = Number(configService.get('PRESENCE_TTL', 30));
+    this.heartbeatInterval = Number(
+      configService.get('PRESENCE_HEARTBEAT_INTERVAL', 10),
+    );
+    this.reaperInterval = Number(
+      configService.get('PRESENCE_REAPER_INTERVAL', 30),
+    );
+    this.idleTimeout = Number(configService.get('PRESENCE_IDLE_TIMEOUT', 300));
+  }
+
+  async onModuleInit() {
+    await this.heartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      void this.heartbeat();
+    }, this.heartbeatInterval * 1000);
+    this.reaperTimer = setInterval(() => {
+      void this.reap().then(() => this.updateIdleUsers());
+    }, this.reaperInterval * 1000);
+
+    this.logger.log(`💓 Presence instance ${this.instanceId} registered`);
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.reaperTimer);
+
+    // Let the next reaper run clean up whatever this instance left behind
+    await this.redisService.del(`presence:instance:${this.instanceId}:alive`);
+  }
+
+  /**
+   * Register a socket of a user on this instance
+   * @param userId - User's MongoDB ObjectId
+   * @param socketId - Socket connection ID
+   * @returns Whether the user just came online
+   */
+  async addSocket(userId: string, socketId: string): Promise<boolean> {
+    const cameOnline = await this.redisService.addUserSocket(
+      userId,
+      socketId,
+      this.instanceId,
+    );
+    if (cameOnline) {
+      await this.redisService.touchUserActivity(userId);
+    }
+
+    return cameOnline;
+  }
+
+  /**
+   * Unregister a socket of a user on this instance
+   * @param userId - User's MongoDB ObjectId
+   * @param socketId - Socket connection ID
+   * @returns Whether the user just went offline
+   */
+  async removeSocket(userId: string, socketId: string): Promise<boolean> {
+    const wentOffline = await this.redisService.removeUserSocket(
+      userId,
+      socketId,
+      this.instanceId,
+    );
+    if (wentOffline) {
+      await this.redisService.removeUserActivity(userId);
+    }
+
+    return wentOffline;
+  }
+
+  /**
+   * Record client activity; brings an automatically idle user back
+   * @param userId - User's MongoDB ObjectId
+   */
+  async recordActivity(userId: string): Promise<void> {
+    await this.redisService.touchUserActivity(userId);
+
+    const user = await this.userService.markActive(userId);
+    if (user) {
+      this.broadcastPresence(user);
+    }
+  }
+
+  /**
+   * Send a user's presence to everyone (invisible users appear offline) and
+   * the full presence to the user's own devices
+   * @param user - User document
+   */
+  broadcastPresence(user: UserDocument): void {
+    this.realtimeService.emitToAll('presenceChanged', toPresence(user));
+    this.realtimeService.emitToUser(
+      String(user._id),
+      'presenceChanged',
+      toPresence(user, true),
+    );
+  }
+
+  /**
+   * Mark users without recent activity as away and clear expired status
+   * texts
+   * @returns IDs of the users whose presence changed
+   */
+  async updateIdleUsers(): Promise<string[]> {
+    // Only one instance checks per interval
+    const locked = await this.redisService.setIfNotExists(
+      'presence:idle:lock',
+      this.instanceId,
+      Math.max(this.reaperInterval - 1, 1),
+    );
+    if (!locked) {
+      return [];
+    }
+
+    const changed: UserDocument[] = [];
+
+    try {
+      const idleBefore = Date.now() - this.idleTimeout * 1000;
+      const activity = await this.redisService.getUserActivity();
+
+      for (const [userId, lastActivity] of Object.entries(activity)) {
+        if (lastActivity < idleBefore) {
+          const user = await this.userService.markIdle(userId);
+          if (user) {
+            changed.push(user);
+          }
+        }
+      }
+
+      changed.push(...(await this.userService.clearExpiredStatusTexts()));
+      changed.forEach((user) => this.broadcastPresence(user));
+    } catch (error) {
+      this.logger.error(
+        `❌ Idle detection failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return changed.map((user) => String(user._id));
+  }
+
+  /**
+   * Refresh this instance's heartbeat
+   */
+  async heartbeat(): Promise<void> {
+    await this.redisService.refreshInstance(this.instanceId, this.ttl);
+  }
+
+  /**
+   * Remove presence left behind by dead instances and fix user statuses
+   * @returns IDs of the users that were marked offline
+   */
+  async reap(): Promise<string[]> {
+    // Only one instance reaps per interval
+    const locked = await this.redisService.setIfNotExists(
+      'presence:reaper:lock',
+      this.instanceId,
+      Math.max(this.reaperInterval - 1, 1),
+    );
+    if (!locked) {
+      return [];
+    }
+
+    const wentOffline = new Set<string>();
+
+    try {
+      const instances = await this.redisService.getInstances();
+
+      for (const { instanceId, alive } of instances) {
+        if (alive) {
+          continue;
+        }
+
+        const sockets = await this.redisService.getInstanceSockets(instanceId);
+        for (const { userId, socketId } of sockets) {
+          if (
+            await this.redisService.removeUserSocket(
+              userId,
+              socketId,
+              instanceId,
+            )
+          ) {
+            wentOffline.add(userId);
+          }
+        }
+
+        await this.redisService.removeInstance(instanceId);
+        this.logger.warn(
+          `🧹 Reaped ${sockets.length} socket(s) of dead instance ${instanceId}`,
+        );
+      }
+
+      // Users Mongo still shows as online although no socket is left (Mongo
+      // is read first so a user connecting in between is seen in Redis)
+      const users = await this.userService.getOnlineUsers(true);
+      const onlineIds = new Set(await this.redisService.getOnlineUsers());
+      for (const user of users) {
+        const userId = String(user._id);
+        if (!onlineIds.has(userId)) {
+          wentOffline.add(userId);
+        }
+      }
+
+      for (const userId of wentOffline) {
+        // The user may have reconnected while the reaper ran
+        if (await this.redisService.isUserOnline(userId)) {
+          wentOffline.delete(userId);
+          continue;
+        }
+        await this.markOffline(userId);
+      }
+
+      if (wentOffline.size > 0) {
+        this.realtimeService.emitToAll(
+          'onlineCount',
+          await this.redisService.getOnlineCount(),
+        );
+        this.logger.log(`🧹 Marked ${wentOffline.size} ghost user(s) offline`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Presence reaper failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return [...wentOffline];
+  }
+
+  /**
+   * Mark a reaped user offline and tell everyone they left
+   */
+  private async markOffline(userId: string): Promise<void> {
+    try {
+      await this.redisService.deleteUserSession(userId);
+      await this.redisService.removeUserActivity(userId);
+      const user = await this.userService.disconnect(userId);
+
+      // Others already see invisible users as offline
+      if (user.status !== 'invisible') {
+        const left = {
+          userId,
+          username: user.username,
+          timestamp: new Date(),
+        };
+        this.realtimeService.emitToAll('userLeft', left);
+        void this.webhookService.dispatch('user.left', left);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to mark ${userId} offline: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
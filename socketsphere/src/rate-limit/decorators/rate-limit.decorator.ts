@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Use a specific rate limit for a REST route or controller (the generic
+ * 'rest' limit applies otherwise)
+ */
+export const RateLimit = (name: string) => SetMetadata(RATE_LIMIT_KEY, name);
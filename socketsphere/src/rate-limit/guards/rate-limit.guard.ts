@@ -0,0 +1,48 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { RateLimitService } from '../rate-limit.service';
+import { RateLimitedException } from '../rate-limited.exception';
+import { RATE_LIMIT_KEY } from '../decorators/rate-limit.decorator';
+
+/**
+ * Applies the route's rate limit per client IP; answers 429 with a
+ * Retry-After header when it is exceeded
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly rateLimitService: RateLimitService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const name =
+      this.reflector.getAllAndOverride<string>(RATE_LIMIT_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'rest';
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const subject = `ip:${request.ip ?? request.socket.remoteAddress}`;
+    const { allowed, retryAfter, muted } = await this.rateLimitService.consume(
+      subject,
+      name,
+    );
+
+    if (allowed) {
+      return true;
+    }
+
+    context
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader('Retry-After', String(retryAfter));
+
+    throw new RateLimitedException(retryAfter, muted);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module, Global } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitGuard } from './guards/rate-limit.guard';
+
+/**
+ * Rate Limit Module - Global module for flood protection
+ *
+ * Rate limits every REST route through a global guard and lets the chat
+ * gateway limit socket events
+ */
+@Global()
+@Module({
+  providers: [
+    RateLimitService,
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+  ],
+  exports: [RateLimitService],
+})
+export class RateLimitModule {}
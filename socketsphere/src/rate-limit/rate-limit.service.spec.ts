@@ -0,0 +1,90 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RateLimitService } from './rate-limit.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('RateLimitService', () => {
+  let rateLimitService: RateLimitService;
+  const redisService = {
+    takeToken: jest.fn(),
+    incrementWithExpiry: jest.fn(),
+    ttl: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    redisService.ttl.mockResolvedValue(0);
+    redisService.incrementWithExpiry.mockResolvedValue(1);
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RedisService, useValue: redisService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ RATE_LIMIT_SEND_MESSAGE: '3:0.5' }),
+        },
+      ],
+    }).compile();
+
+    rateLimitService = app.get<RateLimitService>(RateLimitService);
+  });
+
+  it('should read rule overrides from the environment', () => {
+    expect(rateLimitService.getRule('sendMessage')).toEqual({
+      capacity: 3,
+      refillPerSecond: 0.5,
+    });
+    expect(rateLimitService.getRule('unknownRoute')).toEqual(
+      rateLimitService.getRule('rest'),
+    );
+  });
+
+  it('should allow calls while the bucket has tokens', async () => {
+    redisService.takeToken.mockResolvedValue(0);
+
+    await expect(
+      rateLimitService.consume('u1', 'sendMessage'),
+    ).resolves.toEqual({ allowed: true, retryAfter: 0, muted: false });
+    expect(redisService.takeToken).toHaveBeenCalledWith(
+      'ratelimit:sendMessage:u1',
+      3,
+      0.5,
+    );
+  });
+
+  it('should reject with the time until the next token', async () => {
+    redisService.takeToken.mockResolvedValue(1500);
+
+    await expect(
+      rateLimitService.consume('u1', 'sendMessage'),
+    ).resolves.toEqual({ allowed: false, retryAfter: 2, muted: false });
+  });
+
+  it('should mute repeat offenders', async () => {
+    redisService.takeToken.mockResolvedValue(1000);
+    redisService.incrementWithExpiry.mockResolvedValue(5);
+
+    await expect(
+      rateLimitService.consume('u1', 'sendMessage'),
+    ).resolves.toEqual({ allowed: false, retryAfter: 300, muted: true });
+    expect(redisService.set).toHaveBeenCalledWith(
+      'ratelimit:muted:u1',
+      '1',
+      300,
+    );
+  });
+
+  it('should reject muted users without taking a token', async () => {
+    redisService.ttl.mockResolvedValue(42);
+
+    await expect(rateLimitService.consume('u1', 'typing')).resolves.toEqual({
+      allowed: false,
+      retryAfter: 42,
+      muted: true,
+    });
+    expect(redisService.takeToken).not.toHaveBeenCalled();
+  });
+});
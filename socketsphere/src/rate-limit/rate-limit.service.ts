@@ -0,0 +1,181 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../redis/redis.service';
+
+export interface RateLimitRule {
+  // Maximum burst of calls
+  capacity: number;
+  // Calls regained per second
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the call may be retried (0 when allowed)
+  retryAfter: number;
+  // Whether the subject is temporarily muted for repeated flooding
+  muted: boolean;
+}
+
+/**
+ * Default limits per socket event or REST route group. Each can be
+ * overridden with RATE_LIMIT_<NAME>=<capacity>:<refillPerSecond>, e.g.
+ * RATE_LIMIT_SEND_MESSAGE=10:1
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimitRule> = {
+  sendMessage: { capacity: 10, refillPerSecond: 1 },
+  typing: { capacity: 10, refillPerSecond: 2 },
+  stopTyping: { capacity: 10, refillPerSecond: 2 },
+  join: { capacity: 5, refillPerSecond: 0.1 },
+  getRecentMessages: { capacity: 10, refillPerSecond: 0.5 },
+  loadHistory: { capacity: 20, refillPerSecond: 1 },
+  searchMessages: { capacity: 10, refillPerSecond: 0.5 },
+  editMessage: { capacity: 10, refillPerSecond: 0.5 },
+  deleteMessage: { capacity: 10, refillPerSecond: 0.5 },
+  // addReaction and removeReaction share one bucket
+  reaction: { capacity: 20, refillPerSecond: 2 },
+  // Clients mark messages read as they scroll
+  markRead: { capacity: 30, refillPerSecond: 2 },
+  markNotificationsRead: { capacity: 10, refillPerSecond: 1 },
+  joinRoom: { capacity: 10, refillPerSecond: 0.5 },
+  setPresence: { capacity: 5, refillPerSecond: 0.2 },
+  listCommands: { capacity: 5, refillPerSecond: 0.2 },
+  // Clients ping at most once a minute while the user is typing
+  activity: { capacity: 5, refillPerSecond: 0.1 },
+  rest: { capacity: 60, refillPerSecond: 1 },
+  auth: { capacity: 10, refillPerSecond: 0.1 },
+  // Per incoming webhook, on top of the per-IP REST limit
+  incomingWebhook: { capacity: 20, refillPerSecond: 0.5 },
+};
+
+// Limits whose violations count towards an automatic mute, and which are
+// blocked while muted
+const MUTABLE_LIMITS = new Set(['sendMessage', 'typing']);
+
+/**
+ * Rate Limit Service - Token buckets shared by all instances via Redis
+ *
+ * Subjects (user IDs for sockets, client IPs for REST) get one bucket per
+ * limit. Users who keep hitting a message limit are muted for a while.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly rules = new Map<string, RateLimitRule>();
+
+  private readonly muteThreshold: number;
+  private readonly violationWindow: number;
+  private readonly muteDuration: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    for (const [name, rule] of Object.entries(DEFAULT_RATE_LIMITS)) {
+      this.rules.set(name, this.readRule(name, rule));
+    }
+
+    this.muteThreshold = Number(
+      configService.get('RATE_LIMIT_MUTE_THRESHOLD', 5),
+    );
+    this.violationWindow = Number(
+      configService.get('RATE_LIMIT_VIOLATION_WINDOW', 60),
+    );
+    this.muteDuration = Number(
+      configService.get('RATE_LIMIT_MUTE_DURATION', 300),
+    );
+  }
+
+  /**
+   * Get the rule of a limit
+   * @param name - Limit name (socket event or REST route group)
+   * @returns The configured rule, falling back to the generic REST rule
+   */
+  getRule(name: string): RateLimitRule {
+    return this.rules.get(name) ?? this.rules.get('rest')!;
+  }
+
+  /**
+   * Consume one call of a limit
+   * @param subject - Who is calling (user ID or client IP)
+   * @param name - Limit name (socket event or REST route group)
+   * @returns Whether the call is allowed and, if not, when to retry
+   */
+  async consume(subject: string, name: string): Promise<RateLimitResult> {
+    const mutable = MUTABLE_LIMITS.has(name);
+
+    if (mutable) {
+      const mutedFor = await this.redisService.ttl(this.muteKey(subject));
+      if (mutedFor > 0) {
+        return { allowed: false, retryAfter: mutedFor, muted: true };
+      }
+    }
+
+    const { capacity, refillPerSecond } = this.getRule(name);
+    const retryAfterMs = await this.redisService.takeToken(
+      `ratelimit:${name}:${subject}`,
+      capacity,
+      refillPerSecond,
+    );
+
+    if (retryAfterMs === 0) {
+      return { allowed: true, retryAfter: 0, muted: false };
+    }
+
+    if (mutable && (await this.recordViolation(subject))) {
+      return { allowed: false, retryAfter: this.muteDuration, muted: true };
+    }
+
+    return {
+      allowed: false,
+      retryAfter: Math.ceil(retryAfterMs / 1000),
+      muted: false,
+    };
+  }
+
+  /**
+   * Count a violation and mute the subject once there are too many
+   * @returns Whether the subject was muted
+   */
+  private async recordViolation(subject: string): Promise<boolean> {
+    const violations = await this.redisService.incrementWithExpiry(
+      `ratelimit:violations:${subject}`,
+      this.violationWindow,
+    );
+
+    if (violations < this.muteThreshold) {
+      return false;
+    }
+
+    await this.redisService.set(this.muteKey(subject), '1', this.muteDuration);
+    await this.redisService.del(`ratelimit:violations:${subject}`);
+    this.logger.warn(
+      `🔇 Muted ${subject} for ${this.muteDuration}s after repeated flooding`,
+    );
+
+    return true;
+  }
+
+  private muteKey(subject: string): string {
+    return `ratelimit:muted:${subject}`;
+  }
+
+  /**
+   * Read a rule override such as RATE_LIMIT_SEND_MESSAGE=10:1
+   */
+  private readRule(name: string, fallback: RateLimitRule): RateLimitRule {
+    const envName = `RATE_LIMIT_${name.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+    const value = this.configService.get<string>(envName);
+    if (!value) {
+      return fallback;
+    }
+
+    const [capacity, refillPerSecond] = value.split(':').map(Number);
+    if (!(capacity >= 1) || !(refillPerSecond > 0)) {
+      this.logger.warn(`⚠️ Ignoring invalid ${envName}=${value}`);
+      return fallback;
+    }
+
+    return { capacity, refillPerSecond };
+  }
+}
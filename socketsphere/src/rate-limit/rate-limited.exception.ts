@@ -0,0 +1,24 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 429 response with the structured rateLimited error clients understand
+ */
+export class RateLimitedException extends HttpException {
+  constructor(
+    readonly retryAfter: number,
+    muted: boolean = false,
+  ) {
+    super(
+      {
+        success: false,
+        error: 'rateLimited',
+        message: muted
+          ? `You are muted for flooding, retry in ${retryAfter}s`
+          : `Too many requests, retry in ${retryAfter}s`,
+        retryAfter,
+        muted,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
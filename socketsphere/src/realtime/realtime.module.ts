@@ -0,0 +1,15 @@
+import { Module, Global } from '@nestjs/common';
+import { RealtimeService } from './realtime.service';
+
+/**
+ * Realtime Module - Global module for emitting socket events
+ *
+ * Lets REST controllers and services notify connected clients without
+ * depending on ChatGateway (which would create a circular import)
+ */
+@Global()
+@Module({
+  providers: [RealtimeService],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
@@ -0,0 +1,159 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Server } from 'socket.io';
+import { Types } from 'mongoose';
+import { getMessageAuthorId } from '../message/schemas/message.schema';
+import { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+/**
+ * Socket.IO room name for a chat room
+ */
+export const roomChannel = (roomId: string): string => `room:${roomId}`;
+
+/**
+ * Socket.IO room joined by every socket of a user (all tabs and devices)
+ */
+export const userChannel = (userId: string): string => `user:${userId}`;
+
+/**
+ * Socket.IO room joined by the sockets authenticated with an access token
+ */
+export const tokenChannel = (tokenId: string): string => `token:${tokenId}`;
+
+/**
+ * The routing fields of a message document or its JSON form
+ */
+export interface MessageScope {
+  userId?: Types.ObjectId | string | null;
+  roomId?: Types.ObjectId | string | null;
+  conversationId?: Types.ObjectId | string | null;
+  recipientId?: string | null;
+}
+
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  private server: Server | null = null;
+
+  /**
+   * Register the Socket.IO server (called by ChatGateway.afterInit)
+   */
+  setServer(server: Server): void {
+    this.server = server;
+  }
+
+  /**
+   * Emit an event to every connected client (across all servers via Redis)
+   */
+  emitToAll(event: string, data: unknown): void {
+    if (!this.server) {
+      this.logger.warn(`⚠️ Cannot emit '${event}': server not initialized`);
+      return;
+    }
+    this.server.emit(event, data);
+  }
+
+  /**
+   * Emit an event to the sockets in a chat room
+   */
+  emitToRoom(roomId: string, event: string, data: unknown): void {
+    if (!this.server) {
+      this.logger.warn(`⚠️ Cannot emit '${event}': server not initialized`);
+      return;
+    }
+    this.server.to(roomChannel(roomId)).emit(event, data);
+  }
+
+  /**
+   * Emit an event to every socket of a user, wherever it is connected
+   */
+  emitToUser(userId: string, event: string, data: unknown): void {
+    if (!this.server) {
+      this.logger.warn(`⚠️ Cannot emit '${event}': server not initialized`);
+      return;
+    }
+
+    this.server.to(userChannel(userId)).emit(event, data);
+  }
+
+  /**
+   * Take every socket of a user out of a chat room, wherever it is connected
+   */
+  removeUserFromRoom(userId: string, roomId: string): void {
+    if (!this.server) {
+      this.logger.warn(
+        `⚠️ Cannot remove ${userId} from ${roomId}: server not initialized`,
+      );
+      return;
+    }
+
+    this.server.in(userChannel(userId)).socketsLeave(roomChannel(roomId));
+  }
+
+  /**
+   * Get the users with a socket in a chat room, on any server
+   * @param roomId - Room's MongoDB ObjectId
+   * @returns User IDs
+   */
+  async getRoomUserIds(roomId: string): Promise<string[]> {
+    if (!this.server) {
+      this.logger.warn(`⚠️ Cannot list room ${roomId}: server not initialized`);
+      return [];
+    }
+
+    const sockets = await this.server.in(roomChannel(roomId)).fetchSockets();
+    return [
+      ...new Set(
+        sockets.map(
+          (socket) => (socket.data as { user: AuthUser }).user.userId,
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Disconnect every socket of a user, wherever it is connected (sockets
+   * join the user channel during the handshake)
+   */
+  disconnectUser(userId: string): void {
+    if (!this.server) {
+      this.logger.warn(
+        `⚠️ Cannot disconnect ${userId}: server not initialized`,
+      );
+      return;
+    }
+
+    this.server.in(userChannel(userId)).disconnectSockets(true);
+  }
+
+  /**
+   * Disconnect the sockets authenticated with an access token, wherever
+   * they are connected
+   */
+  disconnectToken(tokenId: string): void {
+    if (!this.server) {
+      this.logger.warn(
+        `⚠️ Cannot disconnect token ${tokenId}: server not initialized`,
+      );
+      return;
+    }
+
+    this.server.in(tokenChannel(tokenId)).disconnectSockets(true);
+  }
+
+  /**
+   * Emit an event to the audience of a message: both participants of a
+   * direct message, the sockets of its room, or everyone for the lobby
+   */
+  emitForMessage(message: MessageScope, event: string, data: unknown): void {
+    if (message.conversationId) {
+      const participants = [getMessageAuthorId(message), message.recipientId];
+      participants
+        .filter((userId): userId is string => !!userId)
+        .forEach((userId) => this.emitToUser(userId, event, data));
+    } else if (message.roomId) {
+      this.emitToRoom(String(message.roomId), event, data);
+    } else {
+      this.emitToAll(event, data);
+    }
+  }
+}
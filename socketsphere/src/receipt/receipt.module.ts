@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReadCursor, ReadCursorSchema } from './schemas/read-cursor.schema';
+import { ReceiptService } from './receipt.service';
+import { MessageModule } from '../message/message.module';
+import { RoomModule } from '../room/room.module';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ReadCursor.name, schema: ReadCursorSchema },
+    ]),
+    MessageModule,
+    RoomModule,
+    ConversationModule,
+  ],
+  providers: [ReceiptService],
+  exports: [ReceiptService],
+})
+export class ReceiptModule {}
@@ -0,0 +1,110 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReceiptService, getReadScope } from './receipt.service';
+import { ReadCursor } from './schemas/read-cursor.schema';
+import { MessageService } from '../message/message.service';
+import { RoomService } from '../room/room.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('ReceiptService', () => {
+  let receiptService: ReceiptService;
+  let store: Map<string, string>;
+  const readAt = new Date('2024-01-01T12:00:00Z');
+  const message = {
+    _id: 'm2',
+    roomId: 'r1',
+    timestamp: readAt,
+  };
+  const readCursorModel = {
+    findOne: jest.fn(() => ({ exec: () => Promise.resolve(null) })),
+    updateOne: jest.fn(() => ({ exec: () => Promise.resolve() })),
+  };
+  const messageService = {
+    findById: jest.fn(() => Promise.resolve(message)),
+    assertCanRead: jest.fn(),
+    markDelivered: jest.fn(),
+  };
+  const redisService = {
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    del: jest.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReceiptService,
+        { provide: getModelToken(ReadCursor.name), useValue: readCursorModel },
+        { provide: MessageService, useValue: messageService },
+        { provide: RoomService, useValue: {} },
+        { provide: ConversationService, useValue: {} },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    receiptService = app.get<ReceiptService>(ReceiptService);
+  });
+
+  it('should scope cursors to the conversation, room or lobby', () => {
+    expect(getReadScope({ conversationId: 'c1', roomId: null })).toBe(
+      'conversation:c1',
+    );
+    expect(getReadScope({ roomId: 'r1' })).toBe('room:r1');
+    expect(getReadScope({})).toBe('lobby');
+  });
+
+  it('should move the cursor forward and cache it', async () => {
+    await expect(receiptService.markRead('alice', 'm2')).resolves.toEqual({
+      message,
+      advanced: true,
+    });
+
+    expect(messageService.assertCanRead).toHaveBeenCalledWith(message, 'alice');
+    expect(readCursorModel.updateOne).toHaveBeenCalledWith(
+      { userId: 'alice', scope: 'room:r1', lastReadAt: { $lt: readAt } },
+      { $set: { lastReadMessageId: 'm2', lastReadAt: readAt } },
+      { upsert: true },
+    );
+    await expect(receiptService.getCursor('alice', 'room:r1')).resolves.toEqual(
+      { lastReadMessageId: 'm2', lastReadAt: readAt },
+    );
+  });
+
+  it('should not move the cursor back to an older message', async () => {
+    store.set(
+      'read:cursor:alice:room:r1',
+      JSON.stringify({ messageId: 'm3', readAt: '2024-01-01T13:00:00Z' }),
+    );
+
+    await expect(receiptService.markRead('alice', 'm2')).resolves.toEqual({
+      message,
+      advanced: false,
+    });
+    expect(readCursorModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should keep a newer cursor written by another device meanwhile', async () => {
+    // The filter matched no older cursor and the upsert hit the unique index
+    readCursorModel.updateOne.mockReturnValueOnce({
+      exec: () =>
+        Promise.reject(Object.assign(new Error('E11000'), { code: 11000 })),
+    });
+
+    await expect(receiptService.markRead('alice', 'm2')).resolves.toEqual({
+      message,
+      advanced: false,
+    });
+    expect(redisService.set).not.toHaveBeenCalled();
+    expect(redisService.del).toHaveBeenCalledWith('read:cursor:alice:room:r1');
+  });
+});
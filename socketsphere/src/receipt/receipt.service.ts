@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ReadCursor, ReadCursorDocument } from './schemas/read-cursor.schema';
+import { MessageDocument } from '../message/schemas/message.schema';
+import { MessageService } from '../message/message.service';
+import { RoomService } from '../room/room.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { RedisService } from '../redis/redis.service';
+import type { MessageScope } from '../realtime/realtime.service';
+
+// Unread counts stop at this value; clients show it as "99+"
+export const MAX_UNREAD_COUNT = 99;
+
+/**
+ * Read-cursor scope of a message: 'lobby', 'room:<id>' or
+ * 'conversation:<id>'
+ */
+export const getReadScope = (message: MessageScope): string => {
+  if (message.conversationId) {
+    return `conversation:${String(message.conversationId)}`;
+  }
+  if (message.roomId) {
+    return `room:${String(message.roomId)}`;
+  }
+  return 'lobby';
+};
+
+interface CachedCursor {
+  messageId: string;
+  readAt: string;
+}
+
+@Injectable()
+export class ReceiptService {
+  private readonly logger = new Logger(ReceiptService.name);
+  private readonly CURSOR_TTL = 7 * 24 * 3600; // Mongo remains the source
+
+  constructor(
+    @InjectModel(ReadCursor.name)
+    private readCursorModel: Model<ReadCursorDocument>,
+    private readonly messageService: MessageService,
+    private readonly roomService: RoomService,
+    private readonly conversationService: ConversationService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Mark a message, and everything before it in its scope, as read
+   * @param userId - Reader's user ID
+   * @param messageId - Newest message the user has seen
+   * @returns The message and whether the cursor moved forward
+   * @throws ForbiddenException if the user cannot see the message
+   */
+  async markRead(
+    userId: string,
+    messageId: string,
+  ): Promise<{ message: MessageDocument; advanced: boolean }> {
+    const message = await this.messageService.findById(messageId);
+    await this.messageService.assertCanRead(message, userId);
+
+    const scope = getReadScope(message);
+    const current = await this.getCursor(userId, scope);
+
+    if (current && current.lastReadAt >= message.timestamp) {
+      return { message, advanced: false };
+    }
+
+    // Another device may have read further in the meantime
+    if (!(await this.saveCursor(userId, scope, messageId, message.timestamp))) {
+      return { message, advanced: false };
+    }
+
+    // Reading a direct message implies it was delivered
+    if (message.conversationId && !message.deliveredAt) {
+      await this.messageService.markDelivered([messageId]);
+    }
+
+    return { message, advanced: true };
+  }
+
+  /**
+   * Get a user's read cursor for a scope (Redis first, then Mongo)
+   * @param userId - Reader's user ID
+   * @param scope - Read scope (see getReadScope)
+   * @returns Last read message ID and time, or null if nothing was read
+   */
+  async getCursor(
+    userId: string,
+    scope: string,
+  ): Promise<{ lastReadMessageId: string; lastReadAt: Date } | null> {
+    const cached = await this.redisService.get(this.cursorKey(userId, scope));
+    if (cached) {
+      const { messageId, readAt } = JSON.parse(cached) as CachedCursor;
+      return { lastReadMessageId: messageId, lastReadAt: new Date(readAt) };
+    }
+
+    const cursor = await this.readCursorModel.findOne({ userId, scope }).exec();
+    if (!cursor) {
+      return null;
+    }
+
+    await this.cacheCursor(
+      userId,
+      scope,
+      cursor.lastReadMessageId,
+      cursor.lastReadAt,
+    );
+    return {
+      lastReadMessageId: cursor.lastReadMessageId,
+      lastReadAt: cursor.lastReadAt,
+    };
+  }
+
+  /**
+   * Count unread messages in the lobby, the user's rooms and conversations
+   * @param userId - Reader's user ID
+   * @returns Map of read scope to unread count (capped at MAX_UNREAD_COUNT)
+   */
+  async getUnreadCounts(userId: string): Promise<Record<string, number>> {
+    const [rooms, conversations] = await Promise.all([
+      this.roomService.findAll(userId),
+      this.conversationService.findForUser(userId),
+    ]);
+
+    const scopes: {
+      scope: string;
+      roomId?: string;
+      conversationId?: string;
+    }[] = [
+      { scope: 'lobby' },
+      ...rooms
+        .filter((room) => room.members.includes(userId))
+        .map((room) => ({
+          scope: getReadScope({ roomId: String(room._id) }),
+          roomId: String(room._id),
+        })),
+      ...conversations.map((conversation) => ({
+        scope: getReadScope({ conversationId: String(conversation._id) }),
+        conversationId: String(conversation._id),
+      })),
+    ];
+
+    const counts = await Promise.all(
+      scopes.map(async ({ scope, roomId, conversationId }) => {
+        const cursor = await this.getCursor(userId, scope);
+        const count = await this.messageService.countMessagesAfter(
+          { roomId, conversationId },
+          cursor?.lastReadAt ?? null,
+          userId,
+          MAX_UNREAD_COUNT,
+        );
+        return [scope, count] as const;
+      }),
+    );
+
+    return Object.fromEntries(counts.filter(([, count]) => count > 0));
+  }
+
+  /**
+   * Persist a cursor, never moving it backwards
+   * @returns Whether the cursor moved forward
+   */
+  private async saveCursor(
+    userId: string,
+    scope: string,
+    messageId: string,
+    readAt: Date,
+  ): Promise<boolean> {
+    try {
+      // Only an older cursor matches; when a newer one exists the upsert
+      // runs into the unique index instead
+      await this.readCursorModel
+        .updateOne(
+          { userId, scope, lastReadAt: { $lt: readAt } },
+          { $set: { lastReadMessageId: messageId, lastReadAt: readAt } },
+          { upsert: true },
+        )
+        .exec();
+    } catch (error) {
+      // Duplicate key: a newer cursor already exists, keep it
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      this.logger.debug(`Cursor for ${userId} in ${scope} is already newer`);
+      await this.redisService.del(this.cursorKey(userId, scope));
+      return false;
+    }
+
+    await this.cacheCursor(userId, scope, messageId, readAt);
+    return true;
+  }
+
+  private async cacheCursor(
+    userId: string,
+    scope: string,
+    messageId: string,
+    readAt: Date,
+  ): Promise<void> {
+    const value: CachedCursor = { messageId, readAt: readAt.toISOString() };
+    await this.redisService.set(
+      this.cursorKey(userId, scope),
+      JSON.stringify(value),
+      this.CURSOR_TTL,
+    );
+  }
+
+  private cursorKey(userId: string, scope: string): string {
+    return `read:cursor:${userId}:${scope}`;
+  }
+}
@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class ReadCursor {
+  // Reader's user ID
+  @Prop({ required: true })
+  userId: string;
+
+  // What was read: 'lobby', 'room:<id>' or 'conversation:<id>'
+  @Prop({ required: true })
+  scope: string;
+
+  // Newest message the user has read in this scope
+  @Prop({ required: true })
+  lastReadMessageId: string;
+
+  @Prop({ type: Date, required: true })
+  lastReadAt: Date;
+}
+
+export type ReadCursorDocument = ReadCursor & Document;
+export const ReadCursorSchema = SchemaFactory.createForClass(ReadCursor);
+
+ReadCursorSchema.index({ userId: 1, scope: 1 }, { unique: true });
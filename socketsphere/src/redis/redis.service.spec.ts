@@ -0,0 +1,50 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from './redis.service';
+
+describe('RedisService', () => {
+  let redisService: RedisService;
+  const client = {
+    eval: jest.fn(() => Promise.resolve(1)),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redisService = new RedisService(new ConfigService());
+    // Stands in for the connection made in onModuleInit
+    (redisService as unknown as { client: typeof client }).client = client;
+  });
+
+  describe('cached messages', () => {
+    it('should replace a cached message in one script call with its version', async () => {
+      const message = { _id: 'm1', text: 'edited', __v: 3 };
+
+      await redisService.updateCachedMessage(message, 'r1');
+
+      // Find and replace happen inside Redis, so no other write can land
+      // between reading the list and setting the entry
+      expect(client.eval).toHaveBeenCalledTimes(1);
+      expect(client.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: ['messages:recent:r1'],
+        arguments: ['m1', JSON.stringify(message), '3'],
+      });
+    });
+
+    it('should evict a cached message with the same script', async () => {
+      await redisService.removeCachedMessage('m1');
+
+      expect(client.eval).toHaveBeenCalledTimes(1);
+      expect(client.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: ['messages:recent'],
+        arguments: ['m1', ''],
+      });
+    });
+
+    it('should not fail the caller when Redis is unavailable', async () => {
+      client.eval.mockRejectedValueOnce(new Error('Connection closed'));
+
+      await expect(
+        redisService.updateCachedMessage({ _id: 'm1' }),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -154,34 +154,249 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   // ==================== ONLINE USERS TRACKING ====================
+  //
+  // Every socket of a user (tabs, devices, server instances) is kept in
+  // `online:sockets:<userId>`; `online:users` maps each online user to their
+  // socket count. Both are updated in one Lua script so concurrent connects
+  // and disconnects agree on the first/last socket. Each server instance also
+  // records its own sockets in `presence:instance:<id>:sockets`, so they can
+  // be cleaned up if the instance dies.
+
+  private static readonly ADD_SOCKET_SCRIPT = `
+    local added = redis.call('SADD', KEYS[1], ARGV[2])
+    local count = redis.call('SCARD', KEYS[1])
+    redis.call('HSET', KEYS[2], ARGV[1], count)
+    redis.call('SADD', KEYS[3], ARGV[1] .. ':' .. ARGV[2])
+    return {added, count}
+  `;
+
+  private static readonly REMOVE_SOCKET_SCRIPT = `
+    redis.call('SREM', KEYS[3], ARGV[1] .. ':' .. ARGV[2])
+    local removed = redis.call('SREM', KEYS[1], ARGV[2])
+    local count = redis.call('SCARD', KEYS[1])
+    if count == 0 then
+      redis.call('HDEL', KEYS[2], ARGV[1])
+    else
+      redis.call('HSET', KEYS[2], ARGV[1], count)
+    end
+    return {removed, count}
+  `;
+
+  private userSocketsKey(userId: string): string {
+    return `online:sockets:${userId}`;
+  }
+
+  private instanceSocketsKey(instanceId: string): string {
+    return `presence:instance:${instanceId}:sockets`;
+  }
+
+  private instanceAliveKey(instanceId: string): string {
+    return `presence:instance:${instanceId}:alive`;
+  }
 
   /**
-   * Add user to online users hash
+   * Register a socket of a user
    * @param userId - Unique user identifier
    * @param socketId - Socket connection ID
+   * @param instanceId - Server instance holding the socket
+   * @returns Whether this is the user's first socket (offline -> online)
    */
-  async addOnlineUser(userId: string, socketId: string): Promise<void> {
+  async addUserSocket(
+    userId: string,
+    socketId: string,
+    instanceId: string,
+  ): Promise<boolean> {
     try {
-      await this.client.hSet('online:users', userId, socketId);
-      this.logger.debug(`User ${userId} marked as online`);
+      const [added, count] = (await this.client.eval(
+        RedisService.ADD_SOCKET_SCRIPT,
+        {
+          keys: [
+            this.userSocketsKey(userId),
+            'online:users',
+            this.instanceSocketsKey(instanceId),
+          ],
+          arguments: [userId, socketId],
+        },
+      )) as [number, number];
+
+      this.logger.debug(`User ${userId} has ${count} socket(s) online`);
+      return added === 1 && count === 1;
     } catch (error) {
       this.logger.error(`Failed to add online user ${userId}:`, error.message);
+      return false;
     }
   }
 
   /**
-   * Remove user from online users hash
+   * Unregister a socket of a user
    * @param userId - Unique user identifier
+   * @param socketId - Socket connection ID
+   * @param instanceId - Server instance that held the socket
+   * @returns Whether this was the user's last socket (online -> offline)
    */
-  async removeOnlineUser(userId: string): Promise<void> {
+  async removeUserSocket(
+    userId: string,
+    socketId: string,
+    instanceId: string,
+  ): Promise<boolean> {
     try {
-      await this.client.hDel('online:users', userId);
-      this.logger.debug(`User ${userId} marked as offline`);
+      const [removed, count] = (await this.client.eval(
+        RedisService.REMOVE_SOCKET_SCRIPT,
+        {
+          keys: [
+            this.userSocketsKey(userId),
+            'online:users',
+            this.instanceSocketsKey(instanceId),
+          ],
+          arguments: [userId, socketId],
+        },
+      )) as [number, number];
+
+      this.logger.debug(`User ${userId} has ${count} socket(s) online`);
+      return removed === 1 && count === 0;
     } catch (error) {
       this.logger.error(
         `Failed to remove online user ${userId}:`,
         error.message,
       );
+      return false;
+    }
+  }
+
+  /**
+   * Record that a server instance is alive
+   * @param instanceId - Server instance ID
+   * @param ttl - Seconds until the instance counts as dead without another
+   * heartbeat
+   */
+  async refreshInstance(instanceId: string, ttl: number): Promise<void> {
+    try {
+      await this.client.sAdd('presence:instances', instanceId);
+      await this.client.setEx(this.instanceAliveKey(instanceId), ttl, '1');
+    } catch (error) {
+      this.logger.error(
+        `Failed to refresh instance ${instanceId}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get every server instance that has registered presence
+   * @returns Instance IDs, with a flag telling whether each is still alive
+   */
+  async getInstances(): Promise<{ instanceId: string; alive: boolean }[]> {
+    try {
+      const instanceIds = await this.client.sMembers('presence:instances');
+      return await Promise.all(
+        instanceIds.map(async (instanceId) => ({
+          instanceId,
+          alive:
+            (await this.client.exists(this.instanceAliveKey(instanceId))) === 1,
+        })),
+      );
+    } catch (error) {
+      this.logger.error(
+        'Failed to get instances:',
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Get the sockets a server instance registered
+   * @param instanceId - Server instance ID
+   * @returns User and socket IDs
+   */
+  async getInstanceSockets(
+    instanceId: string,
+  ): Promise<{ userId: string; socketId: string }[]> {
+    try {
+      const entries = await this.client.sMembers(
+        this.instanceSocketsKey(instanceId),
+      );
+      return entries.map((entry) => {
+        const [userId, socketId] = entry.split(':');
+        return { userId, socketId };
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to get sockets of instance ${instanceId}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Forget a server instance (its sockets must have been removed)
+   * @param instanceId - Server instance ID
+   */
+  async removeInstance(instanceId: string): Promise<void> {
+    try {
+      await this.client.del([
+        this.instanceSocketsKey(instanceId),
+        this.instanceAliveKey(instanceId),
+      ]);
+      await this.client.sRem('presence:instances', instanceId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove instance ${instanceId}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Record client activity of a user (used for idle detection)
+   * @param userId - Unique user identifier
+   */
+  async touchUserActivity(userId: string): Promise<void> {
+    try {
+      await this.client.hSet('presence:activity', userId, String(Date.now()));
+    } catch (error) {
+      this.logger.error(
+        `Failed to record activity of ${userId}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get the last activity time of every tracked user
+   * @returns Map of user ID to epoch milliseconds
+   */
+  async getUserActivity(): Promise<Record<string, number>> {
+    try {
+      const activity = await this.client.hGetAll('presence:activity');
+      return Object.fromEntries(
+        Object.entries(activity).map(([userId, time]) => [
+          userId,
+          Number(time),
+        ]),
+      );
+    } catch (error) {
+      this.logger.error(
+        'Failed to get user activity:',
+        error instanceof Error ? error.message : String(error),
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Stop tracking activity of a user (when they go offline)
+   * @param userId - Unique user identifier
+   */
+  async removeUserActivity(userId: string): Promise<void> {
+    try {
+      await this.client.hDel('presence:activity', userId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove activity of ${userId}:`,
+        error instanceof Error ? error.message : String(error),
+      );
     }
   }
 
@@ -199,19 +414,19 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get socket ID for a specific user
+   * Get the IDs of all sockets of a user, across all server instances
    * @param userId - Unique user identifier
-   * @returns Socket ID or null
+   * @returns Socket IDs (empty when offline)
    */
-  async getUserSocketId(userId: string): Promise<string | null> {
+  async getUserSocketIds(userId: string): Promise<string[]> {
     try {
-      return await this.client.hGet('online:users', userId);
+      return await this.client.sMembers(this.userSocketsKey(userId));
     } catch (error) {
       this.logger.error(
-        `Failed to get socket ID for ${userId}:`,
+        `Failed to get socket IDs for ${userId}:`,
         error.message,
       );
-      return null;
+      return [];
     }
   }
 
@@ -235,8 +450,7 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
    */
   async isUserOnline(userId: string): Promise<boolean> {
     try {
-       await this.client.hExists('online:users', userId)
-       return true;
+      return (await this.client.hExists('online:users', userId)) === 1;
     } catch (error) {
       this.logger.error(
         `Failed to check if user ${userId} is online:`,
@@ -248,23 +462,39 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
 
   // ==================== MESSAGE CACHING (OPTIONAL) ====================
 
+  /**
+   * Build the recent-messages cache key for a room
+   * @param roomId - Optional room ID; omit for the global lobby
+   * @returns Redis list key
+   */
+  private recentMessagesKey(roomId?: string | null): string {
+    return roomId ? `messages:recent:${roomId}` : 'messages:recent';
+  }
+
   /**
    * Cache recent messages
    * @param messages - Array of messages to cache
    * @param limit - Maximum number of messages to keep
+   * @param roomId - Optional room ID; omit for the global lobby
    */
-  async cacheRecentMessages(messages: any[], limit = 50): Promise<void> {
+  async cacheRecentMessages(
+    messages: any[],
+    limit = 50,
+    roomId?: string | null,
+  ): Promise<void> {
+    const key = this.recentMessagesKey(roomId);
+
     try {
       // Store as a list, keeping only the most recent
       const pipeline = this.client.multi();
-      pipeline.del('messages:recent');
+      pipeline.del(key);
 
       messages.slice(-limit).forEach((msg) => {
-        pipeline.rPush('messages:recent', JSON.stringify(msg));
+        pipeline.rPush(key, JSON.stringify(msg));
       });
 
       await pipeline.exec();
-      this.logger.debug(`Cached ${messages.length} recent messages`);
+      this.logger.debug(`Cached ${messages.length} recent messages in ${key}`);
     } catch (error) {
       this.logger.error('Failed to cache messages:', error.message);
     }
@@ -273,11 +503,16 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   /**
    * Get cached recent messages
    * @param limit - Number of messages to retrieve
+   * @param roomId - Optional room ID; omit for the global lobby
    * @returns Array of cached messages
    */
-  async getCachedMessages(limit = 50): Promise<any[]> {
+  async getCachedMessages(limit = 50, roomId?: string | null): Promise<any[]> {
     try {
-      const messages = await this.client.lRange('messages:recent', -limit, -1);
+      const messages = await this.client.lRange(
+        this.recentMessagesKey(roomId),
+        -limit,
+        -1,
+      );
       return messages.map((msg) => JSON.parse(msg));
     } catch (error) {
       this.logger.error('Failed to get cached messages:', error.message);
@@ -289,16 +524,307 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
    * Add a single message to cache
    * @param message - Message object to cache
    * @param maxLength - Maximum cache size
+   * @param roomId - Optional room ID; omit for the global lobby
    */
-  async addMessageToCache(message: any, maxLength = 50): Promise<void> {
+  async addMessageToCache(
+    message: any,
+    maxLength = 50,
+    roomId?: string | null,
+  ): Promise<void> {
+    const key = this.recentMessagesKey(roomId);
+
     try {
-      await this.client.rPush('messages:recent', JSON.stringify(message));
-      await this.client.lTrim('messages:recent', -maxLength, -1);
+      await this.client
+        .multi()
+        .rPush(key, JSON.stringify(message))
+        .lTrim(key, -maxLength, -1)
+        .exec();
     } catch (error) {
       this.logger.error('Failed to add message to cache:', error.message);
     }
   }
 
+  // Find a cached message by _id and replace it (or remove it when no
+  // replacement is given) in one step, so a concurrent push or trim cannot
+  // shift the index in between. Every update of a message bumps its version
+  // (__v); a copy older than the cached one is dropped, so concurrent
+  // updates cannot overwrite each other. Returns 1 when the cache changed.
+  private static readonly REPLACE_CACHED_MESSAGE_SCRIPT = `
+    local entries = redis.call('LRANGE', KEYS[1], 0, -1)
+    for i, entry in ipairs(entries) do
+      local ok, message = pcall(cjson.decode, entry)
+      if ok and tostring(message._id) == ARGV[1] then
+        if ARGV[2] == '' then
+          redis.call('LREM', KEYS[1], 1, entry)
+        elseif (tonumber(message.__v) or 0) > tonumber(ARGV[3]) then
+          return 0
+        else
+          redis.call('LSET', KEYS[1], i - 1, ARGV[2])
+        end
+        return 1
+      end
+    end
+    return 0
+  `;
+
+  /**
+   * Replace a cached message with its updated version, unless a newer
+   * version is already cached
+   * @param message - Updated message object (matched by _id)
+   * @param roomId - Optional room ID; omit for the global lobby
+   */
+  async updateCachedMessage(
+    message: { _id: unknown; __v?: number },
+    roomId?: string | null,
+  ): Promise<void> {
+    const key = this.recentMessagesKey(roomId);
+
+    try {
+      const id = String(message._id);
+      const replaced = await this.client.eval(
+        RedisService.REPLACE_CACHED_MESSAGE_SCRIPT,
+        {
+          keys: [key],
+          arguments: [id, JSON.stringify(message), String(message.__v ?? 0)],
+        },
+      );
+
+      if (replaced === 1) {
+        this.logger.debug(`Updated cached message ${id} in ${key}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to update cached message:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Evict a message from the cache
+   * @param messageId - ID of the message to remove
+   * @param roomId - Optional room ID; omit for the global lobby
+   */
+  async removeCachedMessage(
+    messageId: string,
+    roomId?: string | null,
+  ): Promise<void> {
+    const key = this.recentMessagesKey(roomId);
+
+    try {
+      const removed = await this.client.eval(
+        RedisService.REPLACE_CACHED_MESSAGE_SCRIPT,
+        { keys: [key], arguments: [messageId, ''] },
+      );
+
+      if (removed === 1) {
+        this.logger.debug(`Evicted message ${messageId} from ${key}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to evict cached message:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  // ==================== RATE LIMITING ====================
+
+  // Token bucket: refill by elapsed time (Redis clock, so every instance
+  // agrees), then take one token. Returns 0 when a token was taken,
+  // otherwise the milliseconds until the next token is available.
+  private static readonly TAKE_TOKEN_SCRIPT = `
+    local capacity = tonumber(ARGV[1])
+    local rate = tonumber(ARGV[2])
+    local time = redis.call('TIME')
+    local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+    local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+    local tokens = tonumber(bucket[1]) or capacity
+    local ts = tonumber(bucket[2]) or now
+    tokens = math.min(capacity, tokens + math.max(now - ts, 0) * rate / 1000)
+    local retry = 0
+    if tokens >= 1 then
+      tokens = tokens - 1
+    else
+      retry = math.ceil((1 - tokens) * 1000 / rate)
+    end
+    redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+    redis.call('PEXPIRE', KEYS[1], math.ceil(capacity * 1000 / rate))
+    return retry
+  `;
+
+  /**
+   * Take a token from a bucket shared by all instances
+   * @param key - Redis key of the bucket
+   * @param capacity - Maximum number of tokens (burst size)
+   * @param refillPerSecond - Tokens added per second
+   * @returns 0 when allowed, otherwise milliseconds until a token is free
+   */
+  async takeToken(
+    key: string,
+    capacity: number,
+    refillPerSecond: number,
+  ): Promise<number> {
+    try {
+      return (await this.client.eval(RedisService.TAKE_TOKEN_SCRIPT, {
+        keys: [key],
+        arguments: [String(capacity), String(refillPerSecond)],
+      })) as number;
+    } catch (error) {
+      // Fail open: an unavailable Redis must not lock everyone out
+      this.logger.error(
+        `Failed to take token from ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Increment a counter that expires a fixed time after its first increment
+   * @param key - Redis key
+   * @param ttl - Time to live in seconds
+   * @returns Counter value after the increment
+   */
+  async incrementWithExpiry(key: string, ttl: number): Promise<number> {
+    try {
+      const count = await this.client.incr(key);
+      if (count === 1) {
+        await this.client.expire(key, ttl);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(
+        `Failed to increment ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return 0;
+    }
+  }
+
+  // ==================== DELAYED QUEUES ====================
+
+  // Jobs live in a sorted set scored by the time they are due (ms). Claiming
+  // does not remove a job: it is pushed back by a lease, so if the instance
+  // that claimed it dies the job becomes due again. The worker removes or
+  // reschedules it once it is done.
+  private static readonly CLAIM_JOBS_SCRIPT = `
+    local jobs = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+    for _, job in ipairs(jobs) do
+      redis.call('ZADD', KEYS[1], ARGV[3], job)
+    end
+    return jobs
+  `;
+
+  /**
+   * Add a job to a delayed queue, or move it if it is already queued
+   * @param key - Redis key of the queue
+   * @param job - Job identifier
+   * @param dueAt - Time the job is due (ms since epoch)
+   */
+  async scheduleJob(key: string, job: string, dueAt: number): Promise<void> {
+    try {
+      await this.client.zAdd(key, { score: dueAt, value: job });
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule job on ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Claim jobs that are due
+   * @param key - Redis key of the queue
+   * @param limit - Maximum number of jobs to claim
+   * @param leaseMs - How long the jobs are hidden from other workers
+   * @returns Claimed job identifiers
+   */
+  async claimDueJobs(
+    key: string,
+    limit: number,
+    leaseMs: number,
+  ): Promise<string[]> {
+    const now = Date.now();
+    try {
+      return (await this.client.eval(RedisService.CLAIM_JOBS_SCRIPT, {
+        keys: [key],
+        arguments: [String(now), String(limit), String(now + leaseMs)],
+      })) as string[];
+    } catch (error) {
+      this.logger.error(
+        `Failed to claim jobs from ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Remove a job from a delayed queue
+   * @param key - Redis key of the queue
+   * @param job - Job identifier
+   */
+  async removeJob(key: string, job: string): Promise<void> {
+    try {
+      await this.client.zRem(key, job);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove job from ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Prepend an entry to a list, keeping only the newest entries
+   * @param key - Redis key of the list
+   * @param value - Entry to add
+   * @param maxLength - Number of entries to keep
+   */
+  async pushCapped(
+    key: string,
+    value: string,
+    maxLength: number,
+  ): Promise<void> {
+    try {
+      await this.client
+        .multi()
+        .lPush(key, value)
+        .lTrim(key, 0, maxLength - 1)
+        .exec();
+    } catch (error) {
+      this.logger.error(
+        `Failed to push to ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Read entries of a list
+   * @param key - Redis key of the list
+   * @param start - First index
+   * @param stop - Last index (inclusive, -1 for the end)
+   * @returns Entries
+   */
+  async getListRange(
+    key: string,
+    start: number,
+    stop: number,
+  ): Promise<string[]> {
+    try {
+      return await this.client.lRange(key, start, stop);
+    } catch (error) {
+      this.logger.error(
+        `Failed to read ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    }
+  }
+
   // ==================== GENERIC KEY-VALUE OPERATIONS ====================
 
   /**
@@ -334,6 +860,31 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Set a key only if it does not exist yet (a simple distributed lock)
+   * @param key - Redis key
+   * @param value - Value to store (e.g. the owner's ID)
+   * @param ttl - Time to live in seconds
+   * @returns Whether the key was set
+   */
+  async setIfNotExists(
+    key: string,
+    value: string,
+    ttl: number,
+  ): Promise<boolean> {
+    try {
+      return (
+        (await this.client.set(key, value, { NX: true, EX: ttl })) === 'OK'
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to set key ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return false;
+    }
+  }
+
   /**
    * Delete a key
    * @param key - Redis key
@@ -364,6 +915,24 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Get the remaining time to live of a key
+   * @param key - Redis key
+   * @returns Seconds until expiration, or 0 if the key does not exist (or
+   * has no expiration)
+   */
+  async ttl(key: string): Promise<number> {
+    try {
+      return Math.max(await this.client.ttl(key), 0);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get TTL of key ${key}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return 0;
+    }
+  }
+
   /**
    * Set expiration on a key
    * @param key - Redis key
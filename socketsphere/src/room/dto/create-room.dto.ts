@@ -0,0 +1,30 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRoomDto {
+  @IsNotEmpty({ message: 'Room name is required' })
+  @IsString({ message: 'Room name must be a string' })
+  @Length(2, 50, { message: 'Room name must be between 2 and 50 characters' })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isPrivate?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  members?: string[];
+}
@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { RoomService } from './room.service';
+import { CreateRoomDto } from './dto/create-room.dto';
+import { AddMemberDto } from './dto/add-member.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+import { RealtimeService } from '../realtime/realtime.service';
+
+@Controller('rooms')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class RoomController {
+  constructor(
+    private readonly roomService: RoomService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * POST /rooms
+   * Create a new room owned by the authenticated user
+   */
+  @Post()
+  @RequirePermissions('room:create')
+  @HttpCode(HttpStatus.CREATED)
+  async createRoom(
+    @Body() createRoomDto: CreateRoomDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const room = await this.roomService.createRoom(createRoomDto, user.userId);
+    return {
+      success: true,
+      message: 'Room created successfully',
+      data: room,
+    };
+  }
+
+  /**
+   * GET /rooms
+   * List public rooms, plus private rooms the authenticated user belongs to
+   */
+  @Get()
+  async getRooms(
+    @CurrentUser() user: AuthUser,
+    @Query('includeArchived') includeArchived?: string,
+  ) {
+    const rooms = await this.roomService.findAll(
+      user.userId,
+      includeArchived === 'true',
+    );
+    return {
+      success: true,
+      data: rooms,
+      count: rooms.length,
+    };
+  }
+
+  /**
+   * GET /rooms/:id
+   * Get room by ID
+   */
+  @Get(':id')
+  async getRoomById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const room = await this.roomService.findById(id);
+    if (!this.roomService.canAccess(room, user.userId)) {
+      throw new ForbiddenException('This room is private');
+    }
+
+    return {
+      success: true,
+      data: room,
+    };
+  }
+
+  /**
+   * PATCH /rooms/:id/archive
+   * Archive a room (creator only)
+   */
+  @Patch(':id/archive')
+  async archiveRoom(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const existing = await this.roomService.findById(id);
+    if (existing.createdBy !== user.userId) {
+      throw new ForbiddenException('Only the room creator can archive it');
+    }
+
+    const room = await this.roomService.archiveRoom(id);
+    return {
+      success: true,
+      message: 'Room archived successfully',
+      data: room,
+    };
+  }
+
+  /**
+   * GET /rooms/:id/members
+   * Get a room's member list
+   */
+  @Get(':id/members')
+  async getMembers(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const room = await this.roomService.findById(id);
+    if (!this.roomService.canAccess(room, user.userId)) {
+      throw new ForbiddenException('This room is private');
+    }
+
+    return {
+      success: true,
+      data: room.members,
+      count: room.members.length,
+    };
+  }
+
+  /**
+   * POST /rooms/:id/members
+   * Add a member to a room (members only)
+   */
+  @Post(':id/members')
+  async addMember(
+    @Param('id') id: string,
+    @Body() addMemberDto: AddMemberDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const existing = await this.roomService.findById(id);
+    if (!existing.members.includes(user.userId)) {
+      throw new ForbiddenException('Only room members can add members');
+    }
+
+    const room = await this.roomService.addMember(id, addMemberDto.userId);
+    return {
+      success: true,
+      message: 'Member added successfully',
+      data: room,
+    };
+  }
+
+  /**
+   * DELETE /rooms/:id/members/:userId
+   * Remove a member from a room (the member themselves or the creator)
+   */
+  @Delete(':id/members/:userId')
+  async removeMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const existing = await this.roomService.findById(id);
+    if (userId !== user.userId && existing.createdBy !== user.userId) {
+      throw new ForbiddenException('You cannot remove this member');
+    }
+
+    const room = await this.roomService.removeMember(id, userId);
+    // Former members stop receiving the room's events
+    this.realtimeService.removeUserFromRoom(userId, id);
+    return {
+      success: true,
+      message: 'Member removed successfully',
+      data: room,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Room, RoomSchema } from './schemas/room.schema';
+import { RoomService } from './room.service';
+import { RoomController } from './room.controller';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Room.name, schema: RoomSchema }]),
+    UserModule,
+  ],
+  controllers: [RoomController],
+  providers: [RoomService],
+  exports: [RoomService, MongooseModule],
+})
+export class RoomModule {}
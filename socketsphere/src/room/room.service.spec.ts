@@ -0,0 +1,106 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RoomService } from './room.service';
+import { Room } from './schemas/room.schema';
+
+describe('RoomService', () => {
+  let roomService: RoomService;
+  let save: jest.Mock;
+  const roomModel = Object.assign(
+    jest.fn((doc: Record<string, unknown>) => ({ ...doc, save })),
+    {
+      find: jest.fn(() => ({
+        sort: () => ({ exec: () => Promise.resolve([]) }),
+      })),
+      findById: jest.fn(),
+    },
+  );
+
+  const room = (fields: Partial<Room>) =>
+    ({
+      name: 'general',
+      isPrivate: false,
+      members: [],
+      createdBy: 'alice',
+      archived: false,
+      ...fields,
+    }) as Room;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    save = jest.fn(function (this: unknown) {
+      return Promise.resolve(this);
+    });
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomService,
+        { provide: getModelToken(Room.name), useValue: roomModel },
+      ],
+    }).compile();
+
+    roomService = app.get<RoomService>(RoomService);
+  });
+
+  describe('createRoom', () => {
+    it('should make the creator a member exactly once', async () => {
+      const created = await roomService.createRoom(
+        { name: 'team', isPrivate: true, members: ['bob', 'alice'] },
+        'alice',
+      );
+
+      expect(created.members).toEqual(['alice', 'bob']);
+      expect(created.createdBy).toBe('alice');
+    });
+
+    it('should report a taken name as a conflict', async () => {
+      save.mockRejectedValueOnce(
+        Object.assign(new Error('E11000'), { code: 11000 }),
+      );
+
+      await expect(
+        roomService.createRoom({ name: 'general' }, 'alice'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should only list private rooms to their members', async () => {
+      await roomService.findAll('bob');
+
+      expect(roomModel.find).toHaveBeenCalledWith({
+        $or: [{ isPrivate: false }, { members: 'bob' }],
+        archived: false,
+      });
+    });
+
+    it('should list only public rooms without a user', async () => {
+      await roomService.findAll(undefined, true);
+
+      expect(roomModel.find).toHaveBeenCalledWith({
+        $or: [{ isPrivate: false }],
+      });
+    });
+  });
+
+  describe('canAccess', () => {
+    it('should let anyone into a public room', () => {
+      expect(roomService.canAccess(room({}), 'mallory')).toBe(true);
+    });
+
+    it('should only let members into a private room', () => {
+      const team = room({ isPrivate: true, members: ['alice', 'bob'] });
+
+      expect(roomService.canAccess(team, 'bob')).toBe(true);
+      expect(roomService.canAccess(team, 'mallory')).toBe(false);
+    });
+  });
+
+  it('should reject malformed room IDs before querying', async () => {
+    await expect(roomService.findById('not-an-id')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(roomModel.findById).not.toHaveBeenCalled();
+  });
+});
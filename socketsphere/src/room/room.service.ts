@@ -0,0 +1,170 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Room, RoomDocument } from './schemas/room.schema';
+import { CreateRoomDto } from './dto/create-room.dto';
+
+@Injectable()
+export class RoomService {
+  constructor(@InjectModel(Room.name) private roomModel: Model<RoomDocument>) {}
+
+  /**
+   * Create a new room
+   * @param createRoomDto - DTO containing room name and visibility
+   * @param createdBy - User ID of the creator
+   * @returns Created room document
+   * @throws ConflictException if room name already exists
+   */
+  async createRoom(
+    createRoomDto: CreateRoomDto,
+    createdBy: string,
+  ): Promise<RoomDocument> {
+    // The creator is always a member of the room
+    const members = Array.from(
+      new Set([createdBy, ...(createRoomDto.members || [])]),
+    );
+
+    try {
+      const newRoom = new this.roomModel({
+        ...createRoomDto,
+        createdBy,
+        members,
+      });
+
+      return await newRoom.save();
+    } catch (error) {
+      // Handle duplicate room name error (MongoDB error code 11000)
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException('Room name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List rooms visible to a user
+   * @param userId - Optional user ID; private rooms are included only for members
+   * @param includeArchived - Whether archived rooms should be listed
+   * @returns Array of rooms sorted by name
+   */
+  async findAll(
+    userId?: string,
+    includeArchived: boolean = false,
+  ): Promise<RoomDocument[]> {
+    const visibility: FilterQuery<RoomDocument>[] = [{ isPrivate: false }];
+    if (userId) {
+      visibility.push({ members: userId });
+    }
+
+    const filter: FilterQuery<RoomDocument> = { $or: visibility };
+    if (!includeArchived) {
+      filter.archived = false;
+    }
+
+    return await this.roomModel.find(filter).sort({ name: 1 }).exec();
+  }
+
+  /**
+   * Find room by ID
+   * @param id - Room's MongoDB ObjectId
+   * @returns Room document
+   * @throws NotFoundException if room not found
+   */
+  async findById(id: string): Promise<RoomDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid room ID format');
+    }
+
+    const room = await this.roomModel.findById(id).exec();
+
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${id} not found`);
+    }
+
+    return room;
+  }
+
+  /**
+   * Archive a room (it stays readable but accepts no new messages)
+   * @param id - Room's MongoDB ObjectId
+   * @returns Updated room document
+   * @throws NotFoundException if room not found
+   */
+  async archiveRoom(id: string): Promise<RoomDocument> {
+    await this.findById(id);
+
+    const room = await this.roomModel
+      .findByIdAndUpdate(
+        id,
+        { archived: true, archivedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+
+    return room!;
+  }
+
+  /**
+   * Set a room's topic
+   * @param id - Room's MongoDB ObjectId
+   * @param topic - New topic
+   * @returns Updated room document
+   * @throws NotFoundException if room not found
+   */
+  async setTopic(id: string, topic: string): Promise<RoomDocument> {
+    await this.findById(id);
+
+    const room = await this.roomModel
+      .findByIdAndUpdate(id, { topic }, { new: true })
+      .exec();
+
+    return room!;
+  }
+
+  /**
+   * Add a user to a room's member list
+   * @param id - Room's MongoDB ObjectId
+   * @param userId - User ID to add
+   * @returns Updated room document
+   */
+  async addMember(id: string, userId: string): Promise<RoomDocument> {
+    await this.findById(id);
+
+    const room = await this.roomModel
+      .findByIdAndUpdate(id, { $addToSet: { members: userId } }, { new: true })
+      .exec();
+
+    return room!;
+  }
+
+  /**
+   * Remove a user from a room's member list
+   * @param id - Room's MongoDB ObjectId
+   * @param userId - User ID to remove
+   * @returns Updated room document
+   */
+  async removeMember(id: string, userId: string): Promise<RoomDocument> {
+    await this.findById(id);
+
+    const room = await this.roomModel
+      .findByIdAndUpdate(id, { $pull: { members: userId } }, { new: true })
+      .exec();
+
+    return room!;
+  }
+
+  /**
+   * Check whether a user may read and join a room
+   * @param room - Room document
+   * @param userId - User ID to check
+   * @returns boolean indicating access
+   */
+  canAccess(room: Room, userId: string): boolean {
+    return !room.isPrivate || room.members.includes(userId);
+  }
+}
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class Room {
+  @Prop({
+    required: true,
+    unique: true,
+    trim: true,
+    minlength: 2,
+    maxlength: 50,
+  })
+  name: string;
+
+  @Prop({ trim: true, maxlength: 200 })
+  description?: string;
+
+  // Current subject of the conversation (set with /topic)
+  @Prop({ type: String, trim: true, maxlength: 200, default: null })
+  topic?: string | null;
+
+  // Private rooms are only visible to and joinable by their members
+  @Prop({ default: false })
+  isPrivate: boolean;
+
+  // User IDs of room members
+  @Prop({ type: [String], default: [] })
+  members: string[];
+
+  // User ID of the room creator
+  @Prop({ required: true })
+  createdBy: string;
+
+  // Archived rooms are read-only and hidden from listings by default
+  @Prop({ default: false })
+  archived: boolean;
+
+  @Prop()
+  archivedAt?: Date;
+}
+
+export type RoomDocument = Room & Document;
+export const RoomSchema = SchemaFactory.createForClass(Room);
+
+RoomSchema.index({ members: 1 });
+RoomSchema.index({ isPrivate: 1, archived: 1 });
@@ -0,0 +1,32 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// Longest mute or ban that can be given (one year, in seconds)
+export const MAX_SANCTION_DURATION = 365 * 24 * 3600;
+
+export class SanctionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+
+  // Length in seconds (mutes default to 10 minutes; bans without a
+  // duration are permanent; ignored for kicks)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SANCTION_DURATION)
+  duration?: number;
+
+  // Also ban the address the user last connected from (bans only)
+  @IsOptional()
+  @IsBoolean()
+  ip?: boolean;
+}
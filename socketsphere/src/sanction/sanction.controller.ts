@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { SanctionService } from './sanction.service';
+import { SanctionDto } from './dto/sanction.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('moderation/users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('user:sanction')
+export class SanctionController {
+  constructor(private readonly sanctionService: SanctionService) {}
+
+  /**
+   * GET /moderation/users/:id/sanctions
+   * Get a user's sanction history (moderators only)
+   */
+  @Get(':id/sanctions')
+  async getSanctions(@Param('id') id: string) {
+    const sanctions = await this.sanctionService.findByUser(id);
+    return {
+      success: true,
+      data: sanctions,
+      count: sanctions.length,
+    };
+  }
+
+  /**
+   * POST /moderation/users/:id/kick
+   * Disconnect all of a user's sockets
+   */
+  @Post(':id/kick')
+  @HttpCode(HttpStatus.CREATED)
+  async kick(
+    @Param('id') id: string,
+    @Body() sanctionDto: SanctionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const sanction = await this.sanctionService.kick(
+      id,
+      user.userId,
+      sanctionDto,
+    );
+    return {
+      success: true,
+      message: 'User kicked successfully',
+      data: sanction,
+    };
+  }
+
+  /**
+   * POST /moderation/users/:id/mute
+   * Stop a user from sending messages for a while
+   */
+  @Post(':id/mute')
+  @HttpCode(HttpStatus.CREATED)
+  async mute(
+    @Param('id') id: string,
+    @Body() sanctionDto: SanctionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const sanction = await this.sanctionService.mute(
+      id,
+      user.userId,
+      sanctionDto,
+    );
+    return {
+      success: true,
+      message: 'User muted successfully',
+      data: sanction,
+    };
+  }
+
+  /**
+   * POST /moderation/users/:id/ban
+   * Ban a user (optionally also their address) and disconnect them
+   */
+  @Post(':id/ban')
+  @HttpCode(HttpStatus.CREATED)
+  async ban(
+    @Param('id') id: string,
+    @Body() sanctionDto: SanctionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const sanction = await this.sanctionService.ban(
+      id,
+      user.userId,
+      sanctionDto,
+    );
+    return {
+      success: true,
+      message: 'User banned successfully',
+      data: sanction,
+    };
+  }
+
+  /**
+   * DELETE /moderation/users/:id/mute
+   * Lift a user's mute (moderators only)
+   */
+  @Delete(':id/mute')
+  async unmute(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const sanction = await this.sanctionService.revoke(id, 'mute', user.userId);
+    return {
+      success: true,
+      message: 'Mute lifted successfully',
+      data: sanction,
+    };
+  }
+
+  /**
+   * DELETE /moderation/users/:id/ban
+   * Lift a user's ban (moderators only)
+   */
+  @Delete(':id/ban')
+  async unban(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const sanction = await this.sanctionService.revoke(id, 'ban', user.userId);
+    return {
+      success: true,
+      message: 'Ban lifted successfully',
+      data: sanction,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Sanction, SanctionSchema } from './schemas/sanction.schema';
+import { SanctionService } from './sanction.service';
+import { SanctionController } from './sanction.controller';
+import { UserModule } from '../user/user.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Sanction.name, schema: SanctionSchema },
+    ]),
+    UserModule,
+    NotificationModule,
+  ],
+  controllers: [SanctionController],
+  providers: [SanctionService],
+  exports: [SanctionService],
+})
+export class SanctionModule {}
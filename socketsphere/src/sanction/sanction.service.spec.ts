@@ -0,0 +1,165 @@
+import { ForbiddenException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SanctionService } from './sanction.service';
+import { Sanction } from './schemas/sanction.schema';
+import { UserService } from '../user/user.service';
+import { RedisService } from '../redis/redis.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { NotificationService } from '../notification/notification.service';
+
+describe('SanctionService', () => {
+  let sanctionService: SanctionService;
+  let store: Map<string, string>;
+  const roles: Record<string, string> = {
+    admin: 'admin',
+    mod: 'moderator',
+    mod2: 'moderator',
+    member: 'member',
+  };
+  let remaining: Record<string, unknown>[];
+  const sanctionModel = {
+    create: jest.fn((doc: Record<string, unknown>) =>
+      Promise.resolve({ _id: 's1', ...doc }),
+    ),
+    findOneAndUpdate: jest.fn(() => ({
+      exec: () =>
+        Promise.resolve({ _id: 's2', userId: 'member', type: 'mute' }),
+    })),
+    find: jest.fn(() => ({ exec: () => Promise.resolve(remaining) })),
+  };
+  const userService = {
+    findById: jest.fn((id: string) =>
+      Promise.resolve({ _id: id, role: roles[id] }),
+    ),
+  };
+  const redisService = {
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    del: jest.fn(),
+  };
+  const realtimeService = {
+    emitToUser: jest.fn(),
+    disconnectUser: jest.fn(),
+  };
+  const notificationService = {
+    notify: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+    remaining = [];
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        SanctionService,
+        { provide: getModelToken(Sanction.name), useValue: sanctionModel },
+        { provide: UserService, useValue: userService },
+        { provide: RedisService, useValue: redisService },
+        { provide: RealtimeService, useValue: realtimeService },
+        { provide: NotificationService, useValue: notificationService },
+      ],
+    }).compile();
+
+    sanctionService = app.get<SanctionService>(SanctionService);
+  });
+
+  it('should store a mute that expires with its duration', async () => {
+    await sanctionService.mute('member', 'mod', {
+      duration: 60,
+      reason: 'spam',
+    });
+
+    expect(redisService.set).toHaveBeenCalledWith(
+      'sanction:mute:member',
+      expect.any(String),
+      60,
+    );
+    await expect(sanctionService.getActiveMute('member')).resolves.toEqual(
+      expect.objectContaining({ type: 'mute', reason: 'spam' }),
+    );
+    expect(realtimeService.emitToUser).toHaveBeenCalledWith(
+      'member',
+      'sanctioned',
+      expect.objectContaining({ type: 'mute' }),
+    );
+    // Kept in the inbox for when the user is offline
+    expect(notificationService.notify).toHaveBeenCalledWith(
+      ['member'],
+      expect.objectContaining({
+        type: 'moderation',
+        text: 'You were muted by a moderator: spam',
+      }),
+    );
+  });
+
+  it('should ban the last known address and disconnect the user', async () => {
+    await sanctionService.recordAddress('member', '10.0.0.7');
+    await sanctionService.ban('member', 'mod', { ip: true });
+
+    expect(realtimeService.disconnectUser).toHaveBeenCalledWith('member');
+    // Another account on the same address is banned too
+    await expect(
+      sanctionService.getActiveBan('other', '10.0.0.7'),
+    ).resolves.toEqual(expect.objectContaining({ type: 'ban' }));
+    await expect(
+      sanctionService.getActiveBan('other', '10.0.0.8'),
+    ).resolves.toBeNull();
+  });
+
+  it('should only let admins sanction moderators', async () => {
+    await expect(sanctionService.kick('mod2', 'mod')).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(sanctionService.kick('mod2', 'admin')).resolves.toEqual(
+      expect.objectContaining({ type: 'kick', userId: 'mod2' }),
+    );
+  });
+
+  it('should not let members sanction anyone', async () => {
+    await expect(sanctionService.mute('mod', 'member')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(sanctionModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should only let admins lift the sanctions of moderators', async () => {
+    await expect(sanctionService.revoke('mod2', 'ban', 'mod')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(sanctionModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should keep enforcing a longer mute after lifting a shorter one', async () => {
+    const expiresAt = new Date(Date.now() + 3600 * 1000);
+    remaining = [
+      {
+        _id: 's0',
+        userId: 'member',
+        type: 'mute',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      },
+      { _id: 's3', userId: 'member', type: 'mute', expiresAt },
+    ];
+
+    await sanctionService.revoke('member', 'mute', 'mod');
+
+    expect(redisService.del).not.toHaveBeenCalled();
+    await expect(sanctionService.getActiveMute('member')).resolves.toEqual(
+      expect.objectContaining({
+        sanctionId: 's3',
+        expiresAt: expiresAt.toISOString(),
+      }),
+    );
+  });
+
+  it('should clear the mute once none remains', async () => {
+    await sanctionService.revoke('member', 'mute', 'mod');
+
+    expect(redisService.del).toHaveBeenCalledWith('sanction:mute:member');
+  });
+});
@@ -0,0 +1,427 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Sanction,
+  SanctionDocument,
+  SanctionType,
+} from './schemas/sanction.schema';
+import { SanctionDto } from './dto/sanction.dto';
+import { UserService } from '../user/user.service';
+import { RedisService } from '../redis/redis.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { NotificationService } from '../notification/notification.service';
+import { hasPermission } from '../auth/permissions';
+
+// Mutes without an explicit duration last this long (seconds)
+const DEFAULT_MUTE_DURATION = 10 * 60;
+
+// How long the last connection address of a user is remembered (seconds)
+const ADDRESS_TTL = 30 * 24 * 3600;
+
+/**
+ * An active mute or ban as stored in Redis
+ */
+export interface ActiveSanction {
+  sanctionId: string;
+  type: SanctionType;
+  reason: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Sanction Service - Kicks, mutes and bans issued by moderators
+ *
+ * Mongo keeps the history; Redis holds the active mutes and bans (expiring
+ * with their TTL) so every instance enforces them without a database query.
+ */
+@Injectable()
+export class SanctionService implements OnModuleInit {
+  private readonly logger = new Logger(SanctionService.name);
+
+  constructor(
+    @InjectModel(Sanction.name)
+    private sanctionModel: Model<SanctionDocument>,
+    private readonly userService: UserService,
+    private readonly redisService: RedisService,
+    private readonly realtimeService: RealtimeService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Restore active sanctions into Redis (e.g. after Redis lost its data)
+   */
+  async onModuleInit() {
+    try {
+      const active = await this.sanctionModel
+        .find({
+          type: { $in: ['mute', 'ban'] },
+          revokedAt: null,
+          $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+        })
+        .exec();
+
+      for (const sanction of active) {
+        await this.store(sanction);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to restore sanctions: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Disconnect all of a user's sockets
+   * @param userId - User to kick
+   * @param moderatorId - Moderator issuing the kick
+   * @param sanctionDto - Optional reason
+   * @returns Recorded sanction
+   * @throws ForbiddenException if the moderator may not sanction the user
+   */
+  async kick(
+    userId: string,
+    moderatorId: string,
+    sanctionDto: SanctionDto = {},
+  ): Promise<SanctionDocument> {
+    await this.assertCanSanction(userId, moderatorId);
+
+    const sanction = await this.sanctionModel.create({
+      userId,
+      type: 'kick',
+      reason: sanctionDto.reason ?? null,
+      issuedBy: moderatorId,
+      expiresAt: new Date(),
+    });
+
+    await this.notify(sanction);
+    this.realtimeService.disconnectUser(userId);
+
+    this.logger.log(`👢 ${moderatorId} kicked ${userId}`);
+    return sanction;
+  }
+
+  /**
+   * Stop a user from sending messages for a while
+   * @param userId - User to mute
+   * @param moderatorId - Moderator issuing the mute
+   * @param sanctionDto - Optional reason and duration
+   * @returns Recorded sanction
+   * @throws ForbiddenException if the moderator may not sanction the user
+   */
+  async mute(
+    userId: string,
+    moderatorId: string,
+    sanctionDto: SanctionDto = {},
+  ): Promise<SanctionDocument> {
+    await this.assertCanSanction(userId, moderatorId);
+
+    const duration = sanctionDto.duration ?? DEFAULT_MUTE_DURATION;
+    const sanction = await this.sanctionModel.create({
+      userId,
+      type: 'mute',
+      reason: sanctionDto.reason ?? null,
+      issuedBy: moderatorId,
+      expiresAt: new Date(Date.now() + duration * 1000),
+    });
+
+    await this.store(sanction);
+    await this.notify(sanction);
+
+    this.logger.log(`🔇 ${moderatorId} muted ${userId} for ${duration}s`);
+    return sanction;
+  }
+
+  /**
+   * Ban a user (and optionally their last address) and disconnect them
+   * @param userId - User to ban
+   * @param moderatorId - Moderator issuing the ban
+   * @param sanctionDto - Optional reason, duration (permanent without one)
+   * and whether to ban the address too
+   * @returns Recorded sanction
+   * @throws ForbiddenException if the moderator may not sanction the user
+   * @throws BadRequestException if the user's address is unknown
+   */
+  async ban(
+    userId: string,
+    moderatorId: string,
+    sanctionDto: SanctionDto = {},
+  ): Promise<SanctionDocument> {
+    await this.assertCanSanction(userId, moderatorId);
+
+    let ip: string | null = null;
+    if (sanctionDto.ip) {
+      ip = await this.redisService.get(this.addressKey(userId));
+      if (!ip) {
+        throw new BadRequestException('No known address for this user');
+      }
+    }
+
+    const sanction = await this.sanctionModel.create({
+      userId,
+      type: 'ban',
+      reason: sanctionDto.reason ?? null,
+      issuedBy: moderatorId,
+      expiresAt: sanctionDto.duration
+        ? new Date(Date.now() + sanctionDto.duration * 1000)
+        : null,
+      ip,
+    });
+
+    await this.store(sanction);
+    await this.notify(sanction);
+    this.realtimeService.disconnectUser(userId);
+
+    this.logger.log(`⛔ ${moderatorId} banned ${userId}`);
+    return sanction;
+  }
+
+  /**
+   * Lift a user's active mute or ban
+   * @param userId - Sanctioned user
+   * @param type - 'mute' or 'ban'
+   * @param moderatorId - Moderator lifting the sanction
+   * @returns The revoked sanction
+   * @throws ForbiddenException if the moderator may not sanction the user
+   * @throws NotFoundException if there is no active sanction of that type
+   */
+  async revoke(
+    userId: string,
+    type: 'mute' | 'ban',
+    moderatorId: string,
+  ): Promise<SanctionDocument> {
+    await this.assertCanSanction(userId, moderatorId);
+
+    const sanction = await this.sanctionModel
+      .findOneAndUpdate(
+        {
+          userId,
+          type,
+          revokedAt: null,
+          $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+        },
+        { revokedAt: new Date(), revokedBy: moderatorId },
+        { new: true, sort: { createdAt: -1 } },
+      )
+      .exec();
+
+    if (!sanction) {
+      throw new NotFoundException(`User ${userId} has no active ${type}`);
+    }
+
+    // An older sanction of the same type may still be running (e.g. a
+    // longer mute), in which case it takes over the enforcement key
+    const remaining = await this.findLongestActive(userId, type);
+    if (sanction.ip && sanction.ip !== remaining?.ip) {
+      await this.redisService.del(this.sanctionKey('ban', `ip:${sanction.ip}`));
+    }
+    if (remaining) {
+      await this.store(remaining);
+    } else {
+      await this.redisService.del(this.sanctionKey(type, userId));
+    }
+
+    this.realtimeService.emitToUser(userId, 'sanctionLifted', {
+      type,
+      sanctionId: String(sanction._id),
+    });
+    await this.notificationService.notify([userId], {
+      type: 'moderation',
+      text: `Your ${type} was lifted`,
+      actorId: moderatorId,
+      data: { sanctionId: String(sanction._id), type, lifted: true },
+    });
+
+    this.logger.log(`✅ ${moderatorId} lifted the ${type} of ${userId}`);
+    return sanction;
+  }
+
+  /**
+   * Get a user's active mute
+   * @param userId - User's MongoDB ObjectId
+   * @returns The mute, or null when the user may send messages
+   */
+  async getActiveMute(userId: string): Promise<ActiveSanction | null> {
+    return await this.load(this.sanctionKey('mute', userId));
+  }
+
+  /**
+   * Reject writes (messages, edits, reactions, uploads) from a muted user
+   * @param userId - User's MongoDB ObjectId
+   * @throws ForbiddenException if the user is muted
+   */
+  async assertNotMuted(userId: string): Promise<void> {
+    if (await this.getActiveMute(userId)) {
+      throw new ForbiddenException('You are muted');
+    }
+  }
+
+  /**
+   * Get the active ban of a user or of the address they connect from
+   * @param userId - User's MongoDB ObjectId
+   * @param ip - Connection address
+   * @returns The ban, or null when the user may join
+   */
+  async getActiveBan(
+    userId: string,
+    ip?: string,
+  ): Promise<ActiveSanction | null> {
+    return (
+      (await this.load(this.sanctionKey('ban', userId))) ??
+      (ip ? await this.load(this.sanctionKey('ban', `ip:${ip}`)) : null)
+    );
+  }
+
+  /**
+   * Remember the address a user connects from (for address bans)
+   * @param userId - User's MongoDB ObjectId
+   * @param ip - Connection address
+   */
+  async recordAddress(userId: string, ip: string): Promise<void> {
+    await this.redisService.set(this.addressKey(userId), ip, ADDRESS_TTL);
+  }
+
+  /**
+   * Get a user's sanction history
+   * @param userId - User's MongoDB ObjectId
+   * @returns Sanctions, newest first
+   */
+  async findByUser(userId: string): Promise<SanctionDocument[]> {
+    return await this.sanctionModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Moderators may sanction members and guests; only admins may sanction
+   * moderators
+   * @throws ForbiddenException if the moderator may not sanction the user
+   */
+  private async assertCanSanction(
+    userId: string,
+    moderatorId: string,
+  ): Promise<void> {
+    if (userId === moderatorId) {
+      throw new ForbiddenException('You cannot sanction yourself');
+    }
+
+    const moderator = await this.userService.findById(moderatorId);
+    const target = await this.userService.findById(userId);
+
+    if (!hasPermission(moderator.role, 'user:sanction')) {
+      throw new ForbiddenException('Only moderators can sanction users');
+    }
+    if (
+      hasPermission(target.role, 'user:sanction') &&
+      !hasPermission(moderator.role, 'user:roles')
+    ) {
+      throw new ForbiddenException('Only admins can sanction moderators');
+    }
+  }
+
+  /**
+   * Find the active sanction of a type that runs the longest (permanent
+   * ones first)
+   */
+  private async findLongestActive(
+    userId: string,
+    type: 'mute' | 'ban',
+  ): Promise<SanctionDocument | null> {
+    const active = await this.sanctionModel
+      .find({
+        userId,
+        type,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+      })
+      .exec();
+
+    let longest: SanctionDocument | null = null;
+    for (const sanction of active) {
+      if (
+        !longest ||
+        (longest.expiresAt &&
+          (!sanction.expiresAt || sanction.expiresAt > longest.expiresAt))
+      ) {
+        longest = sanction;
+      }
+    }
+    return longest;
+  }
+
+  /**
+   * Put an active mute or ban into Redis, expiring with the sanction
+   */
+  private async store(sanction: SanctionDocument): Promise<void> {
+    const ttl = sanction.expiresAt
+      ? Math.ceil((sanction.expiresAt.getTime() - Date.now()) / 1000)
+      : undefined;
+    if (ttl !== undefined && ttl <= 0) {
+      return;
+    }
+
+    const value = JSON.stringify(this.toActive(sanction));
+    await this.redisService.set(
+      this.sanctionKey(sanction.type, sanction.userId),
+      value,
+      ttl,
+    );
+    if (sanction.ip) {
+      await this.redisService.set(
+        this.sanctionKey('ban', `ip:${sanction.ip}`),
+        value,
+        ttl,
+      );
+    }
+  }
+
+  private async load(key: string): Promise<ActiveSanction | null> {
+    const value = await this.redisService.get(key);
+    return value ? (JSON.parse(value) as ActiveSanction) : null;
+  }
+
+  /**
+   * Tell the sanctioned user what happened, now and in their inbox
+   */
+  private async notify(sanction: SanctionDocument): Promise<void> {
+    const active = this.toActive(sanction);
+    this.realtimeService.emitToUser(sanction.userId, 'sanctioned', active);
+
+    const summary = {
+      kick: 'You were kicked by a moderator',
+      mute: 'You were muted by a moderator',
+      ban: 'You were banned by a moderator',
+    }[sanction.type];
+    await this.notificationService.notify([sanction.userId], {
+      type: 'moderation',
+      text: sanction.reason ? `${summary}: ${sanction.reason}` : summary,
+      actorId: sanction.issuedBy,
+      data: { ...active },
+    });
+  }
+
+  private toActive(sanction: SanctionDocument): ActiveSanction {
+    return {
+      sanctionId: String(sanction._id),
+      type: sanction.type,
+      reason: sanction.reason ?? null,
+      expiresAt: sanction.expiresAt?.toISOString() ?? null,
+    };
+  }
+
+  private sanctionKey(type: SanctionType, subject: string): string {
+    return `sanction:${type}:${subject}`;
+  }
+
+  private addressKey(userId: string): string {
+    return `sanction:address:${userId}`;
+  }
+}
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export const SANCTION_TYPES = ['kick', 'mute', 'ban'];
+export type SanctionType = 'kick' | 'mute' | 'ban';
+
+@Schema({ timestamps: true })
+export class Sanction {
+  // Sanctioned user's ID
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true, enum: SANCTION_TYPES })
+  type: SanctionType;
+
+  @Prop({ type: String, default: null, maxlength: 200 })
+  reason?: string | null;
+
+  // Moderator who issued the sanction
+  @Prop({ required: true })
+  issuedBy: string;
+
+  // When the sanction ends (null for permanent bans; kicks end at once)
+  @Prop({ type: Date, default: null })
+  expiresAt?: Date | null;
+
+  // Address also banned (bans only)
+  @Prop({ type: String, default: null })
+  ip?: string | null;
+
+  // Set when a moderator lifts the sanction early
+  @Prop({ type: Date, default: null })
+  revokedAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  revokedBy?: string | null;
+
+  @Prop()
+  createdAt?: Date;
+}
+
+export type SanctionDocument = Sanction & Document;
+export const SanctionSchema = SchemaFactory.createForClass(Sanction);
+
+SanctionSchema.index({ userId: 1, createdAt: -1 });
+SanctionSchema.index({ type: 1, revokedAt: 1, expiresAt: 1 });
@@ -5,4 +5,9 @@ export class CreateUserDto {
   @IsString({ message: 'Username must be a string' })
   @Length(3, 30, { message: 'Username must be between 3 and 30 characters' })
   username: string;
+
+  @IsNotEmpty({ message: 'Password is required' })
+  @IsString({ message: 'Password must be a string' })
+  @Length(8, 128, { message: 'Password must be between 8 and 128 characters' })
+  password: string;
 }
@@ -0,0 +1,26 @@
+import {
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PRESENCE_STATUSES } from '../schemas/user.schema';
+import type { PresenceStatus } from '../schemas/user.schema';
+
+export class UpdatePresenceDto {
+  @IsOptional()
+  @IsIn(PRESENCE_STATUSES)
+  status?: PresenceStatus;
+
+  // An empty string clears the custom status
+  @IsOptional()
+  @IsString()
+  @MaxLength(140)
+  statusText?: string;
+
+  // When the custom status text should be cleared (optional)
+  @IsOptional()
+  @IsDateString()
+  statusExpiresAt?: string;
+}
@@ -0,0 +1,8 @@
+import { IsIn } from 'class-validator';
+import { ROLES } from '../schemas/user.schema';
+import type { Role } from '../schemas/user.schema';
+
+export class UpdateRoleDto {
+  @IsIn(ROLES)
+  role: Role;
+}
@@ -1,7 +1,33 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
-@Schema({ timestamps: true })
+// Presence states a user can choose; 'offline' is set when they disconnect
+export const PRESENCE_STATUSES = ['online', 'away', 'busy', 'invisible'];
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'invisible';
+export type UserStatus = PresenceStatus | 'offline';
+
+// Roles, most privileged first (see auth/permissions.ts for what they allow)
+export const ROLES = ['admin', 'moderator', 'member', 'guest'];
+export type Role = 'admin' | 'moderator' | 'member' | 'guest';
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    // Never expose credentials in API responses or socket events
+    transform: (_doc, ret: Record<string, any>) => {
+      delete ret.passwordHash;
+      delete ret.passwordResetTokenHash;
+      delete ret.passwordResetExpiresAt;
+
+      // Invisible users look offline to everyone else
+      delete ret.preferredStatus;
+      if (ret.status === 'invisible') {
+        ret.status = 'offline';
+      }
+      return ret;
+    },
+  },
+})
 export class User {
   @Prop({
     required: true,
@@ -12,9 +38,75 @@ export class User {
   })
   username: string;
 
-  @Prop({ default: 'offline', enum: ['online', 'offline'] })
-  status: string;
+  // Current presence: the preferred status while connected (or 'away' when
+  // idle), 'offline' otherwise
+  @Prop({ default: 'offline', enum: [...PRESENCE_STATUSES, 'offline'] })
+  status: UserStatus;
+
+  // Status the user chose; applied whenever they connect
+  @Prop({ default: 'online', enum: PRESENCE_STATUSES })
+  preferredStatus: PresenceStatus;
+
+  // Custom status text, cleared automatically after statusExpiresAt
+  @Prop({ type: String, default: null, maxlength: 140 })
+  statusText?: string | null;
+
+  @Prop({ type: Date, default: null })
+  statusExpiresAt?: Date | null;
+
+  // Last time the user was connected or active
+  @Prop({ type: Date, default: null })
+  lastSeenAt?: Date | null;
+
+  // Decides what the user may do (see auth/permissions.ts)
+  @Prop({ default: 'member', enum: ROLES })
+  role: Role;
+
+  // scrypt hash of the password (see auth/password.util.ts)
+  @Prop({ required: true, select: false })
+  passwordHash: string;
+
+  @Prop()
+  passwordChangedAt?: Date;
+
+  // SHA-256 hash of the current password reset token
+  @Prop({ select: false })
+  passwordResetTokenHash?: string;
+
+  @Prop({ select: false })
+  passwordResetExpiresAt?: Date;
 }
 
 export type UserDocument = User & Document;
 export const UserSchema = SchemaFactory.createForClass(User);
+
+UserSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+UserSchema.index({ status: 1 });
+UserSchema.index({ statusExpiresAt: 1 }, { sparse: true });
+
+/**
+ * Presence fields of a user, as sent in `presenceChanged` events
+ * @param user - User document
+ * @param self - Whether the recipient is the user themselves (others see
+ * invisible users as offline)
+ */
+export const toPresence = (
+  user: UserDocument,
+  self: boolean = false,
+): {
+  userId: string;
+  username: string;
+  status: UserStatus;
+  statusText: string | null;
+  statusExpiresAt: Date | null;
+  lastSeenAt: Date | null;
+  preferredStatus?: PresenceStatus;
+} => ({
+  userId: String(user._id),
+  username: user.username,
+  status: !self && user.status === 'invisible' ? 'offline' : user.status,
+  statusText: user.statusText ?? null,
+  statusExpiresAt: user.statusExpiresAt ?? null,
+  lastSeenAt: user.lastSeenAt ?? null,
+  ...(self ? { preferredStatus: user.preferredStatus } : {}),
+});
@@ -1,36 +1,26 @@
 import {
   Controller,
   Get,
-  Post,
+  Put,
   Delete,
-  Patch,
   Body,
   Param,
-  HttpCode,
-  HttpStatus,
+  UseGuards,
+  ForbiddenException,
 } from '@nestjs/common';
 import { UserService } from './user.service';
-import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
 
 @Controller('users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UserController {
   constructor(private readonly userService: UserService) {}
 
-  /**
-   * POST /users
-   * Create a new user
-   */
-  @Post()
-  @HttpCode(HttpStatus.CREATED)
-  async createUser(@Body() createUserDto: CreateUserDto) {
-    const user = await this.userService.createUser(createUserDto);
-    return {
-      success: true,
-      message: 'User created successfully',
-      data: user,
-    };
-  }
-
   /**
    * GET /users
    * Get all users
@@ -47,7 +37,7 @@ export class UserController {
 
   /**
    * GET /users/online
-   * Get all online users
+   * Get all online users (invisible users are not listed)
    */
   @Get('online')
   async getOnlineUsers() {
@@ -86,28 +76,71 @@ export class UserController {
   }
 
   /**
-   * PATCH /users/:id/status
-   * Update user status (online/offline)
+   * PUT /users/:id/role
+   * Grant a user a role (admins only)
    */
-  @Patch(':id/status')
-  async updateUserStatus(
+  @Put(':id/role')
+  @RequirePermissions('user:roles')
+  async grantRole(
     @Param('id') id: string,
-    @Body('status') status: 'online' | 'offline',
+    @Body() updateRoleDto: UpdateRoleDto,
+    @CurrentUser() currentUser: AuthUser,
   ) {
-    const user = await this.userService.updateStatus(id, status);
+    // Keeps the last admin from locking everyone out
+    if (id === currentUser.userId) {
+      throw new ForbiddenException('You cannot change your own role');
+    }
+
+    const user = await this.userService.setRole(id, updateRoleDto.role);
     return {
       success: true,
-      message: 'Status updated successfully',
+      message: 'Role granted successfully',
+      data: user,
+    };
+  }
+
+  /**
+   * DELETE /users/:id/role
+   * Revoke a user's role, making them a regular member (admins only)
+   */
+  @Delete(':id/role')
+  @RequirePermissions('user:roles')
+  async revokeRole(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthUser,
+  ) {
+    if (id === currentUser.userId) {
+      throw new ForbiddenException('You cannot change your own role');
+    }
+
+    const user = await this.userService.setRole(id, 'member');
+    return {
+      success: true,
+      message: 'Role revoked successfully',
       data: user,
     };
   }
 
   /**
    * DELETE /users/:id
-   * Delete user by ID
+   * Delete the authenticated user's account (admins can delete any)
    */
   @Delete(':id')
-  async deleteUser(@Param('id') id: string) {
+  @RequirePermissions('user:delete:self')
+  async deleteUser(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthUser,
+  ) {
+    if (
+      id !== currentUser.userId &&
+      !(await this.userService.hasPermission(
+        currentUser.userId,
+        'user:delete:any',
+      ))
+    ) {
+      throw new ForbiddenException('You can only delete your own account');
+    }
+
     const user = await this.userService.deleteUser(id);
     return {
       success: true,
@@ -4,26 +4,50 @@ import {
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { User, UserDocument } from './schemas/user.schema';
+import {
+  User,
+  UserDocument,
+  UserStatus,
+  PresenceStatus,
+  Role,
+} from './schemas/user.schema';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdatePresenceDto } from './dto/update-presence.dto';
+import { hashPassword } from '../auth/password.util';
+import { Permission, hasPermission } from '../auth/permissions';
 
 @Injectable()
 export class UserService {
-  constructor(@InjectModel(User.name) private userModel: Model<UserDocument>) {}
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+  ) {}
 
   /**
-   * Create a new user
-   * @param createUserDto - DTO containing username
+   * Create a new user account
+   * @param createUserDto - DTO containing username and password
    * @returns Created user document
    * @throws ConflictException if username already exists
    */
   async createUser(createUserDto: CreateUserDto): Promise<UserDocument> {
     try {
+      // Accounts listed in ADMIN_USERNAMES start out as admins, so a fresh
+      // deployment has someone who can grant roles
+      const adminUsernames = this.configService
+        .get<string>('ADMIN_USERNAMES', '')
+        .split(',')
+        .map((username) => username.trim());
+
       const newUser = new this.userModel({
-        ...createUserDto,
+        username: createUserDto.username,
+        passwordHash: await hashPassword(createUserDto.password),
         status: 'offline', // Default status
+        role: adminUsernames.includes(createUserDto.username)
+          ? 'admin'
+          : 'member',
       });
 
       return await newUser.save();
@@ -74,22 +98,195 @@ export class UserService {
   }
 
   /**
-   * Update user status (online/offline)
+   * Find users by username
+   * @param usernames - Usernames to search for
+   * @returns Users that exist (in no particular order)
+   */
+  async findByUsernames(usernames: string[]): Promise<UserDocument[]> {
+    return await this.userModel.find({ username: { $in: usernames } }).exec();
+  }
+
+  /**
+   * Find user by username, including the password hash
+   * @param username - Username to search for
+   * @returns User document or null
+   */
+  async findByUsernameWithPassword(
+    username: string,
+  ): Promise<UserDocument | null> {
+    return await this.userModel
+      .findOne({ username })
+      .select('+passwordHash')
+      .exec();
+  }
+
+  /**
+   * Find user by ID, including the password hash
+   * @param id - User's MongoDB ObjectId
+   * @returns User document
+   * @throws NotFoundException if user not found
+   */
+  async findByIdWithPassword(id: string): Promise<UserDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid user ID format');
+    }
+
+    const user = await this.userModel
+      .findById(id)
+      .select('+passwordHash')
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  /**
+   * Replace a user's password and clear any pending reset token
    * @param id - User's MongoDB ObjectId
-   * @param status - New status ('online' or 'offline')
+   * @param password - New plain text password
    * @returns Updated user document
    * @throws NotFoundException if user not found
    */
-  async updateStatus(
+  async updatePassword(id: string, password: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        id,
+        {
+          passwordHash: await hashPassword(password),
+          passwordChangedAt: new Date(),
+          $unset: { passwordResetTokenHash: 1, passwordResetExpiresAt: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  /**
+   * Change a user's username
+   * @param id - User's MongoDB ObjectId
+   * @param username - New username (3 to 30 characters)
+   * @returns Updated user document
+   * @throws BadRequestException if the username is too short or too long
+   * @throws ConflictException if username already exists
+   * @throws NotFoundException if user not found
+   */
+  async rename(id: string, username: string): Promise<UserDocument> {
+    const trimmed = username.trim();
+    if (trimmed.length < 3 || trimmed.length > 30) {
+      throw new BadRequestException(
+        'Username must be between 3 and 30 characters',
+      );
+    }
+
+    try {
+      const user = await this.userModel
+        .findByIdAndUpdate(id, { username: trimmed }, { new: true })
+        .exec();
+
+      if (!user) {
+        throw new NotFoundException(`User with ID ${id} not found`);
+      }
+
+      return user;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException('Username already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a password reset token hash for a user
+   * @param id - User's MongoDB ObjectId
+   * @param tokenHash - SHA-256 hash of the reset token
+   * @param expiresAt - When the token stops being valid
+   */
+  async setPasswordResetToken(
     id: string,
-    status: 'online' | 'offline',
-  ): Promise<UserDocument> {
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: id },
+        {
+          passwordResetTokenHash: tokenHash,
+          passwordResetExpiresAt: expiresAt,
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Find the user owning an unexpired password reset token
+   * @param tokenHash - SHA-256 hash of the reset token
+   * @returns User document or null
+   */
+  async findByPasswordResetToken(
+    tokenHash: string,
+  ): Promise<UserDocument | null> {
+    return await this.userModel
+      .findOne({
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpiresAt: { $gt: new Date() },
+      })
+      .exec();
+  }
+
+  /**
+   * Update user status
+   * @param id - User's MongoDB ObjectId
+   * @param status - New status
+   * @returns Updated user document
+   * @throws NotFoundException if user not found
+   */
+  async updateStatus(id: string, status: UserStatus): Promise<UserDocument> {
     if (!id.match(/^[0-9a-fA-F]{24}$/)) {
       throw new BadRequestException('Invalid user ID format');
     }
 
     const user = await this.userModel
-      .findByIdAndUpdate(id, { status }, { new: true })
+      .findByIdAndUpdate(id, { status, lastSeenAt: new Date() }, { new: true })
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  /**
+   * Bring a user online with the status they chose
+   * @param id - User's MongoDB ObjectId
+   * @returns Updated user document
+   * @throws NotFoundException if user not found
+   */
+  async connect(id: string): Promise<UserDocument> {
+    const user = await this.findById(id);
+    return await this.updateStatus(id, user.preferredStatus);
+  }
+
+  /**
+   * Mark a user offline
+   * @param id - User's MongoDB ObjectId
+   * @returns The user as it was before going offline (so callers can tell
+   * whether others could see them)
+   * @throws NotFoundException if user not found
+   */
+  async disconnect(id: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findByIdAndUpdate(id, { status: 'offline', lastSeenAt: new Date() })
       .exec();
 
     if (!user) {
@@ -99,6 +296,103 @@ export class UserService {
     return user;
   }
 
+  /**
+   * Change a user's chosen status and custom status text
+   * @param id - User's MongoDB ObjectId
+   * @param updatePresenceDto - DTO with status, statusText, statusExpiresAt
+   * @returns Updated user document
+   * @throws BadRequestException if the expiry is in the past
+   */
+  async setPresence(
+    id: string,
+    updatePresenceDto: UpdatePresenceDto,
+  ): Promise<UserDocument> {
+    const user = await this.findById(id);
+    const { status, statusText, statusExpiresAt } = updatePresenceDto;
+    const update: Partial<User> = {};
+
+    if (status) {
+      update.preferredStatus = status;
+      // Only connected users show their chosen status
+      if (user.status !== 'offline') {
+        update.status = status;
+      }
+    }
+
+    if (statusText !== undefined) {
+      const expiresAt = statusExpiresAt ? new Date(statusExpiresAt) : null;
+      if (expiresAt && expiresAt <= new Date()) {
+        throw new BadRequestException('statusExpiresAt must be in the future');
+      }
+
+      update.statusText = statusText.trim() || null;
+      update.statusExpiresAt = update.statusText ? expiresAt : null;
+    }
+
+    const updated = await this.userModel
+      .findByIdAndUpdate(id, update, { new: true })
+      .exec();
+
+    if (!updated) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Switch an idle user from 'online' to 'away'
+   * @param id - User's MongoDB ObjectId
+   * @returns Updated user, or null if they were not 'online'
+   */
+  async markIdle(id: string): Promise<UserDocument | null> {
+    return await this.userModel
+      .findOneAndUpdate(
+        { _id: id, status: 'online' },
+        { status: 'away' },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Bring a user back from automatic 'away' after activity
+   * @param id - User's MongoDB ObjectId
+   * @returns Updated user, or null if they were not automatically away
+   */
+  async markActive(id: string): Promise<UserDocument | null> {
+    return await this.userModel
+      .findOneAndUpdate(
+        { _id: id, status: 'away', preferredStatus: { $ne: 'away' } },
+        [{ $set: { status: '$preferredStatus', lastSeenAt: '$$NOW' } }],
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Clear custom status texts whose expiry has passed
+   * @returns Users whose status text was cleared
+   */
+  async clearExpiredStatusTexts(): Promise<UserDocument[]> {
+    const filter = { statusExpiresAt: { $ne: null, $lte: new Date() } };
+    const expired = await this.userModel.find(filter).exec();
+
+    if (expired.length === 0) {
+      return [];
+    }
+
+    const ids = expired.map((user) => user._id);
+    await this.userModel
+      .updateMany(
+        { ...filter, _id: { $in: ids } },
+        { statusText: null, statusExpiresAt: null },
+      )
+      .exec();
+
+    return await this.userModel.find({ _id: { $in: ids } }).exec();
+  }
+
   /**
    * Delete user by ID
    * @param id - User's MongoDB ObjectId
@@ -120,11 +414,57 @@ export class UserService {
   }
 
   /**
-   * Get all online users
-   * @returns Array of online users
+   * Get a user's role
+   * @param id - User's MongoDB ObjectId
+   * @returns The user's role
+   * @throws NotFoundException if user not found
    */
-  async getOnlineUsers(): Promise<UserDocument[]> {
-    return await this.userModel.find({ status: 'online' }).exec();
+  async getRole(id: string): Promise<Role> {
+    const user = await this.findById(id);
+    return user.role;
+  }
+
+  /**
+   * Check if a user's role grants a permission
+   * @param id - User's MongoDB ObjectId
+   * @param permission - Permission to check
+   * @returns boolean indicating whether the user has the permission
+   */
+  async hasPermission(id: string, permission: Permission): Promise<boolean> {
+    return hasPermission(await this.getRole(id), permission);
+  }
+
+  /**
+   * Change a user's role
+   * @param id - User's MongoDB ObjectId
+   * @param role - New role
+   * @returns Updated user document
+   * @throws NotFoundException if user not found
+   */
+  async setRole(id: string, role: Role): Promise<UserDocument> {
+    await this.findById(id);
+
+    const user = await this.userModel
+      .findByIdAndUpdate(id, { role }, { new: true })
+      .exec();
+
+    return user!;
+  }
+
+  /**
+   * Get all connected users
+   * @param includeInvisible - Also return users who appear offline
+   * @returns Array of online, away and busy (and invisible) users
+   */
+  async getOnlineUsers(
+    includeInvisible: boolean = false,
+  ): Promise<UserDocument[]> {
+    const statuses: PresenceStatus[] = ['online', 'away', 'busy'];
+    if (includeInvisible) {
+      statuses.push('invisible');
+    }
+
+    return await this.userModel.find({ status: { $in: statuses } }).exec();
   }
 
   /**
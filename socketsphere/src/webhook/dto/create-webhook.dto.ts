@@ -0,0 +1,42 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../schemas/webhook.schema';
+import type { WebhookEvent } from '../schemas/webhook.schema';
+
+export class CreateWebhookDto {
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2000)
+  url: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: WebhookEvent[];
+
+  // Generated when omitted
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(200)
+  secret?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
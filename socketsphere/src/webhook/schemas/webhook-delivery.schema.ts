@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WEBHOOK_EVENTS } from './webhook.schema';
+import type { WebhookEvent } from './webhook.schema';
+
+// pending: queued or waiting for a retry
+// dead: gave up after the last attempt (see the dead-letter list)
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'succeeded',
+  'dead',
+] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, ref: 'Webhook', required: true })
+  webhookId: Types.ObjectId;
+
+  @Prop({ type: String, enum: WEBHOOK_EVENTS, required: true })
+  event: WebhookEvent;
+
+  // Event data, sent as the `data` field of the request body
+  @Prop({ type: Object, required: true })
+  payload: Record<string, unknown>;
+
+  @Prop({
+    type: String,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    default: 'pending',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // Outcome of the last attempt (status code is null if no response)
+  @Prop({ type: Number, default: null })
+  lastStatusCode?: number | null;
+
+  @Prop({ type: String, default: null })
+  lastError?: string | null;
+
+  @Prop({ type: Date, default: null })
+  lastAttemptAt?: Date | null;
+
+  // When the next attempt is due (null once finished)
+  @Prop({ type: Date, default: null })
+  nextAttemptAt?: Date | null;
+
+  @Prop({ type: Date, default: null })
+  deliveredAt?: Date | null;
+
+  // Mongoose timestamps
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+// The delivery log is kept for a week
+WebhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 3600 },
+);
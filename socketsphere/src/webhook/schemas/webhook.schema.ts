@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+// Chat events a webhook can subscribe to
+export const WEBHOOK_EVENTS = [
+  'message.created',
+  'message.deleted',
+  'user.joined',
+  'user.left',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+@Schema({ timestamps: true })
+export class Webhook {
+  // Endpoint the events are POSTed to
+  @Prop({ required: true, maxlength: 2000 })
+  url: string;
+
+  // Key for the payload signature; only returned when the webhook is created
+  @Prop({ required: true, select: false })
+  secret: string;
+
+  // Subscribed events
+  @Prop({ type: [String], enum: WEBHOOK_EVENTS, required: true })
+  events: WebhookEvent[];
+
+  @Prop({ type: String, default: null, maxlength: 200 })
+  description?: string | null;
+
+  @Prop({ default: true })
+  active: boolean;
+
+  // Admin who created the webhook
+  @Prop({ required: true })
+  createdBy: string;
+}
+
+export type WebhookDocument = Webhook & Document;
+export const WebhookSchema = SchemaFactory.createForClass(Webhook);
@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WEBHOOK_DELIVERY_STATUSES } from './schemas/webhook-delivery.schema';
+import type { WebhookDeliveryStatus } from './schemas/webhook-delivery.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthUser } from '../auth/interfaces/jwt-payload.interface';
+
+const parseLimit = (limit?: string): number =>
+  limit ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 100) : 50;
+
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('webhook:manage')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * GET /webhooks
+   * List all webhooks (admins only)
+   */
+  @Get()
+  async getWebhooks() {
+    const webhooks = await this.webhookService.findAll();
+    return {
+      success: true,
+      data: webhooks,
+      count: webhooks.length,
+    };
+  }
+
+  /**
+   * POST /webhooks
+   * Create a webhook; the response is the only time its secret is shown
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createWebhook(
+    @Body() createWebhookDto: CreateWebhookDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const webhook = await this.webhookService.createWebhook(
+      createWebhookDto,
+      user.userId,
+    );
+    return {
+      success: true,
+      message: 'Webhook created successfully',
+      data: webhook,
+    };
+  }
+
+  /**
+   * GET /webhooks/dead-letters?limit=
+   * List the latest deliveries that were given up on
+   */
+  @Get('dead-letters')
+  async getDeadLetters(@Query('limit') limit?: string) {
+    const deadLetters = await this.webhookService.getDeadLetters(
+      parseLimit(limit),
+    );
+    return {
+      success: true,
+      data: deadLetters,
+      count: deadLetters.length,
+    };
+  }
+
+  /**
+   * GET /webhooks/:id
+   * Get webhook by ID
+   */
+  @Get(':id')
+  async getWebhookById(@Param('id') id: string) {
+    const webhook = await this.webhookService.findById(id);
+    return {
+      success: true,
+      data: webhook,
+    };
+  }
+
+  /**
+   * PATCH /webhooks/:id
+   * Update a webhook's URL, events, description or active flag
+   */
+  @Patch(':id')
+  async updateWebhook(
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ) {
+    const webhook = await this.webhookService.updateWebhook(
+      id,
+      updateWebhookDto,
+    );
+    return {
+      success: true,
+      message: 'Webhook updated successfully',
+      data: webhook,
+    };
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   * Delete a webhook and its delivery log
+   */
+  @Delete(':id')
+  async deleteWebhook(@Param('id') id: string) {
+    await this.webhookService.deleteWebhook(id);
+    return {
+      success: true,
+      message: 'Webhook deleted successfully',
+    };
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries?status=&limit=
+   * Get a webhook's delivery log, newest first
+   */
+  @Get(':id/deliveries')
+  async getDeliveries(
+    @Param('id') id: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (
+      status &&
+      !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      throw new BadRequestException(
+        `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+      );
+    }
+
+    const deliveries = await this.webhookService.getDeliveries(
+      id,
+      status as WebhookDeliveryStatus | undefined,
+      parseLimit(limit),
+    );
+    return {
+      success: true,
+      data: deliveries,
+      count: deliveries.length,
+    };
+  }
+
+  /**
+   * POST /webhooks/:id/deliveries/:deliveryId/redeliver
+   * Queue a succeeded or dead delivery again
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    const delivery = await this.webhookService.redeliver(id, deliveryId);
+    return {
+      success: true,
+      message: 'Delivery queued',
+      data: delivery,
+    };
+  }
+}
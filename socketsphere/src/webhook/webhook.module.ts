@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Webhook, WebhookSchema } from './schemas/webhook.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from './schemas/webhook-delivery.schema';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Webhook.name, schema: WebhookSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+    UserModule,
+  ],
+  controllers: [WebhookController],
+  providers: [WebhookService],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
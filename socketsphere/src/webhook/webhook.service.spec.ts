@@ -0,0 +1,190 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AddressInfo } from 'net';
+import { IncomingHttpHeaders, Server, createServer } from 'http';
+import { WebhookService } from './webhook.service';
+import { Webhook } from './schemas/webhook.schema';
+import { WebhookDelivery } from './schemas/webhook-delivery.schema';
+import { RedisService } from '../redis/redis.service';
+
+const DELIVERY_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('WebhookService', () => {
+  let webhookService: WebhookService;
+  let server: Server;
+  let statusCode: number;
+  let requests: IncomingHttpHeaders[];
+  let delivery: Record<string, unknown> & {
+    set: jest.Mock;
+    save: jest.Mock;
+  };
+  const webhook = {
+    _id: 'w1',
+    url: '',
+    secret: 'secret',
+    active: true,
+  };
+  const webhookModel = {
+    findById: jest.fn(() => ({
+      select: () => ({ exec: () => Promise.resolve(webhook) }),
+    })),
+  };
+  const deliveryModel = {
+    insertMany: jest.fn((docs: Record<string, unknown>[]) =>
+      Promise.resolve(docs.map((doc, i) => ({ _id: `d${i}`, ...doc }))),
+    ),
+    findById: jest.fn(() => ({ exec: () => Promise.resolve(delivery) })),
+  };
+  const redisService = {
+    get: jest.fn(),
+    scheduleJob: jest.fn(),
+    claimDueJobs: jest.fn(),
+    removeJob: jest.fn(),
+    pushCapped: jest.fn(),
+  };
+
+  // Stub endpoint answering every delivery with the current status code
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.headers);
+      req.resume();
+      res.statusCode = statusCode;
+      res.end();
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    webhook.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createService = async (config: Record<string, string>) => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        { provide: getModelToken(Webhook.name), useValue: webhookModel },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: deliveryModel,
+        },
+        { provide: RedisService, useValue: redisService },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+
+    return app.get<WebhookService>(WebhookService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    requests = [];
+    statusCode = 204;
+    redisService.get.mockResolvedValue(
+      JSON.stringify([
+        { id: 'w1', events: ['message.created'] },
+        { id: 'w2', events: ['user.joined'] },
+      ]),
+    );
+    redisService.claimDueJobs.mockResolvedValue([DELIVERY_ID]);
+    delivery = {
+      _id: DELIVERY_ID,
+      webhookId: 'w1',
+      event: 'message.created',
+      payload: { text: 'hi' },
+      status: 'pending',
+      attempts: 0,
+      set: jest.fn(function (this: Record<string, unknown>, values: object) {
+        Object.assign(this, values);
+      }),
+      save: jest.fn(() => Promise.resolve()),
+    };
+
+    // The stub listens on loopback, which deliveries refuse by default
+    webhookService = await createService({
+      WEBHOOK_ALLOW_PRIVATE_NETWORKS: 'true',
+    });
+  });
+
+  it('should queue a delivery for each subscribed webhook', async () => {
+    await webhookService.dispatch('message.created', { text: 'hi' });
+
+    expect(deliveryModel.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({ webhookId: 'w1', event: 'message.created' }),
+    ]);
+    expect(redisService.scheduleJob).toHaveBeenCalledTimes(1);
+    expect(redisService.scheduleJob).toHaveBeenCalledWith(
+      'webhooks:queue',
+      'd0',
+      expect.any(Number),
+    );
+  });
+
+  it('should send a signed request and finish the delivery', async () => {
+    await webhookService.processQueue();
+
+    const [headers] = requests;
+    expect(headers['x-socketsphere-event']).toBe('message.created');
+    expect(headers['x-socketsphere-signature']).toMatch(
+      /^sha256=[0-9a-f]{64}$/,
+    );
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(redisService.removeJob).toHaveBeenCalledWith(
+      'webhooks:queue',
+      DELIVERY_ID,
+    );
+  });
+
+  it('should retry a failed delivery later', async () => {
+    statusCode = 500;
+    const before = Date.now();
+
+    await webhookService.processQueue();
+
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1 });
+    const [, , dueAt] = redisService.scheduleJob.mock.calls[0] as [
+      string,
+      string,
+      number,
+    ];
+    expect(dueAt).toBeGreaterThanOrEqual(before + 30000);
+    expect(redisService.pushCapped).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter a delivery after the last attempt', async () => {
+    statusCode = 500;
+    delivery.attempts = 5;
+
+    await webhookService.processQueue();
+
+    expect(delivery).toMatchObject({
+      status: 'dead',
+      attempts: 6,
+      lastError: 'Endpoint responded with 500',
+    });
+    expect(redisService.scheduleJob).not.toHaveBeenCalled();
+    expect(redisService.pushCapped).toHaveBeenCalledWith(
+      'webhooks:dead',
+      expect.stringContaining(DELIVERY_ID),
+      1000,
+    );
+  });
+
+  it('should refuse to deliver to private networks by default', async () => {
+    webhookService = await createService({});
+
+    await webhookService.processQueue();
+
+    expect(requests).toEqual([]);
+    expect(delivery).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastStatusCode: null,
+      lastError: 'Refusing to connect to private address for 127.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,556 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { randomBytes } from 'crypto';
+import { IncomingMessage, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import {
+  Webhook,
+  WebhookDocument,
+  WebhookEvent,
+} from './schemas/webhook.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from './schemas/webhook-delivery.schema';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { getRetryDelay, signWebhookPayload } from './webhook.util';
+import { RedisService } from '../redis/redis.service';
+import { resolvePinnedHost } from '../link-preview/fetcher/network-guard.util';
+
+interface ActiveWebhook {
+  id: string;
+  events: WebhookEvent[];
+}
+
+export interface DeadLetter {
+  deliveryId: string;
+  webhookId: string;
+  event: WebhookEvent;
+  attempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+/**
+ * Webhook Service - Outgoing webhooks for chat events
+ *
+ * Every event is recorded as a delivery per subscribed webhook and queued in
+ * Redis, so any instance can send it. Failed deliveries are retried with
+ * exponential backoff; after WEBHOOK_MAX_ATTEMPTS they are marked dead and
+ * added to the dead-letter list.
+ */
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly WEBHOOKS_CACHE_KEY = 'webhooks:active';
+  private readonly WEBHOOKS_CACHE_TTL = 3600;
+  private readonly QUEUE_KEY = 'webhooks:queue';
+  private readonly DEAD_LETTER_KEY = 'webhooks:dead';
+  private readonly DEAD_LETTER_LIMIT = 1000;
+  private readonly BATCH_SIZE = 10;
+  private readonly maxAttempts: number;
+  private readonly timeoutMs: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly pollInterval: number;
+  private readonly blockPrivateNetworks: boolean;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectModel(Webhook.name)
+    private webhookModel: Model<WebhookDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly redisService: RedisService,
+    configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(configService.get('WEBHOOK_MAX_ATTEMPTS', 6));
+    this.timeoutMs = Number(configService.get('WEBHOOK_TIMEOUT', 10000));
+    this.retryDelayMs =
+      Number(configService.get('WEBHOOK_RETRY_DELAY', 30)) * 1000;
+    this.maxRetryDelayMs =
+      Number(configService.get('WEBHOOK_MAX_RETRY_DELAY', 3600)) * 1000;
+    this.pollInterval = Number(configService.get('WEBHOOK_POLL_INTERVAL', 1));
+    // Only for local development, where endpoints run on this machine
+    this.blockPrivateNetworks =
+      configService.get<string>('WEBHOOK_ALLOW_PRIVATE_NETWORKS') !== 'true';
+  }
+
+  onModuleInit() {
+    this.pollTimer = setInterval(() => {
+      void this.processQueue();
+    }, this.pollInterval * 1000);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.pollTimer);
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it
+   *
+   * Never throws: a failing webhook setup must not break the chat action
+   * that triggered the event.
+   * @param event - Event name
+   * @param data - Event data (documents are serialized as sent to clients)
+   */
+  async dispatch(event: WebhookEvent, data: object): Promise<void> {
+    try {
+      const webhooks = (await this.getActiveWebhooks()).filter((webhook) =>
+        webhook.events.includes(event),
+      );
+      if (!webhooks.length) {
+        return;
+      }
+
+      const payload = JSON.parse(JSON.stringify(data)) as Record<
+        string,
+        unknown
+      >;
+      const now = new Date();
+      const deliveries = await this.deliveryModel.insertMany(
+        webhooks.map((webhook) => ({
+          webhookId: webhook.id,
+          event,
+          payload,
+          nextAttemptAt: now,
+        })),
+      );
+
+      await Promise.all(
+        deliveries.map((delivery) =>
+          this.redisService.scheduleJob(
+            this.QUEUE_KEY,
+            String(delivery._id),
+            now.getTime(),
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch ${event} to webhooks:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  /**
+   * Get all webhooks
+   * @returns Array of webhooks (without secrets), oldest first
+   */
+  async findAll(): Promise<WebhookDocument[]> {
+    return await this.webhookModel.find().sort({ createdAt: 1 }).exec();
+  }
+
+  /**
+   * Find webhook by ID
+   * @param id - Webhook's MongoDB ObjectId
+   * @returns Webhook (without its secret)
+   * @throws NotFoundException if webhook not found
+   */
+  async findById(id: string): Promise<WebhookDocument> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid webhook ID format');
+    }
+
+    const webhook = await this.webhookModel.findById(id).exec();
+
+    if (!webhook) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Create a webhook
+   * @param createWebhookDto - DTO describing the webhook
+   * @param userId - Admin creating the webhook
+   * @returns Created webhook, including its secret
+   */
+  async createWebhook(
+    createWebhookDto: CreateWebhookDto,
+    userId: string,
+  ): Promise<WebhookDocument> {
+    const webhook = await new this.webhookModel({
+      ...createWebhookDto,
+      secret: createWebhookDto.secret ?? randomBytes(32).toString('hex'),
+      createdBy: userId,
+    }).save();
+    await this.refreshCache();
+
+    this.logger.log(`🪝 Webhook ${String(webhook._id)} created`);
+    return webhook;
+  }
+
+  /**
+   * Update a webhook
+   * @param id - Webhook's MongoDB ObjectId
+   * @param updateWebhookDto - Settings to change
+   * @returns Updated webhook
+   * @throws NotFoundException if webhook not found
+   */
+  async updateWebhook(
+    id: string,
+    updateWebhookDto: UpdateWebhookDto,
+  ): Promise<WebhookDocument> {
+    const webhook = await this.findById(id);
+    webhook.set(updateWebhookDto);
+
+    const saved = await webhook.save();
+    await this.refreshCache();
+
+    this.logger.log(`🪝 Webhook ${id} updated`);
+    return saved;
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * @param id - Webhook's MongoDB ObjectId
+   * @returns Deleted webhook
+   * @throws NotFoundException if webhook not found
+   */
+  async deleteWebhook(id: string): Promise<WebhookDocument> {
+    const webhook = await this.findById(id);
+    await this.webhookModel.deleteOne({ _id: webhook._id }).exec();
+    // Queued jobs of these deliveries are dropped when they come up
+    await this.deliveryModel.deleteMany({ webhookId: webhook._id }).exec();
+    await this.refreshCache();
+
+    this.logger.log(`🪝 Webhook ${id} deleted`);
+    return webhook;
+  }
+
+  /**
+   * Get the delivery log of a webhook
+   * @param id - Webhook's MongoDB ObjectId
+   * @param status - Only deliveries with this status
+   * @param limit - Maximum number of deliveries
+   * @returns Deliveries, newest first
+   * @throws NotFoundException if webhook not found
+   */
+  async getDeliveries(
+    id: string,
+    status?: WebhookDeliveryStatus,
+    limit = 50,
+  ): Promise<WebhookDeliveryDocument[]> {
+    const webhook = await this.findById(id);
+    const query: FilterQuery<WebhookDeliveryDocument> = {
+      webhookId: webhook._id,
+    };
+    if (status) {
+      query.status = status;
+    }
+
+    return await this.deliveryModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Queue a finished delivery again, with a fresh set of attempts
+   * @param id - Webhook's MongoDB ObjectId
+   * @param deliveryId - Delivery's MongoDB ObjectId
+   * @returns Queued delivery
+   * @throws NotFoundException if webhook or delivery not found
+   * @throws BadRequestException if the delivery is still pending
+   */
+  async redeliver(
+    id: string,
+    deliveryId: string,
+  ): Promise<WebhookDeliveryDocument> {
+    const webhook = await this.findById(id);
+    if (!deliveryId.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid delivery ID format');
+    }
+
+    const delivery = await this.deliveryModel
+      .findOne({ _id: deliveryId, webhookId: webhook._id })
+      .exec();
+    if (!delivery) {
+      throw new NotFoundException(`Delivery with ID ${deliveryId} not found`);
+    }
+    if (delivery.status === 'pending') {
+      throw new BadRequestException('Delivery is already queued');
+    }
+
+    const now = new Date();
+    delivery.set({ status: 'pending', attempts: 0, nextAttemptAt: now });
+    const saved = await delivery.save();
+    await this.redisService.scheduleJob(
+      this.QUEUE_KEY,
+      deliveryId,
+      now.getTime(),
+    );
+
+    return saved;
+  }
+
+  /**
+   * Get the most recent deliveries that were given up on
+   * @param limit - Maximum number of entries
+   * @returns Dead letters, newest first
+   */
+  async getDeadLetters(limit = 50): Promise<DeadLetter[]> {
+    const entries = await this.redisService.getListRange(
+      this.DEAD_LETTER_KEY,
+      0,
+      limit - 1,
+    );
+    return entries.map((entry) => JSON.parse(entry) as DeadLetter);
+  }
+
+  /**
+   * Send the deliveries that are due (one batch per poll per instance)
+   */
+  async processQueue(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      // The lease outlasts the request timeout, so a job only comes back
+      // while claimed if the instance sending it died
+      const deliveryIds = await this.redisService.claimDueJobs(
+        this.QUEUE_KEY,
+        this.BATCH_SIZE,
+        this.timeoutMs + 30000,
+      );
+      await Promise.all(deliveryIds.map((id) => this.attemptDelivery(id)));
+    } catch (error) {
+      this.logger.error(
+        'Failed to process webhook deliveries:',
+        error instanceof Error ? error.message : error,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery, then finish or reschedule it
+   */
+  private async attemptDelivery(deliveryId: string): Promise<void> {
+    const delivery = deliveryId.match(/^[0-9a-fA-F]{24}$/)
+      ? await this.deliveryModel.findById(deliveryId).exec()
+      : null;
+    if (delivery?.status !== 'pending') {
+      await this.redisService.removeJob(this.QUEUE_KEY, deliveryId);
+      return;
+    }
+
+    const webhook = await this.webhookModel
+      .findById(delivery.webhookId)
+      .select('+secret')
+      .exec();
+    if (!webhook?.active) {
+      await this.giveUp(
+        delivery,
+        webhook ? 'Webhook is disabled' : 'Webhook was deleted',
+      );
+      return;
+    }
+
+    const { statusCode, error } = await this.send(webhook, delivery);
+    delivery.set({
+      attempts: delivery.attempts + 1,
+      lastStatusCode: statusCode,
+      lastError: error,
+      lastAttemptAt: new Date(),
+    });
+
+    if (!error) {
+      delivery.set({
+        status: 'succeeded',
+        deliveredAt: new Date(),
+        nextAttemptAt: null,
+      });
+      await delivery.save();
+      await this.redisService.removeJob(this.QUEUE_KEY, deliveryId);
+      return;
+    }
+
+    if (delivery.attempts >= this.maxAttempts) {
+      await this.giveUp(delivery, error);
+      return;
+    }
+
+    const nextAttemptAt = new Date(
+      Date.now() +
+        getRetryDelay(
+          delivery.attempts,
+          this.retryDelayMs,
+          this.maxRetryDelayMs,
+        ),
+    );
+    delivery.set({ nextAttemptAt });
+    await delivery.save();
+    await this.redisService.scheduleJob(
+      this.QUEUE_KEY,
+      deliveryId,
+      nextAttemptAt.getTime(),
+    );
+  }
+
+  /**
+   * POST a delivery to its webhook
+   * @returns Response status (null if none) and error (null on a 2xx)
+   */
+  private async send(
+    webhook: WebhookDocument,
+    delivery: WebhookDeliveryDocument,
+  ): Promise<{ statusCode: number | null; error: string | null }> {
+    const deliveryId = String(delivery._id);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({
+      id: deliveryId,
+      event: delivery.event,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+
+    try {
+      const statusCode = await this.post(webhook.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SocketSphere-Webhooks',
+        'X-SocketSphere-Event': delivery.event,
+        'X-SocketSphere-Delivery': deliveryId,
+        'X-SocketSphere-Timestamp': timestamp,
+        'X-SocketSphere-Signature': signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body,
+        ),
+      });
+
+      return {
+        statusCode,
+        error:
+          statusCode >= 200 && statusCode < 300
+            ? null
+            : `Endpoint responded with ${statusCode}`,
+      };
+    } catch (error) {
+      return {
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * POST a body to a URL, pinned to a checked public address so subscriber
+   * URLs cannot reach internal services (redirects are not followed, as
+   * they would resend the payload somewhere else)
+   * @returns Response status
+   */
+  private async post(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<number> {
+    const target = new URL(url);
+    const deadline = Date.now() + this.timeoutMs;
+    const { hostname, lookup } = await resolvePinnedHost(
+      target,
+      deadline,
+      this.blockPrivateNetworks,
+    );
+    const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return await new Promise<number>((resolve, reject) => {
+      const req = request(target, {
+        method: 'POST',
+        lookup,
+        servername: hostname,
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        signal: AbortSignal.timeout(Math.max(deadline - Date.now(), 1)),
+      });
+
+      req.on('response', (response: IncomingMessage) => {
+        response.destroy();
+        resolve(response.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  /**
+   * Mark a delivery dead and add it to the dead-letter list
+   */
+  private async giveUp(
+    delivery: WebhookDeliveryDocument,
+    reason: string,
+  ): Promise<void> {
+    delivery.set({ status: 'dead', lastError: reason, nextAttemptAt: null });
+    await delivery.save();
+    await this.redisService.removeJob(this.QUEUE_KEY, String(delivery._id));
+
+    const deadLetter: DeadLetter = {
+      deliveryId: String(delivery._id),
+      webhookId: String(delivery.webhookId),
+      event: delivery.event,
+      attempts: delivery.attempts,
+      lastError: reason,
+      failedAt: new Date().toISOString(),
+    };
+    await this.redisService.pushCapped(
+      this.DEAD_LETTER_KEY,
+      JSON.stringify(deadLetter),
+      this.DEAD_LETTER_LIMIT,
+    );
+
+    this.logger.warn(
+      `🪝 Gave up on delivery ${deadLetter.deliveryId} (${deadLetter.event}): ${reason}`,
+    );
+  }
+
+  /**
+   * Active webhooks and their events (from Redis when cached)
+   */
+  private async getActiveWebhooks(): Promise<ActiveWebhook[]> {
+    const cached = await this.redisService.get(this.WEBHOOKS_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as ActiveWebhook[];
+    }
+
+    return await this.refreshCache();
+  }
+
+  /**
+   * Load the active webhooks from Mongo and share them with all instances
+   */
+  private async refreshCache(): Promise<ActiveWebhook[]> {
+    const webhooks: ActiveWebhook[] = (
+      await this.webhookModel.find({ active: true }).exec()
+    ).map((webhook) => ({ id: String(webhook._id), events: webhook.events }));
+
+    try {
+      await this.redisService.set(
+        this.WEBHOOKS_CACHE_KEY,
+        JSON.stringify(webhooks),
+        this.WEBHOOKS_CACHE_TTL,
+      );
+    } catch {
+      // Mongo stays the source of truth; the next event retries the cache
+    }
+
+    return webhooks;
+  }
+}
@@ -0,0 +1,28 @@
+import { createHmac } from 'crypto';
+import { getRetryDelay, signWebhookPayload } from './webhook.util';
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with the secret', () => {
+    const expected = createHmac('sha256', 'secret')
+      .update('1700000000.{"a":1}')
+      .digest('hex');
+
+    expect(signWebhookPayload('secret', '1700000000', '{"a":1}')).toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it('should change when the timestamp changes', () => {
+    expect(signWebhookPayload('secret', '1', '{}')).not.toBe(
+      signWebhookPayload('secret', '2', '{}'),
+    );
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should double the delay after every attempt up to the maximum', () => {
+    expect(
+      [1, 2, 3, 4, 5].map((attempts) => getRetryDelay(attempts, 1000, 5000)),
+    ).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+});
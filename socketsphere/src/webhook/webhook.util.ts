@@ -0,0 +1,31 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Sign a webhook request body
+ *
+ * The signature covers the timestamp as well, so receivers can reject
+ * replayed requests: `sha256=` + HMAC-SHA256(secret, `${timestamp}.${body}`)
+ * @param secret - Webhook secret
+ * @param timestamp - Unix time in seconds (X-SocketSphere-Timestamp)
+ * @param body - Raw request body
+ * @returns Value of the X-SocketSphere-Signature header
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: string,
+  body: string,
+): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Delay before retrying a failed delivery (doubles after every attempt)
+ * @param attempts - Attempts made so far (at least 1)
+ * @param baseMs - Delay after the first failure
+ * @param maxMs - Longest delay
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelay = (
+  attempts: number,
+  baseMs: number,
+  maxMs: number,
+): number => Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);